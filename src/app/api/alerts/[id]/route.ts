@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { alertService } from '@/services/alertService'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { status, operatorId } = await request.json()
+
+    if (status !== 'ACKNOWLEDGED' && status !== 'RESOLVED') {
+      return NextResponse.json(
+        { error: 'Status must be ACKNOWLEDGED or RESOLVED' },
+        { status: 400 }
+      )
+    }
+
+    const alert = await alertService.updateStatus(params.id, status, operatorId)
+
+    return NextResponse.json(alert)
+  } catch (error) {
+    console.error('Error updating alert:', error)
+    return NextResponse.json(
+      { error: 'Failed to update alert' },
+      { status: 500 }
+    )
+  }
+}
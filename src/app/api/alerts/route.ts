@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { alertService } from '@/services/alertService'
+import { AlertStatus } from '@/types'
+
+const ALERT_STATUSES: AlertStatus[] = ['OPEN', 'ACKNOWLEDGED', 'RESOLVED']
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const statuses = (searchParams.get('status') ?? 'OPEN')
+      .split(',')
+      .filter((s): s is AlertStatus => ALERT_STATUSES.includes(s as AlertStatus))
+    const limit = Math.min(parseInt(searchParams.get('limit') ?? '50', 10) || 50, 200)
+
+    const result = await alertService.listAlerts(statuses, limit)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error fetching alerts:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch alerts' },
+      { status: 500 }
+    )
+  }
+}
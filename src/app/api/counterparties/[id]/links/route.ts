@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { counterpartyService } from '@/services/counterpartyService'
+import { linkAnalysisService } from '@/services/linkAnalysisService'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const parsed = linkAnalysisService.parseGraphQuery(searchParams)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid link query', issues: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const profile = await counterpartyService.getProfile(params.id)
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Counterparty not found' },
+        { status: 404 }
+      )
+    }
+
+    const graph = await linkAnalysisService.getLinkGraph(profile.externalId, {
+      maxDepth: parsed.data.depth,
+      maxNodes: parsed.data.maxNodes,
+      identifierTypes: parsed.data.types
+    })
+
+    return NextResponse.json(graph)
+  } catch (error) {
+    console.error('Error building counterparty link graph:', error)
+    return NextResponse.json(
+      { error: 'Failed to build link graph' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { counterpartyService } from '@/services/counterpartyService'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const profile = await counterpartyService.getProfile(params.id)
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Counterparty not found' },
+        { status: 404 }
+      )
+    }
+
+    const recentOrders = await prisma.p2POrder.findMany({
+      where: { counterpartyId: profile.externalId },
+      select: {
+        id: true,
+        binanceOrderId: true,
+        orderType: true,
+        amount: true,
+        currency: true,
+        paymentMethod: true,
+        status: true,
+        createdAt: true,
+        kycVerification: { select: { status: true, riskScore: true } },
+        riskAssessment: { select: { overallScore: true, recommendation: true } }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 20
+    })
+
+    return NextResponse.json({ ...profile, recentOrders })
+  } catch (error) {
+    console.error('Error fetching counterparty:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch counterparty' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { linkAnalysisService } from '@/services/linkAnalysisService'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const parsed = linkAnalysisService.parseClusterQuery(searchParams)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid cluster query', issues: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const clusters = await linkAnalysisService.findClusters({
+      minSize: parsed.data.minSize,
+      limit: parsed.data.limit,
+      identifierTypes: parsed.data.types
+    })
+
+    return NextResponse.json({ clusters })
+  } catch (error) {
+    console.error('Error finding counterparty clusters:', error)
+    return NextResponse.json(
+      { error: 'Failed to find counterparty clusters' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import { counterpartyService } from '@/services/counterpartyService'
+
+export async function POST() {
+  try {
+    const rebuilt = await counterpartyService.rebuildAll()
+
+    return NextResponse.json({ rebuilt })
+  } catch (error) {
+    console.error('Counterparty rebuild error:', error)
+    return NextResponse.json(
+      { error: 'Failed to rebuild counterparty profiles' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { counterpartyService, CounterpartySortField } from '@/services/counterpartyService'
+
+const SORT_FIELDS: CounterpartySortField[] = ['lastOrderAt', 'totalOrders', 'disputeCount', 'completionRate', 'displayName']
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const sortBy = searchParams.get('sortBy') as CounterpartySortField | null
+    const sortOrder = searchParams.get('sortOrder')
+
+    if (sortBy && !SORT_FIELDS.includes(sortBy)) {
+      return NextResponse.json(
+        { error: `sortBy must be one of ${SORT_FIELDS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const page = await counterpartyService.listProfiles({
+      search: searchParams.get('search') || undefined,
+      sortBy: sortBy ?? undefined,
+      sortOrder: sortOrder === 'asc' ? 'asc' : 'desc',
+      limit: parseInt(searchParams.get('limit') ?? '50', 10) || 50,
+      cursor: searchParams.get('cursor') || undefined
+    })
+
+    return NextResponse.json(page)
+  } catch (error) {
+    console.error('Error fetching counterparties:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch counterparties' },
+      { status: 500 }
+    )
+  }
+}
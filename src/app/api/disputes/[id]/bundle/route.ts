@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { disputeService, DisputeError } from '@/services/disputeService'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const bundle = await disputeService.buildEvidenceBundle(params.id)
+
+    if (searchParams.get('format') === 'html') {
+      return new NextResponse(disputeService.renderBundleSummary(bundle), {
+        headers: { 'Content-Type': 'text/html; charset=utf-8' }
+      })
+    }
+
+    return NextResponse.json(bundle, {
+      headers: {
+        'Content-Disposition': `attachment; filename="dispute-${bundle.order.binanceOrderId}.json"`
+      }
+    })
+  } catch (error) {
+    if (error instanceof DisputeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error building dispute bundle:', error)
+    return NextResponse.json(
+      { error: 'Failed to build evidence bundle' },
+      { status: 500 }
+    )
+  }
+}
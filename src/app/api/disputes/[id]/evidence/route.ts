@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { disputeService, DisputeError } from '@/services/disputeService'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { chatMessageId, documentId, description, addedById } = await request.json()
+
+    if (!addedById) {
+      return NextResponse.json(
+        { error: 'addedById is required' },
+        { status: 400 }
+      )
+    }
+
+    const evidence = await disputeService.attachEvidence(params.id, {
+      chatMessageId,
+      documentId,
+      description,
+      addedById
+    })
+
+    return NextResponse.json(evidence, { status: 201 })
+  } catch (error) {
+    if (error instanceof DisputeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error attaching dispute evidence:', error)
+    return NextResponse.json(
+      { error: 'Failed to attach evidence' },
+      { status: 500 }
+    )
+  }
+}
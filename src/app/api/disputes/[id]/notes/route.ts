@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { disputeService, DisputeError } from '@/services/disputeService'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { authorId, content } = await request.json()
+
+    if (!authorId || !content) {
+      return NextResponse.json(
+        { error: 'authorId and content are required' },
+        { status: 400 }
+      )
+    }
+
+    const note = await disputeService.addNote(params.id, authorId, content)
+
+    return NextResponse.json(note, { status: 201 })
+  } catch (error) {
+    if (error instanceof DisputeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error adding dispute note:', error)
+    return NextResponse.json(
+      { error: 'Failed to add note' },
+      { status: 500 }
+    )
+  }
+}
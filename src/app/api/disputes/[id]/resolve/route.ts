@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { disputeService, DisputeError } from '@/services/disputeService'
+import { OrderTransitionError } from '@/services/orderLifecycleService'
+
+const resolveSchema = z.object({
+  outcome: z.enum(['MERCHANT_FAVOR', 'COUNTERPARTY_FAVOR', 'MUTUAL_CANCELLATION', 'WITHDRAWN']),
+  orderStatus: z.enum(['COMPLETED', 'CANCELLED']),
+  resolutionSummary: z.string().min(1),
+  resolvedById: z.string().min(1)
+})
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const parsed = resolveSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid resolution', issues: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const disputeCase = await disputeService.resolve(params.id, parsed.data)
+
+    return NextResponse.json(disputeCase)
+  } catch (error) {
+    if (error instanceof DisputeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof OrderTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    console.error('Error resolving dispute:', error)
+    return NextResponse.json(
+      { error: 'Failed to resolve dispute' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { disputeService, DisputeError } from '@/services/disputeService'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const disputeCase = await disputeService.getCase(params.id)
+
+    return NextResponse.json(disputeCase)
+  } catch (error) {
+    if (error instanceof DisputeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error fetching dispute:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch dispute' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { assignedSupervisorId, changedBy } = await request.json()
+
+    if (!assignedSupervisorId || !changedBy) {
+      return NextResponse.json(
+        { error: 'assignedSupervisorId and changedBy are required' },
+        { status: 400 }
+      )
+    }
+
+    const disputeCase = await disputeService.assignSupervisor(params.id, assignedSupervisorId, changedBy)
+
+    return NextResponse.json(disputeCase)
+  } catch (error) {
+    if (error instanceof DisputeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error updating dispute:', error)
+    return NextResponse.json(
+      { error: 'Failed to update dispute' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DisputeStatus } from '@prisma/client'
+import { z } from 'zod'
+import { disputeService, DisputeError } from '@/services/disputeService'
+import { OrderTransitionError } from '@/services/orderLifecycleService'
+
+const DISPUTE_STATUSES: DisputeStatus[] = ['OPEN', 'UNDER_REVIEW', 'RESOLVED']
+
+const openDisputeSchema = z.object({
+  orderId: z.string().min(1),
+  openedById: z.string().min(1),
+  reasonCategory: z.enum([
+    'PAYMENT_NOT_RECEIVED',
+    'CRYPTO_NOT_RELEASED',
+    'WRONG_AMOUNT',
+    'THIRD_PARTY_PAYMENT',
+    'FRAUD_SUSPECTED',
+    'CHARGEBACK',
+    'OTHER'
+  ]),
+  description: z.string().min(1),
+  assignedSupervisorId: z.string().min(1).optional()
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+
+    if (status && !DISPUTE_STATUSES.includes(status as DisputeStatus)) {
+      return NextResponse.json(
+        { error: `status must be one of ${DISPUTE_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const cases = await disputeService.listCases({
+      status: (status as DisputeStatus) || undefined,
+      orderId: searchParams.get('orderId') || undefined,
+      supervisorId: searchParams.get('supervisorId') || undefined
+    })
+
+    return NextResponse.json(cases)
+  } catch (error) {
+    console.error('Error fetching disputes:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch disputes' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = openDisputeSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid dispute', issues: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const disputeCase = await disputeService.openCase(parsed.data)
+
+    return NextResponse.json(disputeCase, { status: 201 })
+  } catch (error) {
+    if (error instanceof DisputeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    if (error instanceof OrderTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    console.error('Error opening dispute:', error)
+    return NextResponse.json(
+      { error: 'Failed to open dispute' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { ocrService } from '@/services/ocrService'
+import { riskReassessmentService } from '@/services/riskReassessmentService'
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,9 +13,15 @@ export async function POST(request: NextRequest) {
       )
     }
     
-    const result = await ocrService.processDocument(documentId)
-    
-    return NextResponse.json(result)
+    try {
+      const result = await ocrService.processDocument(documentId)
+
+      return NextResponse.json(result)
+    } finally {
+      // The document ends up PROCESSED or FAILED either way. Scheduling
+      // catches its own errors, so it cannot replace the response.
+      await riskReassessmentService.scheduleForDocument(documentId, 'DOCUMENT_PROCESSED')
+    }
   } catch (error) {
     console.error('Document processing error:', error)
     return NextResponse.json(
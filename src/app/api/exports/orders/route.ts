@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestMetadata } from '@/lib/request'
+import { OrderExportError, orderExportService } from '@/services/orderExportService'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const parsed = orderExportService.parseRequest(searchParams)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid export query', issues: parsed.issues },
+        { status: 400 }
+      )
+    }
+
+    const { fileName, contentType, body } = await orderExportService.createExport({
+      filters: parsed.filters,
+      options: parsed.options,
+      ...getRequestMetadata(request)
+    })
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    if (error instanceof OrderExportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Order export error:', error)
+    return NextResponse.json(
+      { error: 'Failed to export orders' },
+      { status: 500 }
+    )
+  }
+}
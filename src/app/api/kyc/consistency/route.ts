@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { IdentityConsistencyError, identityConsistencyService } from '@/services/identityConsistencyService'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const parsed = identityConsistencyService.parseQuery(searchParams)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid consistency query', issues: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const report = await identityConsistencyService.check(parsed.data.orderId)
+
+    return NextResponse.json(report)
+  } catch (error) {
+    if (error instanceof IdentityConsistencyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error checking identity consistency:', error)
+    return NextResponse.json(
+      { error: 'Failed to check identity consistency' },
+      { status: 500 }
+    )
+  }
+}
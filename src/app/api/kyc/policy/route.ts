@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestMetadata } from '@/lib/request'
+import { KycPolicyError, kycService } from '@/services/kycService'
+
+export async function GET() {
+  try {
+    const policy = await kycService.getPolicy()
+
+    return NextResponse.json({ policy })
+  } catch (error) {
+    console.error('Error fetching KYC policy:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch KYC policy' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { policy, updatedBy } = await request.json()
+
+    if (!updatedBy) {
+      return NextResponse.json(
+        { error: 'updatedBy is required' },
+        { status: 400 }
+      )
+    }
+
+    const saved = await kycService.savePolicy(policy, {
+      updatedBy,
+      ...getRequestMetadata(request)
+    })
+
+    return NextResponse.json({ policy: saved })
+  } catch (error) {
+    if (error instanceof KycPolicyError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error saving KYC policy:', error)
+    return NextResponse.json(
+      { error: 'Failed to save KYC policy' },
+      { status: 500 }
+    )
+  }
+}
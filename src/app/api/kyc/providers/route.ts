@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestMetadata } from '@/lib/request'
+import { KycProviderConfigError, kycProviderService } from '@/services/kycProviderService'
+
+export async function GET() {
+  try {
+    const config = await kycProviderService.getConfig()
+
+    return NextResponse.json({ config, available: kycProviderService.available() })
+  } catch (error) {
+    console.error('Error fetching KYC providers:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch KYC providers' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { config, updatedBy } = await request.json()
+
+    if (!updatedBy) {
+      return NextResponse.json(
+        { error: 'updatedBy is required' },
+        { status: 400 }
+      )
+    }
+
+    const saved = await kycProviderService.saveConfig(config, {
+      updatedBy,
+      ...getRequestMetadata(request)
+    })
+
+    return NextResponse.json({ config: saved, available: kycProviderService.available() })
+  } catch (error) {
+    if (error instanceof KycProviderConfigError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error saving KYC providers:', error)
+    return NextResponse.json(
+      { error: 'Failed to save KYC providers' },
+      { status: 500 }
+    )
+  }
+}
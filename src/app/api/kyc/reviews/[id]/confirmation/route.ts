@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestMetadata } from '@/lib/request'
+import { KycReviewError, kycReviewService, reviewConfirmationSchema } from '@/services/kycReviewService'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const parsed = reviewConfirmationSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid confirmation', issues: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const verification = await kycReviewService.confirmDecision(params.id, parsed.data, getRequestMetadata(request))
+
+    return NextResponse.json(verification)
+  } catch (error) {
+    if (error instanceof KycReviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error confirming KYC decision:', error)
+    return NextResponse.json(
+      { error: 'Failed to confirm KYC decision' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestMetadata } from '@/lib/request'
+import { fieldCorrectionSchema, KycReviewError, kycReviewService } from '@/services/kycReviewService'
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const parsed = fieldCorrectionSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid field correction', issues: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const extraction = await kycReviewService.correctFields(params.id, parsed.data, getRequestMetadata(request))
+
+    return NextResponse.json(extraction)
+  } catch (error) {
+    if (error instanceof KycReviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error correcting KYC fields:', error)
+    return NextResponse.json(
+      { error: 'Failed to correct KYC fields' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { KycReviewError, kycReviewService } from '@/services/kycReviewService'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const review = await kycReviewService.getReview(params.id)
+
+    return NextResponse.json(review)
+  } catch (error) {
+    if (error instanceof KycReviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error fetching KYC review:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch KYC review' },
+      { status: 500 }
+    )
+  }
+}
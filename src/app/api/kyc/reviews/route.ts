@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { kycReviewService } from '@/services/kycReviewService'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const parsed = kycReviewService.parseQuery(searchParams)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid review query', issues: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const result = await kycReviewService.listReviews(parsed.data)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error fetching KYC reviews:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch KYC reviews' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { KycReviewError } from '@/services/kycReviewService'
 import { kycService } from '@/services/kycService'
 
 export async function POST(request: NextRequest) {
@@ -16,6 +17,10 @@ export async function POST(request: NextRequest) {
     
     return NextResponse.json(verification)
   } catch (error) {
+    if (error instanceof KycReviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('KYC verification error:', error)
     return NextResponse.json(
       { error: 'Failed to verify identity' },
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import { ledgerService } from '@/services/ledgerService'
+
+export async function GET() {
+  try {
+    const inventory = await ledgerService.getInventory()
+
+    return NextResponse.json({ inventory })
+  } catch (error) {
+    console.error('Error fetching inventory:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch inventory' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ledgerService } from '@/services/ledgerService'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const parsed = ledgerService.parsePnlQuery(searchParams)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid P&L query', issues: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const report = await ledgerService.getPnl(parsed.data)
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Error building P&L report:', error)
+    return NextResponse.json(
+      { error: 'Failed to build P&L report' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestMetadata } from '@/lib/request'
+import { auditService } from '@/services/auditService'
+import { ledgerService } from '@/services/ledgerService'
+
+export async function POST(request: NextRequest) {
+  try {
+    const { operatorId } = await request.json().catch(() => ({}))
+    const result = await ledgerService.rebuild()
+
+    await auditService.log({
+      action: 'LEDGER_REBUILT',
+      operatorId,
+      details: result,
+      ...getRequestMetadata(request)
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Ledger rebuild error:', error)
+    return NextResponse.json(
+      { error: 'Failed to rebuild ledger' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestMetadata } from '@/lib/request'
+import { auditService } from '@/services/auditService'
+import { ledgerService } from '@/services/ledgerService'
+
+const referenceRatesSchema = z.object({
+  referenceRates: z.record(z.string().min(1), z.number().positive()),
+  updatedBy: z.string().min(1)
+})
+
+export async function GET() {
+  try {
+    const config = await ledgerService.getConfig()
+
+    return NextResponse.json(config)
+  } catch (error) {
+    console.error('Error fetching reference rates:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch reference rates' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const parsed = referenceRatesSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid reference rates', issues: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const previous = await ledgerService.getConfig()
+    const config = await ledgerService.setReferenceRates(parsed.data.referenceRates, parsed.data.updatedBy)
+
+    await auditService.log({
+      action: 'LEDGER_REFERENCE_RATES_UPDATED',
+      operatorId: parsed.data.updatedBy,
+      details: { previous: previous.referenceRates, referenceRates: config.referenceRates },
+      ...getRequestMetadata(request)
+    })
+
+    return NextResponse.json(config)
+  } catch (error) {
+    console.error('Error updating reference rates:', error)
+    return NextResponse.json(
+      { error: 'Failed to update reference rates' },
+      { status: 500 }
+    )
+  }
+}
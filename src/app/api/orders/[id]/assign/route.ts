@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestMetadata } from '@/lib/request'
+import { assignmentRequestSchema, assignmentService, AssignmentError } from '@/services/assignmentService'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const parsed = assignmentRequestSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid assignment request', issues: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const result = await assignmentService.assignOrder(params.id, {
+      ...parsed.data,
+      ...getRequestMetadata(request)
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof AssignmentError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 422 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Order not found') {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      )
+    }
+
+    console.error('Order assignment error:', error)
+    return NextResponse.json(
+      { error: 'Failed to assign order' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { riskService } from '@/services/riskService'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const order = await prisma.p2POrder.findUnique({
+      where: { id: params.id },
+      select: { id: true }
+    })
+
+    if (!order) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      )
+    }
+
+    const history = await riskService.getAssessmentHistory(order.id)
+
+    return NextResponse.json({ orderId: order.id, assessments: history })
+  } catch (error) {
+    console.error('Error fetching risk history:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch risk history' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { getRequestMetadata } from '@/lib/request'
+import { assignmentService, AssignmentError } from '@/services/assignmentService'
+import { orderLifecycleService, OrderTransitionError, orderUpdateSchema } from '@/services/orderLifecycleService'
+import { slaService } from '@/services/slaService'
 
 export async function GET(
   request: NextRequest,
@@ -31,7 +35,9 @@ export async function GET(
       )
     }
     
-    return NextResponse.json(order)
+    const sla = slaService.computeSla(order, await slaService.getConfig())
+
+    return NextResponse.json({ ...order, sla })
   } catch (error) {
     console.error('Error fetching order:', error)
     return NextResponse.json(
@@ -46,15 +52,57 @@ export async function PATCH(
   { params }: { params: { id: string } }
 ) {
   try {
-    const data = await request.json()
-    
-    const order = await prisma.p2POrder.update({
+    const parsed = orderUpdateSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid order update', issues: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const data = parsed.data
+
+    const existing = await prisma.p2POrder.findUnique({
       where: { id: params.id },
-      data: {
-        status: data.status,
+      select: { id: true, status: true, operatorId: true }
+    })
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      )
+    }
+
+    const newStatus = data.status && data.status !== existing.status ? data.status : null
+    const reassignment = !!data.operatorId && data.operatorId !== existing.operatorId
+
+    // Reject an illegal status change before the reassignment is written
+    if (newStatus && !orderLifecycleService.canTransition(existing.status, newStatus)) {
+      throw new OrderTransitionError(params.id, existing.status, newStatus)
+    }
+
+    if (reassignment) {
+      await assignmentService.assignOrder(params.id, {
         operatorId: data.operatorId,
-        updatedAt: new Date()
-      },
+        assignedBy: data.changedBy,
+        reason: data.reason,
+        ...getRequestMetadata(request)
+      })
+    }
+
+    // Status changes must go through the lifecycle state machine
+    if (newStatus) {
+      await orderLifecycleService.transitionOrder(params.id, newStatus, {
+        operatorId: data.changedBy ?? data.operatorId,
+        reason: data.reason,
+        ...getRequestMetadata(request)
+      })
+    }
+
+    const order = await prisma.p2POrder.findUnique({
+      where: { id: params.id },
       include: {
         operator: {
           select: { id: true, name: true, email: true }
@@ -64,6 +112,25 @@ export async function PATCH(
     
     return NextResponse.json(order)
   } catch (error) {
+    if (error instanceof AssignmentError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 422 }
+      )
+    }
+
+    if (error instanceof OrderTransitionError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          currentStatus: error.fromStatus,
+          requestedStatus: error.toStatus,
+          allowedTransitions: orderLifecycleService.getAllowedTransitions(error.fromStatus)
+        },
+        { status: 409 }
+      )
+    }
+
     console.error('Error updating order:', error)
     return NextResponse.json(
       { error: 'Failed to update order' },
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestMetadata } from '@/lib/request'
+import { orderImportService } from '@/services/orderImportService'
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { error: 'Export file is required' },
+        { status: 400 }
+      )
+    }
+
+    const dryRun = formData.get('dryRun') === 'true'
+    const operatorId = formData.get('operatorId')
+
+    const report = await orderImportService.importFile(await file.arrayBuffer(), {
+      fileName: file.name,
+      dryRun,
+      operatorId: typeof operatorId === 'string' ? operatorId : null,
+      ...getRequestMetadata(request)
+    })
+
+    return NextResponse.json(report, { status: dryRun ? 200 : 201 })
+  } catch (error) {
+    console.error('Order import error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to import orders' },
+      { status: 400 }
+    )
+  }
+}
@@ -1,37 +1,48 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { normalizePaymentAccount } from '@/lib/paymentAccount'
 import { prisma } from '@/lib/prisma'
+import { assignmentService } from '@/services/assignmentService'
+import { counterpartyService } from '@/services/counterpartyService'
+import { orderQueryService } from '@/services/orderQueryService'
+import { riskReassessmentService } from '@/services/riskReassessmentService'
+import { slaService } from '@/services/slaService'
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    const status = searchParams.get('status')
-    const operatorId = searchParams.get('operatorId')
-    
-    const where: any = {}
-    if (status) where.status = status
-    if (operatorId) where.operatorId = operatorId
+    const parsed = orderQueryService.parseQuery(searchParams)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid order query', issues: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
     
-    const orders = await prisma.p2POrder.findMany({
-      where,
-      include: {
-        operator: {
-          select: { id: true, name: true, email: true }
-        },
-        chatMessages: {
-          orderBy: { timestamp: 'desc' },
-          take: 5
-        },
-        documents: {
-          select: { id: true, filename: true, status: true, fileType: true }
-        },
-        kycVerification: true,
-        riskAssessment: true
+    const page = await orderQueryService.listOrders(parsed.data, {
+      operator: {
+        select: { id: true, name: true, email: true }
+      },
+      chatMessages: {
+        orderBy: { timestamp: 'desc' },
+        take: 5
       },
-      orderBy: { createdAt: 'desc' },
-      take: 50
+      documents: {
+        select: { id: true, filename: true, status: true, fileType: true }
+      },
+      kycVerification: true,
+      riskAssessment: true
     })
     
-    return NextResponse.json(orders)
+    const slaConfig = await slaService.getConfig()
+    
+    return NextResponse.json({
+      ...page,
+      orders: page.orders.map(order => ({
+        ...order,
+        sla: slaService.computeSla(order, slaConfig)
+      }))
+    })
   } catch (error) {
     console.error('Error fetching orders:', error)
     return NextResponse.json(
@@ -53,11 +64,28 @@ export async function POST(request: NextRequest) {
         price: data.price,
         currency: data.currency,
         paymentMethod: data.paymentMethod,
+        paymentAccount: normalizePaymentAccount(data.paymentAccount),
         counterpartyId: data.counterpartyId,
         counterpartyName: data.counterpartyName,
         operatorId: data.operatorId,
         status: 'PENDING'
-      },
+      }
+    })
+
+    if (!order.operatorId) {
+      try {
+        await assignmentService.assignOrder(order.id, { reason: 'NEW_ORDER' })
+      } catch (error) {
+        // Leave the order unassigned rather than failing its creation
+        console.error('Automatic assignment failed:', error)
+      }
+    }
+
+    await counterpartyService.syncProfile(order.counterpartyId)
+    await riskReassessmentService.schedule(order.id, { type: 'ORDER_CREATED', ref: order.id })
+
+    const created = await prisma.p2POrder.findUnique({
+      where: { id: order.id },
       include: {
         operator: {
           select: { id: true, name: true, email: true }
@@ -65,7 +93,7 @@ export async function POST(request: NextRequest) {
       }
     })
     
-    return NextResponse.json(order, { status: 201 })
+    return NextResponse.json(created, { status: 201 })
   } catch (error) {
     console.error('Error creating order:', error)
     return NextResponse.json(
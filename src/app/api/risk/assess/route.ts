@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { riskService } from '@/services/riskService'
+import { RiskAssessmentError, riskService } from '@/services/riskService'
 
 export async function POST(request: NextRequest) {
   try {
-    const { orderId } = await request.json()
+    const { orderId, operatorId } = await request.json()
     
     if (!orderId) {
       return NextResponse.json(
@@ -12,10 +12,14 @@ export async function POST(request: NextRequest) {
       )
     }
     
-    const assessment = await riskService.assessOrder(orderId)
+    const assessment = await riskService.assessOrder(orderId, { type: 'MANUAL', operatorId })
     
     return NextResponse.json(assessment)
   } catch (error) {
+    if (error instanceof RiskAssessmentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Risk assessment error:', error)
     return NextResponse.json(
       { error: 'Failed to assess risk' },
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { riskBacktestService } from '@/services/riskBacktestService'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const backtest = await riskBacktestService.getBacktest(params.id)
+
+    if (!backtest) {
+      return NextResponse.json(
+        { error: 'Backtest not found' },
+        { status: 404 }
+      )
+    }
+
+    if (searchParams.get('format') === 'markdown') {
+      return new NextResponse(riskBacktestService.renderMarkdown(backtest), {
+        headers: {
+          'Content-Type': 'text/markdown; charset=utf-8',
+          'Content-Disposition': `attachment; filename="risk-backtest-${backtest.id}.md"`
+        }
+      })
+    }
+
+    return NextResponse.json(backtest)
+  } catch (error) {
+    console.error('Error fetching backtest:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch backtest' },
+      { status: 500 }
+    )
+  }
+}
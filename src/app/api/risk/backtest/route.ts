@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  BacktestError,
+  backtestRequestSchema,
+  riskBacktestService
+} from '@/services/riskBacktestService'
+import { RiskPolicyValidationError } from '@/services/riskPolicyService'
+
+export async function GET() {
+  try {
+    const backtests = await riskBacktestService.listBacktests()
+
+    return NextResponse.json({ backtests })
+  } catch (error) {
+    console.error('Error fetching backtests:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch backtests' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = backtestRequestSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid backtest request', issues: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const backtest = await riskBacktestService.run(parsed.data)
+
+    return NextResponse.json(backtest, { status: 201 })
+  } catch (error) {
+    if (error instanceof RiskPolicyValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+    if (error instanceof BacktestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Risk backtest error:', error)
+    return NextResponse.json(
+      { error: 'Failed to run backtest' },
+      { status: 500 }
+    )
+  }
+}
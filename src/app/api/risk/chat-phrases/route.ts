@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestMetadata } from '@/lib/request'
+import { chatAnalysisService, ChatPhraseLibraryValidationError } from '@/services/chatAnalysisService'
+
+export async function GET() {
+  try {
+    const library = await chatAnalysisService.getLibrary()
+
+    return NextResponse.json(library)
+  } catch (error) {
+    console.error('Error fetching chat phrase library:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch chat phrase library' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { library, updatedBy } = await request.json()
+
+    if (!updatedBy) {
+      return NextResponse.json(
+        { error: 'updatedBy is required' },
+        { status: 400 }
+      )
+    }
+
+    const saved = await chatAnalysisService.saveLibrary(library, {
+      updatedBy,
+      ...getRequestMetadata(request)
+    })
+
+    return NextResponse.json(saved)
+  } catch (error) {
+    if (error instanceof ChatPhraseLibraryValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error saving chat phrase library:', error)
+    return NextResponse.json(
+      { error: 'Failed to save chat phrase library' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { chatAnalysisService, chatPhraseLibrarySchema } from '@/services/chatAnalysisService'
+
+/**
+ * Run sample messages through the active library, or a draft one, without saving
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { messages, library } = await request.json()
+
+    if (!Array.isArray(messages) || messages.length === 0 || !messages.every(m => typeof m === 'string')) {
+      return NextResponse.json(
+        { error: 'messages must be a non-empty array of strings' },
+        { status: 400 }
+      )
+    }
+
+    let effective = await chatAnalysisService.getLibrary()
+    if (library !== undefined) {
+      const parsed = chatPhraseLibrarySchema.safeParse(library)
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: 'Chat phrase library is invalid', issues: parsed.error.issues },
+          { status: 400 }
+        )
+      }
+      effective = parsed.data
+    }
+
+    const findings = chatAnalysisService.analyze(
+      messages.map((content: string, index: number) => ({ id: String(index), content, isFromUser: true })),
+      effective
+    )
+
+    return NextResponse.json({ findings })
+  } catch (error) {
+    console.error('Error testing chat phrases:', error)
+    return NextResponse.json(
+      { error: 'Failed to test chat phrases' },
+      { status: 500 }
+    )
+  }
+}
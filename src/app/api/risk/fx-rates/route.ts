@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestMetadata } from '@/lib/request'
+import { FxRateError, fxRateService, fxRateUpdateSchema } from '@/services/fxRateService'
+
+/**
+ * Current rate per currency, or one currency's history with ?currency=
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const currency = request.nextUrl.searchParams.get('currency')
+
+    if (currency) {
+      const rates = await fxRateService.listRates(currency)
+      return NextResponse.json({ currency: currency.toUpperCase(), rates })
+    }
+
+    const current = await fxRateService.getCurrentRates()
+
+    return NextResponse.json(current)
+  } catch (error) {
+    console.error('Error fetching FX rates:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch FX rates' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const parsed = fxRateUpdateSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid FX rate update', issues: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const updated = await fxRateService.setRates(parsed.data, getRequestMetadata(request))
+    const current = await fxRateService.getCurrentRates()
+
+    return NextResponse.json({ updated, ...current })
+  } catch (error) {
+    if (error instanceof FxRateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error updating FX rates:', error)
+    return NextResponse.json(
+      { error: 'Failed to update FX rates' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestMetadata } from '@/lib/request'
+import { FxRateError, fxRateService } from '@/services/fxRateService'
+
+/**
+ * Load the rates in data/fx-rates.json
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { updatedBy } = await request.json()
+
+    if (!updatedBy) {
+      return NextResponse.json(
+        { error: 'updatedBy is required' },
+        { status: 400 }
+      )
+    }
+
+    const seeded = await fxRateService.seedFromFile({ updatedBy, ...getRequestMetadata(request) })
+    const current = await fxRateService.getCurrentRates()
+
+    return NextResponse.json({ seeded, ...current })
+  } catch (error) {
+    if (error instanceof FxRateError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error seeding FX rates:', error)
+    return NextResponse.json(
+      { error: 'Failed to seed FX rates' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestMetadata } from '@/lib/request'
+import { riskPolicyService, RiskPolicyValidationError } from '@/services/riskPolicyService'
+
+export async function GET() {
+  try {
+    const active = await riskPolicyService.getActivePolicy()
+
+    return NextResponse.json(active)
+  } catch (error) {
+    console.error('Error fetching risk policy:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch risk policy' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { policy, updatedBy, comment } = await request.json()
+
+    if (!updatedBy) {
+      return NextResponse.json(
+        { error: 'updatedBy is required' },
+        { status: 400 }
+      )
+    }
+
+    const saved = await riskPolicyService.savePolicy(policy, {
+      updatedBy,
+      comment,
+      ...getRequestMetadata(request)
+    })
+
+    return NextResponse.json(saved)
+  } catch (error) {
+    if (error instanceof RiskPolicyValidationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error saving risk policy:', error)
+    return NextResponse.json(
+      { error: 'Failed to save risk policy' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { riskRulesEngine } from '@/services/riskRulesEngine'
+
+export async function POST(request: NextRequest) {
+  try {
+    const { policy } = await request.json()
+    const parsed = riskRulesEngine.validate(policy)
+
+    return NextResponse.json(
+      parsed.success ? { valid: true } : { valid: false, issues: parsed.error.issues }
+    )
+  } catch (error) {
+    console.error('Error validating risk policy:', error)
+    return NextResponse.json(
+      { error: 'Failed to validate risk policy' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { riskPolicyService } from '@/services/riskPolicyService'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { version: string } }
+) {
+  try {
+    const version = parseInt(params.version, 10)
+
+    if (isNaN(version)) {
+      return NextResponse.json(
+        { error: 'Version must be a number' },
+        { status: 400 }
+      )
+    }
+
+    const policyVersion = await riskPolicyService.getVersion(version)
+
+    if (!policyVersion) {
+      return NextResponse.json(
+        { error: 'Risk policy version not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(policyVersion)
+  } catch (error) {
+    console.error('Error fetching risk policy version:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch risk policy version' },
+      { status: 500 }
+    )
+  }
+}
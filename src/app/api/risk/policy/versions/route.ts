@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import { riskPolicyService } from '@/services/riskPolicyService'
+
+export async function GET() {
+  try {
+    const versions = await riskPolicyService.listVersions()
+
+    return NextResponse.json({ versions })
+  } catch (error) {
+    console.error('Error fetching risk policy versions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch risk policy versions' },
+      { status: 500 }
+    )
+  }
+}
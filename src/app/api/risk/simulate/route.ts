@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { riskRulesEngine } from '@/services/riskRulesEngine'
+import { RiskAssessmentError, riskScenarioSchema, riskService } from '@/services/riskService'
+
+export async function POST(request: NextRequest) {
+  try {
+    const { orderId, changes, policy } = await request.json()
+
+    if (!orderId) {
+      return NextResponse.json(
+        { error: 'Order ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const scenario = riskScenarioSchema.safeParse(changes ?? {})
+    if (!scenario.success) {
+      return NextResponse.json(
+        { error: 'Invalid simulation changes', issues: scenario.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    // Optionally preview an unsaved policy draft against the order
+    let draftPolicy
+    if (policy !== undefined) {
+      const parsed = riskRulesEngine.validate(policy)
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: 'Risk policy is invalid', issues: parsed.error.issues },
+          { status: 400 }
+        )
+      }
+      draftPolicy = parsed.data
+    }
+
+    const simulation = await riskService.simulate(orderId, scenario.data, draftPolicy)
+
+    return NextResponse.json(simulation)
+  } catch (error) {
+    if (error instanceof RiskAssessmentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Risk simulation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to simulate risk' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestMetadata } from '@/lib/request'
+import {
+  sanctionsImportSchema,
+  SanctionsScreeningError,
+  sanctionsScreeningService
+} from '@/services/sanctionsScreeningService'
+
+export async function GET() {
+  try {
+    const imports = await sanctionsScreeningService.listImports()
+
+    return NextResponse.json({ imports })
+  } catch (error) {
+    console.error('Error fetching sanctions imports:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch sanctions imports' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = sanctionsImportSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid sanctions import', issues: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const listImport = await sanctionsScreeningService.importList(parsed.data, getRequestMetadata(request))
+
+    return NextResponse.json(listImport, { status: 201 })
+  } catch (error) {
+    if (error instanceof SanctionsScreeningError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error importing sanctions list:', error)
+    return NextResponse.json(
+      { error: 'Failed to import sanctions list' },
+      { status: 500 }
+    )
+  }
+}
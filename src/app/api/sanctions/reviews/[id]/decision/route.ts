@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestMetadata } from '@/lib/request'
+import {
+  reviewDecisionSchema,
+  SanctionsScreeningError,
+  sanctionsScreeningService
+} from '@/services/sanctionsScreeningService'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const parsed = reviewDecisionSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid review decision', issues: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const review = await sanctionsScreeningService.decide(params.id, parsed.data, getRequestMetadata(request))
+
+    return NextResponse.json(review)
+  } catch (error) {
+    if (error instanceof SanctionsScreeningError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error deciding screening review:', error)
+    return NextResponse.json(
+      { error: 'Failed to record screening decision' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sanctionsScreeningService } from '@/services/sanctionsScreeningService'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const parsed = sanctionsScreeningService.parseReviewQuery(searchParams)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid review query', issues: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const result = await sanctionsScreeningService.listReviews(parsed.data)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error fetching screening reviews:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch screening reviews' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { screeningRequestSchema, sanctionsScreeningService } from '@/services/sanctionsScreeningService'
+
+/**
+ * Screen a name against the imported lists without opening a review
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = screeningRequestSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid screening request', issues: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const result = await sanctionsScreeningService.screen(parsed.data)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Sanctions screening error:', error)
+    return NextResponse.json(
+      { error: 'Failed to screen name' },
+      { status: 500 }
+    )
+  }
+}
@@ -10,6 +10,18 @@ interface DashboardStats {
   riskAlerts: number
 }
 
+interface RiskAlert {
+  id: string
+  type: string
+  severity: string
+  message: string
+  createdAt: string
+  order?: {
+    id: string
+    binanceOrderId: string
+  }
+}
+
 interface Order {
   id: string
   binanceOrderId: string
@@ -21,6 +33,8 @@ interface Order {
   createdAt: string
 }
 
+const PAGE_SIZE = 10
+
 export default function Dashboard() {
   const [stats, setStats] = useState<DashboardStats>({
     activeOrders: 0,
@@ -29,6 +43,10 @@ export default function Dashboard() {
     riskAlerts: 0
   })
   const [orders, setOrders] = useState<Order[]>([])
+  const [alerts, setAlerts] = useState<RiskAlert[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [totalOrders, setTotalOrders] = useState(0)
+  const [loadingMore, setLoadingMore] = useState(false)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
@@ -39,8 +57,15 @@ export default function Dashboard() {
     try {
       // Fetch orders
       const ordersResponse = await fetch('/api/orders')
-      const ordersData = await ordersResponse.json()
-      setOrders(ordersData.slice(0, 10)) // Show latest 10 orders
+      const ordersPage = await ordersResponse.json()
+      const ordersData: Order[] = ordersPage.orders
+
+      // First page of the orders table
+      const tableResponse = await fetch(`/api/orders?limit=${PAGE_SIZE}`)
+      const tablePage = await tableResponse.json()
+      setOrders(tablePage.orders)
+      setNextCursor(tablePage.pageInfo.nextCursor)
+      setTotalOrders(tablePage.totalCount)
 
       // Calculate stats from orders
       const activeOrders = ordersData.filter((o: Order) => 
@@ -57,11 +82,16 @@ export default function Dashboard() {
         new Date(o.createdAt).toDateString() === today
       ).length
 
+      // Fetch open risk alerts
+      const alertsResponse = await fetch('/api/alerts?status=OPEN&limit=5')
+      const alertsData = await alertsResponse.json()
+      setAlerts(alertsData.alerts)
+
       setStats({
         activeOrders,
         pendingReviews,
         completedToday,
-        riskAlerts: Math.floor(Math.random() * 5) // Mock data
+        riskAlerts: alertsData.totalCount
       })
     } catch (error) {
       console.error('Error fetching dashboard data:', error)
@@ -70,6 +100,23 @@ export default function Dashboard() {
     }
   }
 
+  const loadMoreOrders = async () => {
+    if (!nextCursor) return
+
+    setLoadingMore(true)
+    try {
+      const response = await fetch(`/api/orders?limit=${PAGE_SIZE}&cursor=${nextCursor}`)
+      const page = await response.json()
+      setOrders(current => [...current, ...page.orders])
+      setNextCursor(page.pageInfo.nextCursor)
+      setTotalOrders(page.totalCount)
+    } catch (error) {
+      console.error('Error loading more orders:', error)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'COMPLETED': return 'text-green-600'
@@ -81,6 +128,15 @@ export default function Dashboard() {
     }
   }
 
+  const getSeverityColor = (severity: string) => {
+    switch (severity) {
+      case 'CRITICAL': return 'bg-red-100 text-red-800'
+      case 'HIGH': return 'bg-orange-100 text-orange-800'
+      case 'MEDIUM': return 'bg-yellow-100 text-yellow-800'
+      default: return 'bg-gray-100 text-gray-800'
+    }
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -189,10 +245,37 @@ export default function Dashboard() {
           </div>
         </div>
 
+        {/* Risk Alerts */}
+        {alerts.length > 0 && (
+          <div className="bg-white shadow rounded-lg mb-8">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-medium text-gray-900">Risk Alerts</h2>
+            </div>
+            <ul className="divide-y divide-gray-200">
+              {alerts.map((alert) => (
+                <li key={alert.id} className="px-6 py-4 flex justify-between items-center">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{alert.message}</p>
+                    <p className="text-xs text-gray-500">
+                      {alert.type} · {new Date(alert.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getSeverityColor(alert.severity)}`}>
+                    {alert.severity}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Recent Orders */}
         <div className="bg-white shadow rounded-lg">
           <div className="px-6 py-4 border-b border-gray-200">
             <h2 className="text-lg font-medium text-gray-900">Recent Orders</h2>
+            <p className="text-sm text-gray-500">
+              Showing {orders.length} of {totalOrders}
+            </p>
           </div>
           <div className="overflow-x-auto">
             <table className="min-w-full divide-y divide-gray-200">
@@ -258,6 +341,13 @@ export default function Dashboard() {
               </tbody>
             </table>
           </div>
+          {nextCursor && (
+            <div className="px-6 py-4 border-t border-gray-200 text-center">
+              <Button variant="outline" onClick={loadMoreOrders} disabled={loadingMore}>
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </Button>
+            </div>
+          )}
         </div>
 
         {/* Features Overview */}
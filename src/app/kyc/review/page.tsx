@@ -0,0 +1,399 @@
+'use client'
+
+import { useCallback, useState, useEffect } from 'react'
+import { Button } from '@/components/ui/Button'
+
+type QueueState = 'OPEN' | 'AWAITING_CONFIRMATION'
+
+interface ReviewSummary {
+  id: string
+  orderId: string
+  riskScore: number | null
+  proposedStatus: string | null
+  proposedBy: string | null
+  updatedAt: string
+  order: {
+    binanceOrderId: string
+    counterpartyName: string
+  }
+}
+
+interface VerifiedField {
+  value: string
+  original: string | null
+  correctedBy: string
+  correctedAt: string
+  reason: string | null
+}
+
+interface ReviewDocument {
+  id: string
+  filename: string
+  fileType: string
+  status: string
+  ocrConfidence: number | null
+  kycData: {
+    extractedData: Record<string, unknown>
+    verifiedFields: Record<string, VerifiedField> | null
+  } | null
+}
+
+interface ComparedValue {
+  label: string
+  value: string
+}
+
+interface ReviewDetail {
+  id: string
+  orderId: string
+  status: string
+  riskScore: number | null
+  notes: string | null
+  proposedStatus: string | null
+  proposedBy: string | null
+  proposedAt: string | null
+  verificationData: {
+    extractedData?: Record<string, unknown>
+    riskFactors?: string[]
+    recommendations?: string[]
+    checks?: Record<string, boolean | null>
+    consistency?: {
+      mismatches: Array<{ field: string; left: ComparedValue; right: ComparedValue; similarity?: number }>
+    }
+  }
+  order: {
+    binanceOrderId: string
+    counterpartyName: string
+    documents: ReviewDocument[]
+  }
+}
+
+const CORRECTABLE_FIELDS = [
+  { key: 'fullName', label: 'Full name' },
+  { key: 'dateOfBirth', label: 'Date of birth' },
+  { key: 'documentNumber', label: 'Document number' },
+  { key: 'nationality', label: 'Nationality' },
+  { key: 'address', label: 'Address' },
+  { key: 'issueDate', label: 'Issue date' },
+  { key: 'expiryDate', label: 'Expiry date' }
+]
+
+function display(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—'
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+export default function KycReviewPage() {
+  const [operatorId, setOperatorId] = useState('')
+  const [queue, setQueue] = useState<QueueState>('OPEN')
+  const [reviews, setReviews] = useState<ReviewSummary[]>([])
+  const [totalCount, setTotalCount] = useState(0)
+  const [selected, setSelected] = useState<ReviewDetail | null>(null)
+  const [corrections, setCorrections] = useState<Record<string, Record<string, string>>>({})
+  const [reason, setReason] = useState('')
+  const [notes, setNotes] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/kyc/reviews?state=${queue}`)
+      const data = await response.json()
+      setReviews(data.reviews)
+      setTotalCount(data.totalCount)
+    } catch (error) {
+      console.error('Error fetching KYC reviews:', error)
+    }
+  }, [queue])
+
+  useEffect(() => {
+    fetchQueue()
+  }, [fetchQueue])
+
+  const openReview = async (orderId: string) => {
+    setError(null)
+    setCorrections({})
+    setNotes('')
+    try {
+      const response = await fetch(`/api/kyc/reviews/${orderId}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+      setSelected(data)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load review')
+    }
+  }
+
+  // Sends a review action and reloads the review and queue on success
+  const submit = async (path: string, method: 'PUT' | 'POST', body: Record<string, unknown>) => {
+    if (!selected) return
+    if (!operatorId) {
+      setError('Enter your operator ID first')
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/kyc/reviews/${selected.orderId}/${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error)
+
+      await openReview(selected.orderId)
+      await fetchQueue()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Request failed')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const saveCorrections = (documentId: string) => {
+    const fields = Object.fromEntries(
+      Object.entries(corrections[documentId] ?? {}).filter(([, value]) => value.trim() !== '')
+    )
+    if (Object.keys(fields).length === 0) {
+      setError('Enter at least one corrected value')
+      return
+    }
+    submit('fields', 'PUT', { documentId, operatorId, fields, reason: reason || undefined })
+  }
+
+  const setCorrection = (documentId: string, field: string, value: string) => {
+    setCorrections(current => ({ ...current, [documentId]: { ...current[documentId], [field]: value } }))
+  }
+
+  const awaitingConfirmation = !!selected?.proposedStatus
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-6">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">KYC Review</h1>
+              <p className="text-gray-600">
+                Correct extracted fields and decide cases; a supervisor confirms every decision
+              </p>
+            </div>
+            <input
+              value={operatorId}
+              onChange={event => setOperatorId(event.target.value)}
+              placeholder="Your operator ID"
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Queue */}
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <div className="flex gap-2">
+              <Button size="sm" variant={queue === 'OPEN' ? 'default' : 'outline'} onClick={() => setQueue('OPEN')}>
+                Open
+              </Button>
+              <Button
+                size="sm"
+                variant={queue === 'AWAITING_CONFIRMATION' ? 'default' : 'outline'}
+                onClick={() => setQueue('AWAITING_CONFIRMATION')}
+              >
+                Awaiting confirmation
+              </Button>
+            </div>
+            <p className="mt-2 text-sm text-gray-500">{totalCount} cases</p>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {reviews.length === 0 ? (
+              <li className="px-6 py-4 text-sm text-gray-500">Nothing to review.</li>
+            ) : (
+              reviews.map(review => (
+                <li
+                  key={review.id}
+                  onClick={() => openReview(review.orderId)}
+                  className={`px-6 py-4 cursor-pointer hover:bg-gray-50 ${selected?.id === review.id ? 'bg-blue-50' : ''}`}
+                >
+                  <p className="text-sm font-medium text-gray-900">{review.order.binanceOrderId}</p>
+                  <p className="text-xs text-gray-500">
+                    {review.order.counterpartyName} · score {review.riskScore?.toFixed(2) ?? '—'}
+                    {review.proposedStatus && ` · ${review.proposedStatus} proposed by ${review.proposedBy}`}
+                  </p>
+                </li>
+              ))
+            )}
+          </ul>
+        </div>
+
+        {/* Selected case */}
+        <div className="lg:col-span-2 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-800 text-sm rounded-lg px-4 py-3">{error}</div>
+          )}
+
+          {!selected ? (
+            <div className="bg-white shadow rounded-lg px-6 py-8 text-center text-gray-500">
+              Select a case from the queue.
+            </div>
+          ) : (
+            <>
+              <div className="bg-white shadow rounded-lg px-6 py-4">
+                <h2 className="text-lg font-medium text-gray-900">
+                  Order {selected.order.binanceOrderId} · {selected.order.counterpartyName}
+                </h2>
+                <p className="text-sm text-gray-500">
+                  {selected.status} · score {selected.riskScore?.toFixed(2) ?? '—'}
+                </p>
+                {(selected.verificationData.riskFactors ?? []).length > 0 && (
+                  <ul className="mt-3 list-disc list-inside text-sm text-red-700">
+                    {selected.verificationData.riskFactors!.map(factor => <li key={factor}>{factor}</li>)}
+                  </ul>
+                )}
+              </div>
+
+              {/* Cross-document mismatches, side by side */}
+              {(selected.verificationData.consistency?.mismatches ?? []).length > 0 && (
+                <div className="bg-white shadow rounded-lg">
+                  <div className="px-6 py-4 border-b border-gray-200">
+                    <h3 className="text-md font-medium text-gray-900">Identity mismatches</h3>
+                  </div>
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <tbody className="divide-y divide-gray-200">
+                      {selected.verificationData.consistency!.mismatches.map((mismatch, index) => (
+                        <tr key={index}>
+                          <td className="px-6 py-3 text-gray-500">{mismatch.field}</td>
+                          <td className="px-6 py-3">
+                            <p className="text-xs text-gray-500">{mismatch.left.label}</p>
+                            <p className="text-gray-900">{mismatch.left.value}</p>
+                          </td>
+                          <td className="px-6 py-3">
+                            <p className="text-xs text-gray-500">{mismatch.right.label}</p>
+                            <p className="text-gray-900">{mismatch.right.value}</p>
+                          </td>
+                          <td className="px-6 py-3 text-gray-500">
+                            {mismatch.similarity !== undefined && `${Math.round(mismatch.similarity * 100)}%`}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {/* Documents and field corrections */}
+              {selected.order.documents.map(document => (
+                <div key={document.id} className="bg-white shadow rounded-lg">
+                  <div className="px-6 py-4 border-b border-gray-200">
+                    <h3 className="text-md font-medium text-gray-900">{document.fileType}</h3>
+                    <p className="text-xs text-gray-500">
+                      {document.filename} · {document.status} · OCR {document.ocrConfidence?.toFixed(2) ?? '—'}
+                    </p>
+                  </div>
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase">Field</th>
+                        <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase">Extracted</th>
+                        <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase">Corrected</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {CORRECTABLE_FIELDS.map(({ key, label }) => {
+                        const verified = document.kycData?.verifiedFields?.[key]
+                        return (
+                          <tr key={key}>
+                            <td className="px-6 py-2 text-gray-500">{label}</td>
+                            <td className="px-6 py-2 text-gray-900">
+                              {display(verified ? verified.original : document.kycData?.extractedData?.[key])}
+                            </td>
+                            <td className="px-6 py-2">
+                              <input
+                                value={corrections[document.id]?.[key] ?? ''}
+                                onChange={event => setCorrection(document.id, key, event.target.value)}
+                                placeholder={verified ? `${verified.value} (by ${verified.correctedBy})` : ''}
+                                disabled={awaitingConfirmation}
+                                className="w-full border border-gray-300 rounded-md px-2 py-1"
+                              />
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                  <div className="px-6 py-3 flex gap-2 justify-end">
+                    <input
+                      value={reason}
+                      onChange={event => setReason(event.target.value)}
+                      placeholder="Reason for correction"
+                      disabled={awaitingConfirmation}
+                      className="flex-1 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    />
+                    <Button size="sm" disabled={saving || awaitingConfirmation} onClick={() => saveCorrections(document.id)}>
+                      Save corrections
+                    </Button>
+                  </div>
+                </div>
+              ))}
+
+              {/* Decision: proposed by an operator, confirmed by a different supervisor */}
+              <div className="bg-white shadow rounded-lg px-6 py-4 space-y-3">
+                <h3 className="text-md font-medium text-gray-900">Decision</h3>
+                {awaitingConfirmation && (
+                  <p className="text-sm text-gray-700">
+                    {selected.proposedStatus} proposed by {selected.proposedBy}
+                    {selected.proposedAt && ` on ${new Date(selected.proposedAt).toLocaleString()}`}
+                    {selected.notes && ` — ${selected.notes}`}
+                  </p>
+                )}
+                <textarea
+                  value={notes}
+                  onChange={event => setNotes(event.target.value)}
+                  placeholder="Notes"
+                  className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                />
+                {awaitingConfirmation ? (
+                  <div className="flex gap-2">
+                    <Button
+                      disabled={saving}
+                      onClick={() => submit('confirmation', 'POST', { supervisorId: operatorId, confirm: true, notes: notes || undefined })}
+                    >
+                      Confirm {selected.proposedStatus}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      disabled={saving}
+                      onClick={() => submit('confirmation', 'POST', { supervisorId: operatorId, confirm: false, notes: notes || undefined })}
+                    >
+                      Send back
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Button
+                      disabled={saving}
+                      onClick={() => submit('decision', 'POST', { decision: 'APPROVED', operatorId, notes: notes || undefined })}
+                    >
+                      Propose approval
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      disabled={saving}
+                      onClick={() => submit('decision', 'POST', { decision: 'REJECTED', operatorId, notes: notes || undefined })}
+                    >
+                      Propose rejection
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+/**
+ * Scheduled Jobs
+ *
+ * Background work driven by node-cron. Started once per server process
+ * from the Next.js instrumentation hook.
+ */
+
+import cron from 'node-cron'
+import { assignmentService } from '@/services/assignmentService'
+import { riskReassessmentService } from '@/services/riskReassessmentService'
+import { slaService } from '@/services/slaService'
+
+let started = false
+
+function runJob(name: string, job: () => Promise<unknown>): () => Promise<void> {
+  let running = false
+
+  return async () => {
+    // Skip a tick rather than overlap a slow previous run
+    if (running) return
+    running = true
+    try {
+      await job()
+    } catch (error) {
+      console.error(`Scheduled job ${name} failed:`, error)
+    } finally {
+      running = false
+    }
+  }
+}
+
+export function startScheduledJobs(): void {
+  if (started || process.env.DISABLE_SCHEDULED_JOBS === 'true') return
+  started = true
+
+  // Hand back orders held by inactive operators every 5 minutes
+  cron.schedule('*/5 * * * *', runJob('order-rebalance', () => assignmentService.rebalance()))
+
+  // Escalate orders approaching or past their payment/release windows
+  cron.schedule('* * * * *', runJob('order-sla-check', () => slaService.checkOrders()))
+
+  // Re-score orders whose reassessment debounce window has passed
+  cron.schedule('*/10 * * * * *', runJob('risk-reassessment', () => riskReassessmentService.processDue()))
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { countryCode, sameCountry } from './countries'
+
+describe('countryCode', () => {
+  it('resolves codes, names and demonyms to alpha-3', () => {
+    expect(countryCode('IND')).toBe('IND')
+    expect(countryCode('in')).toBe('IND')
+    expect(countryCode('India')).toBe('IND')
+    expect(countryCode('INDIAN')).toBe('IND')
+    expect(countryCode('Iran (Islamic Republic of)')).toBe('IRN')
+    expect(countryCode('D')).toBe('DEU')
+  })
+
+  it('returns null for unknown values', () => {
+    expect(countryCode('Atlantis')).toBeNull()
+  })
+})
+
+describe('sameCountry', () => {
+  it('compares an MRZ code with a list country name', () => {
+    expect(sameCountry('IND', 'India')).toBe(true)
+    expect(sameCountry('IND', 'Pakistan')).toBe(false)
+  })
+
+  it('cannot tell when a value is unknown and spelled differently', () => {
+    expect(sameCountry('IND', 'Atlantis')).toBeNull()
+    expect(sameCountry('Atlantis', 'atlantis')).toBe(true)
+  })
+})
@@ -0,0 +1,97 @@
+/**
+ * Country names, demonyms and ISO 3166 codes resolved to alpha-3, for
+ * comparing nationalities written in different forms: "IND" in an MRZ,
+ * "India" on the OFAC list, "IN" on the EU list and "Indian" on an ID card.
+ * Covers the countries the sanctions lists and our markets name most; values
+ * outside it resolve to null rather than being guessed.
+ */
+
+// alpha-3, alpha-2, then names and demonyms
+const COUNTRIES: string[][] = [
+  ['AFG', 'AF', 'AFGHANISTAN', 'AFGHAN'],
+  ['ARE', 'AE', 'UNITED ARAB EMIRATES', 'UAE', 'EMIRATI'],
+  ['BGD', 'BD', 'BANGLADESH', 'BANGLADESHI'],
+  ['BLR', 'BY', 'BELARUS', 'BELARUSIAN'],
+  ['BTN', 'BT', 'BHUTAN', 'BHUTANESE'],
+  ['CAN', 'CA', 'CANADA', 'CANADIAN'],
+  ['CHN', 'CN', 'CHINA', 'PEOPLES REPUBLIC OF CHINA', 'CHINESE'],
+  ['COD', 'CD', 'DEMOCRATIC REPUBLIC OF THE CONGO', 'CONGO DEMOCRATIC REPUBLIC OF THE', 'CONGOLESE'],
+  ['CUB', 'CU', 'CUBA', 'CUBAN'],
+  ['DEU', 'DE', 'D', 'GERMANY', 'GERMAN'],
+  ['EGY', 'EG', 'EGYPT', 'EGYPTIAN'],
+  ['ERI', 'ER', 'ERITREA', 'ERITREAN'],
+  ['ESP', 'ES', 'SPAIN', 'SPANISH'],
+  ['ETH', 'ET', 'ETHIOPIA', 'ETHIOPIAN'],
+  ['FRA', 'FR', 'FRANCE', 'FRENCH'],
+  ['GBR', 'GB', 'UNITED KINGDOM', 'UK', 'GREAT BRITAIN', 'BRITISH'],
+  ['HKG', 'HK', 'HONG KONG'],
+  ['IDN', 'ID', 'INDONESIA', 'INDONESIAN'],
+  ['IND', 'IN', 'INDIA', 'INDIAN', 'BHARAT'],
+  ['IRN', 'IR', 'IRAN', 'IRAN ISLAMIC REPUBLIC OF', 'IRANIAN'],
+  ['IRQ', 'IQ', 'IRAQ', 'IRAQI'],
+  ['ITA', 'IT', 'ITALY', 'ITALIAN'],
+  ['JOR', 'JO', 'JORDAN', 'JORDANIAN'],
+  ['KAZ', 'KZ', 'KAZAKHSTAN', 'KAZAKH'],
+  ['KEN', 'KE', 'KENYA', 'KENYAN'],
+  ['KWT', 'KW', 'KUWAIT', 'KUWAITI'],
+  ['LBN', 'LB', 'LEBANON', 'LEBANESE'],
+  ['LBY', 'LY', 'LIBYA', 'LIBYAN'],
+  ['LKA', 'LK', 'SRI LANKA', 'SRI LANKAN'],
+  ['MLI', 'ML', 'MALI', 'MALIAN'],
+  ['MMR', 'MM', 'MYANMAR', 'BURMA', 'BURMESE'],
+  ['MYS', 'MY', 'MALAYSIA', 'MALAYSIAN'],
+  ['NGA', 'NG', 'NIGERIA', 'NIGERIAN'],
+  ['NIC', 'NI', 'NICARAGUA', 'NICARAGUAN'],
+  ['NPL', 'NP', 'NEPAL', 'NEPALI', 'NEPALESE'],
+  ['OMN', 'OM', 'OMAN', 'OMANI'],
+  ['PAK', 'PK', 'PAKISTAN', 'PAKISTANI'],
+  ['PHL', 'PH', 'PHILIPPINES', 'FILIPINO'],
+  ['PRK', 'KP', 'NORTH KOREA', 'KOREA DEMOCRATIC PEOPLES REPUBLIC OF', 'DPRK', 'NORTH KOREAN'],
+  ['PSE', 'PS', 'PALESTINE', 'PALESTINIAN'],
+  ['QAT', 'QA', 'QATAR', 'QATARI'],
+  ['RUS', 'RU', 'RUSSIA', 'RUSSIAN FEDERATION', 'RUSSIAN'],
+  ['SAU', 'SA', 'SAUDI ARABIA', 'SAUDI'],
+  ['SDN', 'SD', 'SUDAN', 'SUDANESE'],
+  ['SGP', 'SG', 'SINGAPORE', 'SINGAPOREAN'],
+  ['SOM', 'SO', 'SOMALIA', 'SOMALI'],
+  ['SSD', 'SS', 'SOUTH SUDAN', 'SOUTH SUDANESE'],
+  ['SYR', 'SY', 'SYRIA', 'SYRIAN ARAB REPUBLIC', 'SYRIAN'],
+  ['THA', 'TH', 'THAILAND', 'THAI'],
+  ['TUR', 'TR', 'TURKEY', 'TURKIYE', 'TURKISH'],
+  ['UKR', 'UA', 'UKRAINE', 'UKRAINIAN'],
+  ['USA', 'US', 'UNITED STATES', 'UNITED STATES OF AMERICA', 'AMERICAN'],
+  ['VEN', 'VE', 'VENEZUELA', 'VENEZUELAN'],
+  ['VNM', 'VN', 'VIETNAM', 'VIET NAM', 'VIETNAMESE'],
+  ['YEM', 'YE', 'YEMEN', 'YEMENI'],
+  ['ZWE', 'ZW', 'ZIMBABWE', 'ZIMBABWEAN']
+]
+
+const BY_NAME = new Map(COUNTRIES.flatMap(([alpha3, ...rest]) => [alpha3, ...rest].map(name => [name, alpha3] as [string, string])))
+
+function normalizeCountry(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/'/g, '')
+    .replace(/[^A-Z]+/g, ' ')
+    .trim()
+}
+
+/**
+ * ISO alpha-3 code for a country name, demonym or code, or null when unknown
+ */
+export function countryCode(value: string): string | null {
+  const normalized = normalizeCountry(value)
+  return BY_NAME.get(normalized) ?? BY_NAME.get(normalized.replace(/^THE /, '')) ?? null
+}
+
+/**
+ * Whether two values name the same country; null when either is unknown and
+ * they are not spelled alike, as a code and a name cannot be compared
+ */
+export function sameCountry(a: string, b: string): boolean | null {
+  const [codeA, codeB] = [countryCode(a), countryCode(b)]
+  if (codeA && codeB) return codeA === codeB
+  return normalizeCountry(a) === normalizeCountry(b) ? true : null
+}
@@ -0,0 +1,67 @@
+/**
+ * Minimal RFC 4180 CSV parser. Handles quoted fields, escaped quotes,
+ * embedded newlines and both CRLF and LF line endings.
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''))
+}
+
+/**
+ * Format one CSV record, quoting fields that contain the delimiter,
+ * quotes or line breaks. The record ends with CRLF per RFC 4180.
+ */
+export function formatCsvRow(values: Array<string | number | boolean | null | undefined>, delimiter = ','): string {
+  return values.map(value => {
+    const field = value === null || value === undefined ? '' : String(value)
+    return /["\r\n]/.test(field) || field.includes(delimiter)
+      ? `"${field.replace(/"/g, '""')}"`
+      : field
+  }).join(delimiter) + '\r\n'
+}
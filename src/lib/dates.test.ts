@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { ageInYears, daysBetween, isMonthFirstCountry, parseDocumentDate, toIsoDate } from './dates'
+
+const NOW = new Date(Date.UTC(2024, 5, 1))
+
+function parsed(value: string, options = {}): string | undefined {
+  const date = parseDocumentDate(value, { now: NOW, ...options })
+  return date ? toIsoDate(date) : undefined
+}
+
+describe('parseDocumentDate', () => {
+  it('reads ISO, day-first numeric, month-name and compact dates', () => {
+    expect(parsed('1990-08-15')).toBe('1990-08-15')
+    expect(parsed('DOB: 15/08/1990')).toBe('1990-08-15')
+    expect(parsed('15.08.1990')).toBe('1990-08-15')
+    expect(parsed('15 AUG 1990')).toBe('1990-08-15')
+    expect(parsed('15 AUG/AOÛT 1990')).toBe('1990-08-15')
+    expect(parsed('Aug 15, 1990')).toBe('1990-08-15')
+    expect(parsed('19900815')).toBe('1990-08-15')
+  })
+
+  it('reads numeric dates month first when asked', () => {
+    expect(parsed('08/05/1990')).toBe('1990-05-08')
+    expect(parsed('08/05/1990', { monthFirst: true })).toBe('1990-08-05')
+  })
+
+  it('falls back to the only valid reading when a part is above 12', () => {
+    expect(parsed('08/15/1990')).toBe('1990-08-15')
+    expect(parsed('15/08/1990', { monthFirst: true })).toBe('1990-08-15')
+  })
+
+  it('puts two-digit past years in the last century when they would be future', () => {
+    expect(parsed('15-08-90', { past: true })).toBe('1990-08-15')
+    expect(parsed('15-08-20', { past: true })).toBe('2020-08-15')
+    expect(parsed('15-08-30')).toBe('2030-08-15')
+  })
+
+  it('rejects impossible and future-dated values', () => {
+    expect(parsed('31/02/1990')).toBeUndefined()
+    expect(parsed('2025-01-01', { past: true })).toBeUndefined()
+    expect(parsed('no date here')).toBeUndefined()
+    expect(parseDocumentDate(null)).toBeUndefined()
+  })
+})
+
+describe('isMonthFirstCountry', () => {
+  it('is true only for countries printing month first', () => {
+    expect(isMonthFirstCountry('usa')).toBe(true)
+    expect(isMonthFirstCountry('IND')).toBe(false)
+    expect(isMonthFirstCountry(null)).toBe(false)
+  })
+})
+
+describe('daysBetween', () => {
+  it('counts calendar days, negative when going back', () => {
+    expect(daysBetween(new Date('2024-02-28T23:00:00Z'), new Date('2024-03-01T01:00:00Z'))).toBe(2)
+    expect(daysBetween(new Date('2024-03-01'), new Date('2024-02-28'))).toBe(-2)
+  })
+})
+
+describe('ageInYears', () => {
+  it('counts completed years', () => {
+    const dob = new Date('2006-06-02')
+    expect(ageInYears(dob, new Date('2024-06-01'))).toBe(17)
+    expect(ageInYears(dob, new Date('2024-06-02'))).toBe(18)
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * Date parsing for the formats printed on identity documents, statements
+ * and receipts: ISO (1990-08-15), day-first numeric as used in India
+ * (15/08/1990, 15-08-90, 15.08.1990), month names (15 AUG 1990,
+ * 15 AUG/AOUT 1990, Aug 15, 1990) and compact 19900815. Impossible calendar
+ * dates are rejected rather than rolled over.
+ */
+
+export interface DateParseOptions {
+  // US-style MM/DD/YYYY; numeric dates are day-first otherwise
+  monthFirst?: boolean
+  // The date cannot be in the future (birth and issue dates), which also
+  // decides the century of two-digit years
+  past?: boolean
+  now?: Date
+}
+
+const MONTHS: Record<string, number> = {
+  JAN: 1, FEB: 2, MAR: 3, APR: 4, MAY: 5, JUN: 6, JUL: 7, AUG: 8, SEP: 9, SEPT: 9, OCT: 10, NOV: 11, DEC: 12
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Issuing states that print numeric dates month first
+const MONTH_FIRST_COUNTRIES = ['US', 'USA']
+
+export function isMonthFirstCountry(country: string | null | undefined): boolean {
+  return !!country && MONTH_FIRST_COUNTRIES.includes(country.toUpperCase())
+}
+
+function monthNumber(name: string): number | undefined {
+  return MONTHS[name.slice(0, 4)] ?? MONTHS[name.slice(0, 3)]
+}
+
+function fullYear(year: string, options: DateParseOptions): number {
+  if (year.length === 4) return Number(year)
+
+  const yy = Number(year)
+  const currentYy = (options.now ?? new Date()).getUTCFullYear() % 100
+  return options.past && yy > currentYy ? 1900 + yy : 2000 + yy
+}
+
+function build(year: number, month: number, day: number, options: DateParseOptions): Date | undefined {
+  if (year < 1900 || year > 2100 || month < 1 || month > 12 || day < 1 || day > 31) return undefined
+
+  const date = new Date(Date.UTC(year, month - 1, day))
+  // 31/02 would otherwise roll over into March
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined
+  if (options.past && date.getTime() > (options.now ?? new Date()).getTime()) return undefined
+  return date
+}
+
+/**
+ * The first date in a string, at UTC midnight, or undefined when none
+ * can be read
+ */
+export function parseDocumentDate(value: string | null | undefined, options: DateParseOptions = {}): Date | undefined {
+  if (!value) return undefined
+  const text = value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+
+  const iso = text.match(/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?!\d)/)
+  if (iso) return build(Number(iso[1]), Number(iso[2]), Number(iso[3]), options)
+
+  const numeric = text.match(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})(?!\d)/) ??
+    text.match(/\b(\d{1,2}) (\d{1,2}) (\d{4})\b/)
+  if (numeric) {
+    const year = fullYear(numeric[3], options)
+    const [first, second] = [Number(numeric[1]), Number(numeric[2])]
+    const preferred = options.monthFirst ? build(year, first, second, options) : build(year, second, first, options)
+    // Only one reading is a real date when a part is above 12
+    return preferred ?? (options.monthFirst ? build(year, second, first, options) : build(year, first, second, options))
+  }
+
+  const dayMonth = text.match(/\b(\d{1,2})[\s./-]*([A-Z]{3,9})\.?(?:\s*\/\s*[A-Z]{3,9}\.?)?[\s./,-]*(\d{4}|\d{2})\b/)
+  if (dayMonth && monthNumber(dayMonth[2])) {
+    return build(fullYear(dayMonth[3], options), monthNumber(dayMonth[2])!, Number(dayMonth[1]), options)
+  }
+
+  const monthDay = text.match(/\b([A-Z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})\b/)
+  if (monthDay && monthNumber(monthDay[1])) {
+    return build(Number(monthDay[3]), monthNumber(monthDay[1])!, Number(monthDay[2]), options)
+  }
+
+  const compact = text.match(/\b(19\d{2}|20\d{2})(\d{2})(\d{2})\b/)
+  if (compact) return build(Number(compact[1]), Number(compact[2]), Number(compact[3]), options)
+
+  return undefined
+}
+
+/**
+ * YYYY-MM-DD of a date, in UTC
+ */
+export function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Whole calendar days from one date to another (negative when `to` is earlier)
+ */
+export function daysBetween(from: Date, to: Date): number {
+  const start = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate())
+  const end = Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate())
+  return Math.round((end - start) / DAY_MS)
+}
+
+/**
+ * Completed years of age on a date
+ */
+export function ageInYears(dateOfBirth: Date, on: Date = new Date()): number {
+  let age = on.getUTCFullYear() - dateOfBirth.getUTCFullYear()
+  const birthdayPassed = on.getUTCMonth() > dateOfBirth.getUTCMonth() ||
+    (on.getUTCMonth() === dateOfBirth.getUTCMonth() && on.getUTCDate() >= dateOfBirth.getUTCDate())
+  if (!birthdayPassed) age--
+  return age
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import { findDocumentProfile, maskAadhaar, redactAadhaarNumbers, verhoeffValid } from './indianDocuments'
+
+// Passes the Verhoeff checksum; 234123412345 does not
+const AADHAAR = '234123412346'
+
+describe('verhoeffValid', () => {
+  it('accepts a valid check digit and rejects a changed one', () => {
+    expect(verhoeffValid(AADHAAR)).toBe(true)
+    expect(verhoeffValid('234123412345')).toBe(false)
+  })
+
+  it('catches swapped adjacent digits', () => {
+    expect(verhoeffValid('243123412346')).toBe(false)
+  })
+
+  it('rejects non-digits', () => {
+    expect(verhoeffValid('2341 2341 2346')).toBe(false)
+  })
+})
+
+describe('maskAadhaar', () => {
+  it('keeps only the last four digits', () => {
+    expect(maskAadhaar(AADHAAR)).toBe('XXXX XXXX 2346')
+  })
+})
+
+describe('redactAadhaarNumbers', () => {
+  it('masks grouped numbers whatever the separator', () => {
+    expect(redactAadhaarNumbers('Aadhaar 2341 2341 2345')).toBe('Aadhaar XXXX XXXX 2345')
+    expect(redactAadhaarNumbers('2341  2341  2345')).toBe('XXXX XXXX 2345')
+    expect(redactAadhaarNumbers('2341-2341-2345')).toBe('XXXX XXXX 2345')
+    expect(redactAadhaarNumbers('2341 . 2341 . 2345')).toBe('XXXX XXXX 2345')
+  })
+
+  it('masks ungrouped numbers only when they pass the checksum elsewhere', () => {
+    expect(redactAadhaarNumbers(`ref ${AADHAAR}`)).toBe('ref XXXX XXXX 2346')
+    expect(redactAadhaarNumbers('ref 234123412345')).toBe('ref 234123412345')
+  })
+
+  it('masks every 12-digit run on an Aadhaar document', () => {
+    expect(redactAadhaarNumbers('No:123412341234X', true)).toBe('No:XXXX XXXX 1234X')
+    expect(redactAadhaarNumbers('234123412345', true)).toBe('XXXX XXXX 2345')
+  })
+
+  it('leaves longer numbers alone', () => {
+    expect(redactAadhaarNumbers('account 12345678901234')).toBe('account 12345678901234')
+  })
+})
+
+describe('Aadhaar profile', () => {
+  const text = [
+    'Government of India',
+    'Rahul Kumar Sharma',
+    'DOB: 15/08/1990',
+    'MALE',
+    '2341 2341 2346',
+    'Aadhaar - Aam Aadmi ka Adhikar'
+  ].join('\n')
+
+  it('extracts the masked number, name, date of birth and gender', () => {
+    const profile = findDocumentProfile(text, 'ID_CARD')
+    expect(profile?.type).toBe('AADHAAR')
+
+    const result = profile!.extract(text)
+    expect(result.fields).toMatchObject({
+      documentNumber: 'XXXX XXXX 2346',
+      fullName: 'Rahul Kumar Sharma',
+      dateOfBirth: '1990-08-15',
+      yearOfBirth: 1990,
+      gender: 'MALE'
+    })
+    expect(result.checks).toEqual({ numberFound: true, checksum: true })
+    expect(result.valid).toBe(true)
+  })
+
+  it('reports a number failing the checksum', () => {
+    const result = findDocumentProfile('', 'AADHAAR')!.extract(text.replace('2346', '2345'))
+    expect(result.checks.checksum).toBe(false)
+    expect(result.valid).toBe(false)
+    expect(result.issues).toContain('Aadhaar number fails the Verhoeff checksum')
+  })
+
+  it('accepts a masked Aadhaar without a checksum', () => {
+    const result = findDocumentProfile('', 'AADHAAR')!.extract(text.replace('2341 2341 2346', 'XXXX XXXX 2346'))
+    expect(result.fields.documentNumber).toBe('XXXX XXXX 2346')
+    expect(result.checks).toEqual({ numberFound: true, checksum: null })
+    expect(result.valid).toBe(true)
+  })
+})
+
+describe('PAN profile', () => {
+  it('checks the format, holder type and surname initial', () => {
+    const text = 'INCOME TAX DEPARTMENT\nGOVT. OF INDIA\nName: Rahul Kumar Sharma\nDate of Birth: 15/08/1990\nABCPS1234F'
+    const result = findDocumentProfile(text, 'PAN_CARD')!.extract(text)
+    expect(result.fields).toMatchObject({
+      documentNumber: 'ABCPS1234F',
+      entityType: 'INDIVIDUAL',
+      fullName: 'Rahul Kumar Sharma',
+      dateOfBirth: '1990-08-15'
+    })
+    expect(result.checks).toEqual({ format: true, entityType: true, surnameInitial: true })
+    expect(result.valid).toBe(true)
+  })
+})
+
+describe('findDocumentProfile', () => {
+  it('recognises a generic ID card from its text', () => {
+    expect(findDocumentProfile('ELECTION COMMISSION OF INDIA\nABC1234567', 'ID_CARD')?.type).toBe('VOTER_ID')
+  })
+
+  it('ignores unrelated upload types', () => {
+    expect(findDocumentProfile('ELECTION COMMISSION OF INDIA', 'PASSPORT')).toBeNull()
+  })
+})
@@ -0,0 +1,309 @@
+/**
+ * Document profiles for Indian identity documents: Aadhaar, PAN and voter
+ * ID (EPIC). Each profile recognises its document in OCR text, extracts the
+ * printed fields and validates the document number. Aadhaar numbers are only
+ * ever returned masked to the last four digits, and redactAadhaarNumbers
+ * strips them from text before it is stored.
+ */
+
+import { parseDocumentDate, toIsoDate } from './dates'
+
+export type IndianDocumentType = 'AADHAAR' | 'PAN' | 'VOTER_ID'
+
+export interface DocumentProfileResult {
+  profile: IndianDocumentType
+  fields: {
+    // Aadhaar numbers are masked as "XXXX XXXX 1234"
+    documentNumber?: string
+    fullName?: string
+    fatherName?: string
+    // YYYY-MM-DD
+    dateOfBirth?: string
+    yearOfBirth?: number
+    gender?: 'MALE' | 'FEMALE' | 'TRANSGENDER'
+    // PAN holder category from the fourth letter
+    entityType?: string
+  }
+  // Individual validation rules; null when a rule could not be applied
+  checks: Record<string, boolean | null>
+  valid: boolean
+  issues: string[]
+}
+
+export interface DocumentProfile {
+  type: IndianDocumentType
+  // Upload type that names the document directly
+  fileType: string
+  detect(text: string): boolean
+  extract(text: string): DocumentProfileResult
+}
+
+// Verhoeff dihedral group tables
+const VERHOEFF_MULTIPLY = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0]
+]
+
+const VERHOEFF_PERMUTE = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8]
+]
+
+/**
+ * Verhoeff checksum over a digit string, check digit included
+ */
+export function verhoeffValid(digits: string): boolean {
+  if (!/^\d+$/.test(digits)) return false
+
+  let check = 0
+  const reversed = digits.split('').reverse()
+  for (let i = 0; i < reversed.length; i++) {
+    check = VERHOEFF_MULTIPLY[check][VERHOEFF_PERMUTE[i % 8][Number(reversed[i])]]
+  }
+  return check === 0
+}
+
+export function maskAadhaar(digits: string): string {
+  return `XXXX XXXX ${digits.slice(-4)}`
+}
+
+// Spaces, dots or dashes OCR leaves between the 4-4-4 groups
+const GROUP_SEPARATOR = '[ \\t.-]*'
+// 12 digits, grouped 4-4-4 as printed, or run together
+const AADHAAR_NUMBER = new RegExp(`\\b([2-9]\\d{3})${GROUP_SEPARATOR}(\\d{4})${GROUP_SEPARATOR}(\\d{4})\\b`)
+const AADHAAR_NUMBERS = new RegExp(AADHAAR_NUMBER.source, 'g')
+// Any 12 digits, even run into letters or starting 0 or 1 after an OCR
+// misread; on an Aadhaar document these are treated as the number
+const TWELVE_DIGITS = new RegExp(`(^|\\D)(\\d{4})${GROUP_SEPARATOR}(\\d{4})${GROUP_SEPARATOR}(\\d{4})(?!\\d)`)
+const TWELVE_DIGIT_RUNS = new RegExp(TWELVE_DIGITS.source, 'g')
+// UIDAI's masked Aadhaar prints only the last four digits
+const MASKED_AADHAAR = new RegExp(`\\b[Xx*]{4}${GROUP_SEPARATOR}[Xx*]{4}${GROUP_SEPARATOR}(\\d{4})\\b`)
+
+/**
+ * Mask Aadhaar numbers in text. On an Aadhaar document every 12-digit number
+ * is masked; elsewhere, numbers printed in groups or passing the checksum are.
+ */
+export function redactAadhaarNumbers(text: string, isAadhaarDocument: boolean = false): string {
+  if (isAadhaarDocument) {
+    return text.replace(TWELVE_DIGIT_RUNS, (_match: string, before: string, a: string, b: string, c: string) =>
+      before + maskAadhaar(a + b + c)
+    )
+  }
+
+  return text.replace(AADHAAR_NUMBERS, (match: string, a: string, b: string, c: string) => {
+    const digits = a + b + c
+    const grouped = /^\d{4}[ \t.-]+\d{4}[ \t.-]+\d{4}$/.test(match)
+    return grouped || verhoeffValid(digits) ? maskAadhaar(digits) : match
+  })
+}
+
+const PAN_NUMBER = /\b([A-Z]{5}[0-9]{4}[A-Z])\b/
+
+// Fourth letter of a PAN: the holder category
+export const PAN_ENTITY_TYPES: Record<string, string> = {
+  P: 'INDIVIDUAL',
+  C: 'COMPANY',
+  H: 'HUF',
+  F: 'FIRM',
+  A: 'ASSOCIATION_OF_PERSONS',
+  T: 'TRUST',
+  B: 'BODY_OF_INDIVIDUALS',
+  L: 'LOCAL_AUTHORITY',
+  J: 'ARTIFICIAL_JURIDICAL_PERSON',
+  G: 'GOVERNMENT'
+}
+
+const EPIC_NUMBER = /\b([A-Z]{3}[0-9]{7})\b/
+
+/**
+ * Day-first printed date to YYYY-MM-DD
+ */
+function indianDate(value: string | undefined): string | undefined {
+  const date = parseDocumentDate(value, { past: true })
+  return date ? toIsoDate(date) : undefined
+}
+
+function lines(text: string): string[] {
+  return text.split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+}
+
+function cleanName(value: string | undefined): string | undefined {
+  const name = value?.replace(/[^A-Za-z .']/g, ' ').replace(/\s+/g, ' ').trim()
+  return name && name.length > 1 ? name : undefined
+}
+
+/**
+ * Value after a label, on the same line ("Name: X") or the next ("Name\nX")
+ */
+function labelled(textLines: string[], label: RegExp): string | undefined {
+  for (let i = 0; i < textLines.length; i++) {
+    const match = textLines[i].match(label)
+    if (!match) continue
+
+    const rest = textLines[i].slice((match.index ?? 0) + match[0].length).replace(/^[\s:/-]+/, '')
+    if (rest) return rest
+    if (textLines[i + 1]) return textLines[i + 1]
+  }
+  return undefined
+}
+
+function gender(text: string): DocumentProfileResult['fields']['gender'] {
+  if (/\bFEMALE\b|महिला/i.test(text)) return 'FEMALE'
+  if (/\bTRANSGENDER\b/i.test(text)) return 'TRANSGENDER'
+  if (/\bMALE\b|पुरुष/i.test(text)) return 'MALE'
+  return undefined
+}
+
+function result(
+  profile: IndianDocumentType,
+  fields: DocumentProfileResult['fields'],
+  checks: Record<string, boolean | null>,
+  issues: string[],
+  required: string[]
+): DocumentProfileResult {
+  return { profile, fields, checks, issues, valid: required.every(check => checks[check] === true) }
+}
+
+const aadhaarProfile: DocumentProfile = {
+  type: 'AADHAAR',
+  fileType: 'AADHAAR',
+  detect(text) {
+    return /aadhaar|aadhar|\bUIDAI\b|unique identification authority|आधार/i.test(text)
+  },
+  extract(text) {
+    const textLines = lines(text)
+    const issues: string[] = []
+    const checks: Record<string, boolean | null> = { numberFound: false, checksum: null }
+    const fields: DocumentProfileResult['fields'] = {}
+
+    const full = text.match(AADHAAR_NUMBER)
+    const unbounded = full ? null : text.match(TWELVE_DIGITS)
+    const masked = text.match(MASKED_AADHAAR)
+    if (full || unbounded) {
+      const digits = full ? full[1] + full[2] + full[3] : unbounded![2] + unbounded![3] + unbounded![4]
+      fields.documentNumber = maskAadhaar(digits)
+      checks.numberFound = true
+      checks.checksum = verhoeffValid(digits)
+      if (!checks.checksum) issues.push('Aadhaar number fails the Verhoeff checksum')
+    } else if (masked) {
+      // Masked Aadhaar is the form UIDAI recommends sharing; no checksum to verify
+      fields.documentNumber = maskAadhaar(masked[1])
+      checks.numberFound = true
+    } else {
+      issues.push('No Aadhaar number found')
+    }
+
+    // The holder's name is printed on the line above the date of birth
+    const dobIndex = textLines.findIndex(line => /DOB|date of birth|year of birth|\bYOB\b|जन्म/i.test(line))
+    if (dobIndex > 0) fields.fullName = cleanName(textLines[dobIndex - 1])
+    if (dobIndex >= 0) {
+      fields.dateOfBirth = indianDate(textLines[dobIndex])
+      const year = textLines[dobIndex].match(/\b(19|20)\d{2}\b/)
+      if (year) fields.yearOfBirth = Number(year[0])
+    }
+    fields.gender = gender(text)
+
+    return result('AADHAAR', fields, checks, issues, ['numberFound'].concat(checks.checksum === null ? [] : ['checksum']))
+  }
+}
+
+const panProfile: DocumentProfile = {
+  type: 'PAN',
+  fileType: 'PAN_CARD',
+  detect(text) {
+    return /income\s*tax\s*department|permanent\s*account\s*number|आयकर विभाग/i.test(text)
+  },
+  extract(text) {
+    const textLines = lines(text)
+    const issues: string[] = []
+    const fields: DocumentProfileResult['fields'] = {}
+
+    const number = text.toUpperCase().match(PAN_NUMBER)?.[1]
+    const entityType = number ? PAN_ENTITY_TYPES[number[3]] : undefined
+
+    fields.documentNumber = number
+    fields.entityType = entityType
+    fields.fullName = cleanName(labelled(textLines, /^(?:name|नाम)\b/i))
+    fields.fatherName = cleanName(labelled(textLines, /father'?s\s*name|पिता का नाम/i))
+    fields.dateOfBirth = indianDate(labelled(textLines, /date\s*of\s*birth|\bDOB\b|जन्म की तारीख/i) ?? text)
+
+    // Older cards have no labels: name, father's name and date follow the header
+    if (!fields.fullName) {
+      const header = textLines.findIndex(line => /income\s*tax\s*department|govt\.?\s*of\s*india/i.test(line))
+      const names = textLines.slice(header + 1).filter(line => /^[A-Z][A-Z .']+$/.test(line) && !/GOVT|INDIA|DEPARTMENT|ACCOUNT|SIGNATURE/.test(line))
+      fields.fullName = cleanName(names[0])
+      fields.fatherName = fields.fatherName ?? cleanName(names[1])
+    }
+
+    // For individuals the fifth letter is the initial of the surname
+    const surname = fields.fullName?.split(' ').pop()
+    const checks: Record<string, boolean | null> = {
+      format: !!number,
+      entityType: !!entityType,
+      surnameInitial: number && entityType === 'INDIVIDUAL' && surname
+        ? number[4] === surname[0].toUpperCase()
+        : null
+    }
+
+    if (!number) issues.push('No PAN in the expected AAAAA9999A format')
+    if (number && !entityType) issues.push(`Unknown PAN holder type letter ${number[3]}`)
+    if (checks.surnameInitial === false) issues.push('PAN fifth letter does not match the surname initial')
+
+    // Surname conventions vary, so the initial is reported but not required
+    return result('PAN', fields, checks, issues, ['format', 'entityType'])
+  }
+}
+
+const voterIdProfile: DocumentProfile = {
+  type: 'VOTER_ID',
+  fileType: 'VOTER_ID',
+  detect(text) {
+    return /election\s*commission\s*of\s*india|elector'?s?\s*photo\s*identity|निर्वाचन आयोग/i.test(text)
+  },
+  extract(text) {
+    const textLines = lines(text)
+    const issues: string[] = []
+    const fields: DocumentProfileResult['fields'] = {}
+
+    const number = text.toUpperCase().match(EPIC_NUMBER)?.[1]
+    fields.documentNumber = number
+    fields.fullName = cleanName(labelled(textLines, /^(?:elector'?s\s*)?name\b/i))
+    fields.fatherName = cleanName(labelled(textLines, /(?:father|husband)'?s\s*name/i))
+    fields.dateOfBirth = indianDate(labelled(textLines, /date\s*of\s*birth|\bDOB\b/i))
+    fields.gender = gender(text)
+
+    const checks = { format: !!number }
+    if (!number) issues.push('No EPIC number in the expected ABC1234567 format')
+
+    return result('VOTER_ID', fields, checks, issues, ['format'])
+  }
+}
+
+export const DOCUMENT_PROFILES: DocumentProfile[] = [aadhaarProfile, panProfile, voterIdProfile]
+
+export const INDIAN_ID_FILE_TYPES = DOCUMENT_PROFILES.map(profile => profile.fileType)
+
+/**
+ * The profile for a document: named by its upload type, or recognised from
+ * its text when uploaded as a generic ID card
+ */
+export function findDocumentProfile(text: string, fileType: string): DocumentProfile | null {
+  const byType = DOCUMENT_PROFILES.find(profile => profile.fileType === fileType)
+  if (byType) return byType
+  if (fileType !== 'ID_CARD') return null
+  return DOCUMENT_PROFILES.find(profile => profile.detect(text)) ?? null
+}
@@ -0,0 +1,32 @@
+/**
+ * PII masking helpers for exports and logs. Masked values keep just enough
+ * shape (initials, last digits, birth year) to reconcile records by hand.
+ */
+
+/**
+ * Keep the last `visible` characters of an identifier, e.g. "********1234"
+ */
+export function maskIdentifier(value: string, visible = 4): string {
+  const trimmed = value.trim()
+  if (trimmed.length <= visible) return '*'.repeat(trimmed.length)
+  return '*'.repeat(trimmed.length - visible) + trimmed.slice(-visible)
+}
+
+/**
+ * Reduce each name part to its initial, e.g. "Rahul Kumar" -> "R**** K****"
+ */
+export function maskName(value: string): string {
+  return value
+    .trim()
+    .split(/\s+/)
+    .map(part => part.charAt(0) + '*'.repeat(Math.max(part.length - 1, 0)))
+    .join(' ')
+}
+
+/**
+ * Keep only the year of a date, e.g. a date of birth
+ */
+export function maskDate(value: Date | string): string {
+  const date = value instanceof Date ? value : new Date(value)
+  return isNaN(date.getTime()) ? '****' : `${date.getUTCFullYear()}-**-**`
+}
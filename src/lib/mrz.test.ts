@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest'
+import { detectMrz, mrzCheckDigit, parseMrz } from './mrz'
+
+// ICAO 9303 specimen documents
+const TD3 = [
+  'P<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<<<<<<<<<',
+  'L898902C36UTO7408122F1204159ZE184226B<<<<<10'
+]
+const TD2 = [
+  'I<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<',
+  'D231458907UTO7408122F1204159<<<<<<<6'
+]
+const TD1 = [
+  'I<UTOD231458907<<<<<<<<<<<<<<<',
+  '7408122F1204159UTO<<<<<<<<<<<6',
+  'ERIKSSON<<ANNA<MARIA<<<<<<<<<<'
+]
+
+describe('mrzCheckDigit', () => {
+  it('weights digits, letters and fillers 7-3-1', () => {
+    expect(mrzCheckDigit('L898902C3')).toBe(6)
+    expect(mrzCheckDigit('740812')).toBe(2)
+    expect(mrzCheckDigit('120415')).toBe(9)
+    expect(mrzCheckDigit('<<<<<<<<<')).toBe(0)
+  })
+})
+
+describe('detectMrz', () => {
+  it('finds the MRZ lines among other OCR text', () => {
+    const detected = detectMrz(['PASSPORT', 'Surname: ERIKSSON', ...TD3, 'Signature'].join('\n'))
+    expect(detected).toEqual({ format: 'TD3', lines: TD3 })
+  })
+
+  it('cleans spaces, lowercase and chevron look-alikes', () => {
+    const detected = detectMrz([TD2[0].replace(/</g, '‹ ').toLowerCase(), TD2[1]].join('\n'))
+    expect(detected?.format).toBe('TD2')
+    expect(detected?.lines[0]).toBe(TD2[0])
+  })
+
+  it('returns null without an MRZ', () => {
+    expect(detectMrz('Name: Anna Eriksson\nDOB: 12/08/1974')).toBeNull()
+  })
+})
+
+describe('parseMrz', () => {
+  it('parses a TD3 passport', () => {
+    const result = parseMrz(TD3.join('\n'))
+    expect(result).toMatchObject({
+      format: 'TD3',
+      documentType: 'P',
+      issuingState: 'UTO',
+      surname: 'ERIKSSON',
+      givenNames: 'ANNA MARIA',
+      documentNumber: 'L898902C3',
+      nationality: 'UTO',
+      dateOfBirth: '1974-08-12',
+      sex: 'F',
+      expiryDate: '2012-04-15',
+      personalNumber: 'ZE184226B',
+      valid: true
+    })
+    expect(result?.checks).toEqual({
+      documentNumber: true, dateOfBirth: true, expiryDate: true, personalNumber: true, composite: true
+    })
+  })
+
+  it('parses a TD2 card', () => {
+    const result = parseMrz(TD2.join('\n'))
+    expect(result).toMatchObject({
+      format: 'TD2',
+      documentType: 'I',
+      documentNumber: 'D23145890',
+      dateOfBirth: '1974-08-12',
+      expiryDate: '2012-04-15',
+      personalNumber: null,
+      valid: true
+    })
+  })
+
+  it('parses a TD1 card', () => {
+    const result = parseMrz(TD1.join('\n'))
+    expect(result).toMatchObject({
+      format: 'TD1',
+      documentNumber: 'D23145890',
+      surname: 'ERIKSSON',
+      givenNames: 'ANNA MARIA',
+      nationality: 'UTO',
+      dateOfBirth: '1974-08-12',
+      sex: 'F',
+      valid: true
+    })
+  })
+
+  it('corrects letters OCR reads in digit positions', () => {
+    const misread = [TD3[0], TD3[1].replace('7408122', '74O8L22')]
+    expect(parseMrz(misread.join('\n'))).toMatchObject({ dateOfBirth: '1974-08-12', valid: true })
+  })
+
+  it('fails the checks for a tampered field', () => {
+    const tampered = [TD3[0], TD3[1].replace('L898902C3', 'L898902C4')]
+    const result = parseMrz(tampered.join('\n'))
+    expect(result?.checks.documentNumber).toBe(false)
+    expect(result?.checks.composite).toBe(false)
+    expect(result?.valid).toBe(false)
+  })
+})
@@ -0,0 +1,258 @@
+/**
+ * Machine-readable zone (ICAO 9303) detection and parsing for passports and
+ * ID cards: TD1 (3 x 30, ID cards), TD2 (2 x 36) and TD3 (2 x 44,
+ * passports). Check digits are validated for the document number, date of
+ * birth, expiry, optional personal number and the composite digit.
+ */
+
+export type MrzFormat = 'TD1' | 'TD2' | 'TD3'
+
+export interface MrzChecks {
+  documentNumber: boolean
+  dateOfBirth: boolean
+  expiryDate: boolean
+  // TD3 only, and only when a personal number is present
+  personalNumber: boolean | null
+  composite: boolean
+}
+
+export interface MrzResult {
+  format: MrzFormat
+  documentType: string
+  issuingState: string
+  documentNumber: string
+  nationality: string
+  // YYYY-MM-DD, or null when the field is unreadable
+  dateOfBirth: string | null
+  expiryDate: string | null
+  sex: 'M' | 'F' | 'X'
+  surname: string
+  givenNames: string
+  personalNumber: string | null
+  checks: MrzChecks
+  // Every check digit verified
+  valid: boolean
+  lines: string[]
+}
+
+const LINE_LENGTHS: Record<MrzFormat, { lines: number; length: number }> = {
+  TD1: { lines: 3, length: 30 },
+  TD2: { lines: 2, length: 36 },
+  TD3: { lines: 2, length: 44 }
+}
+
+const CHECK_WEIGHTS = [7, 3, 1]
+
+// OCR commonly reads these letters in positions that can only hold digits
+const DIGIT_CORRECTIONS: Record<string, string> = {
+  O: '0', Q: '0', D: '0', U: '0', I: '1', L: '1', Z: '2', S: '5', G: '6', B: '8'
+}
+
+/**
+ * ICAO 9303 check digit: weights 7-3-1 over digits, letters (A=10) and fillers
+ */
+export function mrzCheckDigit(value: string): number {
+  let sum = 0
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i]
+    const code = char.charCodeAt(0)
+    const digit = char >= '0' && char <= '9'
+      ? code - 48
+      : char >= 'A' && char <= 'Z'
+        ? code - 55
+        : 0
+    sum += digit * CHECK_WEIGHTS[i % 3]
+  }
+  return sum % 10
+}
+
+function checks(value: string, digit: string): boolean {
+  return /^\d$/.test(digit) && mrzCheckDigit(value) === Number(digit)
+}
+
+function digits(value: string): string {
+  return value.replace(/[A-Z]/g, char => DIGIT_CORRECTIONS[char] ?? char)
+}
+
+/**
+ * Clean an OCR line into MRZ characters: uppercase, no spaces, and the
+ * chevron look-alikes OCR produces mapped to fillers
+ */
+function cleanLine(line: string): string {
+  return line
+    .toUpperCase()
+    .replace(/[«‹<]/g, '<')
+    .replace(/\s+/g, '')
+}
+
+/**
+ * YYMMDD to an ISO date. Birth dates are never in the future; expiry dates
+ * are taken to be this century.
+ */
+function mrzDate(value: string, kind: 'birth' | 'expiry', now: Date = new Date()): string | null {
+  if (!/^\d{6}$/.test(value)) return null
+
+  const yy = Number(value.slice(0, 2))
+  const month = Number(value.slice(2, 4))
+  const day = Number(value.slice(4, 6))
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null
+
+  const currentYy = now.getUTCFullYear() % 100
+  const century = kind === 'birth' ? (yy > currentYy ? 1900 : 2000) : 2000
+  return `${century + yy}-${value.slice(2, 4)}-${value.slice(4, 6)}`
+}
+
+function field(value: string): string {
+  return value.replace(/<+$/g, '').replace(/</g, ' ').trim()
+}
+
+function names(value: string): { surname: string; givenNames: string } {
+  const [surname, ...rest] = value.replace(/<+$/g, '').split('<<')
+  return { surname: field(surname ?? ''), givenNames: field(rest.join(' ')) }
+}
+
+function sex(value: string): 'M' | 'F' | 'X' {
+  return value === 'M' || value === 'F' ? value : 'X'
+}
+
+/**
+ * Find the MRZ lines in OCR text: consecutive lines of the format's length
+ * made only of MRZ characters
+ */
+export function detectMrz(text: string): { format: MrzFormat; lines: string[] } | null {
+  const candidates = text.split(/\r?\n/).map(cleanLine).filter(line => /^[A-Z0-9<]+$/.test(line))
+
+  for (const format of ['TD3', 'TD2', 'TD1'] as MrzFormat[]) {
+    const { lines, length } = LINE_LENGTHS[format]
+    for (let i = 0; i + lines <= candidates.length; i++) {
+      const block = candidates.slice(i, i + lines)
+      if (block.every(line => line.length === length) && block.some(line => line.includes('<'))) {
+        return { format, lines: block }
+      }
+    }
+  }
+
+  return null
+}
+
+function parseTd3(lines: string[]): MrzResult {
+  const [line1, raw2] = lines
+  // Positions that hold digits only; the document and personal numbers stay as read
+  const line2 = raw2.slice(0, 13) + digits(raw2.slice(13, 20)) + raw2[20] + digits(raw2.slice(21, 28)) +
+    raw2.slice(28, 42) + digits(raw2.slice(42))
+
+  const personalNumber = field(line2.slice(28, 42))
+  const result = {
+    format: 'TD3' as const,
+    documentType: field(line1.slice(0, 2)),
+    issuingState: field(line1.slice(2, 5)),
+    ...names(line1.slice(5)),
+    documentNumber: field(line2.slice(0, 9)),
+    nationality: field(line2.slice(10, 13)),
+    dateOfBirth: mrzDate(line2.slice(13, 19), 'birth'),
+    sex: sex(line2[20]),
+    expiryDate: mrzDate(line2.slice(21, 27), 'expiry'),
+    personalNumber: personalNumber || null,
+    checks: {
+      documentNumber: checks(line2.slice(0, 9), line2[9]),
+      dateOfBirth: checks(line2.slice(13, 19), line2[19]),
+      expiryDate: checks(line2.slice(21, 27), line2[27]),
+      // An empty personal number may carry "<" or "0" as its check digit
+      personalNumber: personalNumber ? checks(line2.slice(28, 42), line2[42]) : null,
+      composite: checks(line2.slice(0, 10) + line2.slice(13, 20) + line2.slice(21, 43), line2[43])
+    },
+    lines: [line1, line2]
+  }
+
+  return { ...result, valid: isValid(result.checks) }
+}
+
+function parseTd2(lines: string[]): MrzResult {
+  const [line1, raw2] = lines
+  const line2 = raw2.slice(0, 13) + digits(raw2.slice(13, 20)) + raw2[20] + digits(raw2.slice(21, 28)) +
+    raw2.slice(28, 35) + digits(raw2.slice(35))
+
+  const result = {
+    format: 'TD2' as const,
+    documentType: field(line1.slice(0, 2)),
+    issuingState: field(line1.slice(2, 5)),
+    ...names(line1.slice(5)),
+    documentNumber: field(line2.slice(0, 9)),
+    nationality: field(line2.slice(10, 13)),
+    dateOfBirth: mrzDate(line2.slice(13, 19), 'birth'),
+    sex: sex(line2[20]),
+    expiryDate: mrzDate(line2.slice(21, 27), 'expiry'),
+    personalNumber: null,
+    checks: {
+      documentNumber: checks(line2.slice(0, 9), line2[9]),
+      dateOfBirth: checks(line2.slice(13, 19), line2[19]),
+      expiryDate: checks(line2.slice(21, 27), line2[27]),
+      personalNumber: null,
+      composite: checks(line2.slice(0, 10) + line2.slice(13, 20) + line2.slice(21, 35), line2[35])
+    },
+    lines: [line1, line2]
+  }
+
+  return { ...result, valid: isValid(result.checks) }
+}
+
+function parseTd1(lines: string[]): MrzResult {
+  const [line1, raw2, line3] = lines
+  const line2 = digits(raw2.slice(0, 7)) + raw2[7] + digits(raw2.slice(8, 15)) + raw2.slice(15, 29) + digits(raw2.slice(29))
+
+  // Document numbers longer than nine characters continue in the optional
+  // field, with "<" in the check digit position
+  let documentNumber = line1.slice(5, 14)
+  let documentCheck = checks(line1.slice(5, 14), line1[14])
+  if (line1[14] === '<') {
+    const overflow = line1.slice(15, 30).replace(/<.*$/, '')
+    const fullNumber = documentNumber + overflow.slice(0, -1)
+    documentNumber = fullNumber
+    documentCheck = checks(fullNumber, overflow.slice(-1))
+  }
+
+  const result = {
+    format: 'TD1' as const,
+    documentType: field(line1.slice(0, 2)),
+    issuingState: field(line1.slice(2, 5)),
+    ...names(line3),
+    documentNumber: field(documentNumber),
+    nationality: field(line2.slice(15, 18)),
+    dateOfBirth: mrzDate(line2.slice(0, 6), 'birth'),
+    sex: sex(line2[7]),
+    expiryDate: mrzDate(line2.slice(8, 14), 'expiry'),
+    personalNumber: null,
+    checks: {
+      documentNumber: documentCheck,
+      dateOfBirth: checks(line2.slice(0, 6), line2[6]),
+      expiryDate: checks(line2.slice(8, 14), line2[14]),
+      personalNumber: null,
+      composite: checks(line1.slice(5, 30) + line2.slice(0, 7) + line2.slice(8, 15) + line2.slice(18, 29), line2[29])
+    },
+    lines: [line1, line2, line3]
+  }
+
+  return { ...result, valid: isValid(result.checks) }
+}
+
+function isValid(result: MrzChecks): boolean {
+  return result.documentNumber && result.dateOfBirth && result.expiryDate &&
+    result.personalNumber !== false && result.composite
+}
+
+/**
+ * Detect and parse the MRZ in OCR text, or null when there is none
+ */
+export function parseMrz(text: string): MrzResult | null {
+  const detected = detectMrz(text)
+  if (!detected) return null
+
+  switch (detected.format) {
+    case 'TD3':
+      return parseTd3(detected.lines)
+    case 'TD2':
+      return parseTd2(detected.lines)
+    case 'TD1':
+      return parseTd1(detected.lines)
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { initialsAwareSimilarity, jaroWinkler, nameKeys, nameSimilarity, nameTokens, normalizeName } from './nameMatching'
+
+describe('normalizeName', () => {
+  it('romanises, strips accents and punctuation', () => {
+    expect(normalizeName("José O'Brien-Núñez")).toBe('JOSE O BRIEN NUNEZ')
+    expect(normalizeName('राहुल')).toBe('RAAHUL')
+  })
+})
+
+describe('nameTokens', () => {
+  it('drops honorifics and single letters', () => {
+    expect(nameTokens('Dr. A Rahul Sharma')).toEqual(['RAHUL', 'SHARMA'])
+  })
+})
+
+describe('nameKeys', () => {
+  it('gives spelling variants the same keys and skips particles', () => {
+    expect(nameKeys('Mohammed Al Rashid')).toEqual(nameKeys('Muhammad Al-Rasheed'))
+    expect(nameKeys('Mohammed Al Rashid')).not.toContain(nameKeys('Al')[0])
+  })
+})
+
+describe('jaroWinkler', () => {
+  it('matches the reference values', () => {
+    expect(jaroWinkler('MARTHA', 'MARHTA')).toBeCloseTo(0.961, 3)
+    expect(jaroWinkler('DWAYNE', 'DUANE')).toBeCloseTo(0.84, 2)
+    expect(jaroWinkler('ABC', 'ABC')).toBe(1)
+    expect(jaroWinkler('ABC', 'XYZ')).toBe(0)
+  })
+})
+
+describe('nameSimilarity', () => {
+  it('ignores word order and tolerates spelling variants', () => {
+    expect(nameSimilarity('SMITH, John', 'John Smith')).toBe(1)
+    expect(nameSimilarity('Mohammed Ali', 'Muhammad Ali')).toBeGreaterThan(0.9)
+  })
+
+  it('handles names written without spaces', () => {
+    expect(nameSimilarity('ABUBAKAR', 'ABU BAKAR')).toBeGreaterThan(0.9)
+  })
+
+  it('scores different people low', () => {
+    expect(nameSimilarity('Rahul Sharma', 'Priya Natarajan')).toBeLessThan(0.6)
+    expect(nameSimilarity('Mr', 'Rahul')).toBe(0)
+  })
+})
+
+describe('initialsAwareSimilarity', () => {
+  it('accepts initials for given names', () => {
+    const withInitials = initialsAwareSimilarity('R. K. Sharma', 'Rahul Kumar Sharma')
+    expect(withInitials).toBeGreaterThan(0.9)
+    expect(withInitials).toBeGreaterThan(nameSimilarity('R. K. Sharma', 'Rahul Kumar Sharma'))
+  })
+
+  it('does not accept the wrong initial', () => {
+    expect(initialsAwareSimilarity('P. K. Sharma', 'Rahul Kumar Sharma'))
+      .toBeLessThan(initialsAwareSimilarity('R. K. Sharma', 'Rahul Kumar Sharma'))
+  })
+})
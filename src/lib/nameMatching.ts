@@ -0,0 +1,153 @@
+/**
+ * Fuzzy person and entity name matching for sanctions screening. Names are
+ * transliterated and stripped of accents, honorifics and punctuation, then
+ * compared token by token so reordering ("SMITH, John" / "John Smith"),
+ * missing middle names and spelling variants ("Mohammed" / "Muhammad")
+ * still score highly.
+ */
+
+import { consonantKey, transliterate } from './transliteration'
+
+// Titles and connectors that carry no identifying value
+const IGNORED_TOKENS = new Set([
+  'MR', 'MRS', 'MS', 'MISS', 'DR', 'SHRI', 'SMT', 'KUMARI', 'SRI', 'SIR', 'HAJI', 'SHEIKH', 'SHAIKH'
+])
+
+// Particles too common to narrow a candidate search, though still compared
+const NAME_PARTICLES = new Set([
+  'AL', 'EL', 'BIN', 'BINT', 'IBN', 'BEN', 'DE', 'DA', 'DI', 'DEL', 'LA', 'LE', 'VAN', 'VON'
+])
+
+/**
+ * Uppercase ASCII form of a name: Devanagari romanised, accents removed,
+ * punctuation turned into spaces
+ */
+export function normalizeName(name: string): string {
+  return transliterate(name)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .trim()
+}
+
+/**
+ * Significant tokens of a name
+ */
+export function nameTokens(name: string): string[] {
+  return normalizeName(name)
+    .split(' ')
+    .filter(token => token.length > 1 && !IGNORED_TOKENS.has(token))
+}
+
+/**
+ * Phonetic keys used to find candidate entries for a name
+ */
+export function nameKeys(name: string): string[] {
+  const tokens = nameTokens(name)
+  const distinctive = tokens.filter(token => !NAME_PARTICLES.has(token))
+
+  return Array.from(new Set(
+    (distinctive.length > 0 ? distinctive : tokens).map(token => consonantKey(token)).filter(key => key.length > 1)
+  ))
+}
+
+/**
+ * Jaro-Winkler similarity between two strings, 0 to 1
+ */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1
+  if (!a || !b) return 0
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1)
+  const aMatched = new Array<boolean>(a.length).fill(false)
+  const bMatched = new Array<boolean>(b.length).fill(false)
+
+  let matches = 0
+  for (let i = 0; i < a.length; i++) {
+    const from = Math.max(0, i - window)
+    const to = Math.min(b.length - 1, i + window)
+    for (let j = from; j <= to; j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue
+      aMatched[i] = true
+      bMatched[j] = true
+      matches++
+      break
+    }
+  }
+  if (matches === 0) return 0
+
+  let transpositions = 0
+  let k = 0
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue
+    while (!bMatched[k]) k++
+    if (a[i] !== b[k]) transpositions++
+    k++
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3
+
+  let prefix = 0
+  while (prefix < 4 && prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+
+  return jaro + prefix * 0.1 * (1 - jaro)
+}
+
+/**
+ * Similarity of two tokens; a shared consonant key counts as a near match
+ */
+function tokenSimilarity(a: string, b: string): number {
+  const spelling = jaroWinkler(a, b)
+  return consonantKey(a) === consonantKey(b) ? Math.max(spelling, 0.95) : spelling
+}
+
+function bestMatchAverage(from: string[], to: string[]): number {
+  const total = from.reduce((sum, token) => sum + Math.max(...to.map(other => tokenSimilarity(token, other))), 0)
+  return total / from.length
+}
+
+/**
+ * Order-insensitive similarity of two names, 0 to 1. Each side's tokens are
+ * matched to their closest counterpart and the two directions averaged, so
+ * an extra middle name lowers the score without sinking it.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const aTokens = nameTokens(a)
+  const bTokens = nameTokens(b)
+  if (aTokens.length === 0 || bTokens.length === 0) return 0
+
+  // Names written without spaces ("ABUBAKAR" / "ABU BAKAR")
+  const joined = jaroWinkler(aTokens.join(''), bTokens.join(''))
+  const tokenwise = (bestMatchAverage(aTokens, bTokens) + bestMatchAverage(bTokens, aTokens)) / 2
+
+  return Math.max(tokenwise, aTokens.length !== bTokens.length ? joined * 0.95 : 0)
+}
+
+// Score for an initial matching the first letter of a name ("R" / "RAHUL")
+const INITIAL_MATCH = 0.9
+
+function partsWithInitials(name: string): string[] {
+  return normalizeName(name).split(' ').filter(token => token && !IGNORED_TOKENS.has(token))
+}
+
+function partSimilarity(a: string, b: string): number {
+  if (a.length === 1 || b.length === 1) return a[0] === b[0] ? INITIAL_MATCH : 0
+  return tokenSimilarity(a, b)
+}
+
+/**
+ * nameSimilarity that also accepts initials ("R. K. Sharma" / "Rahul Kumar
+ * Sharma"), for comparing the same person's name across documents
+ */
+export function initialsAwareSimilarity(a: string, b: string): number {
+  const aParts = partsWithInitials(a)
+  const bParts = partsWithInitials(b)
+  if (aParts.length === 0 || bParts.length === 0) return 0
+
+  const average = (from: string[], to: string[]) =>
+    from.reduce((sum, part) => sum + Math.max(...to.map(other => partSimilarity(part, other))), 0) / from.length
+  const withInitials = (average(aParts, bParts) + average(bParts, aParts)) / 2
+
+  return Math.max(withInitials, nameSimilarity(a, b))
+}
@@ -0,0 +1,15 @@
+/**
+ * Canonical form of a payment account so the same account entered with
+ * different spacing or case is recognised across orders. UPI handles keep
+ * their "@bank" suffix; bank account numbers keep only letters and digits.
+ */
+export function normalizePaymentAccount(value: string | null | undefined): string | null {
+  if (!value) return null
+
+  const trimmed = value.trim().toLowerCase()
+  const normalized = trimmed.includes('@')
+    ? trimmed.replace(/\s+/g, '')
+    : trimmed.replace(/[^a-z0-9]/g, '')
+
+  return normalized || null
+}
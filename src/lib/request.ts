@@ -0,0 +1,15 @@
+import { NextRequest } from 'next/server'
+
+export interface RequestMetadata {
+  ipAddress: string | null
+  userAgent: string | null
+}
+
+export function getRequestMetadata(request: NextRequest): RequestMetadata {
+  const forwardedFor = request.headers.get('x-forwarded-for')
+
+  return {
+    ipAddress: forwardedFor?.split(',')[0].trim() || request.ip || null,
+    userAgent: request.headers.get('user-agent')
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Parsers for the official sanctions list files: OFAC SDN (sdn.xml, or
+ * sdn.csv with its alt.csv alias file), the UN Security Council consolidated
+ * list XML and the EU consolidated financial sanctions XML. Each yields the
+ * same flat entry shape for the screening index.
+ */
+
+import { XMLParser } from 'fast-xml-parser'
+import { parseCsv } from './csv'
+
+export interface ParsedSanctionsEntry {
+  entryId: string
+  entryType: string
+  primaryName: string
+  aliases: string[]
+  // YYYY-MM-DD, or YYYY when only the year is known
+  datesOfBirth: string[]
+  nationalities: string[]
+  programs: string[]
+}
+
+// Elements that repeat in at least one of the formats
+const REPEATED_ELEMENTS = new Set([
+  // OFAC
+  'sdnEntry', 'program', 'aka', 'dateOfBirthItem', 'nationality', 'citizenship',
+  // UN
+  'INDIVIDUAL', 'ENTITY', 'INDIVIDUAL_ALIAS', 'ENTITY_ALIAS', 'INDIVIDUAL_DATE_OF_BIRTH', 'NATIONALITY', 'VALUE',
+  // EU
+  'sanctionEntity', 'nameAlias', 'birthdate', 'regulation'
+])
+
+const MONTHS: Record<string, string> = {
+  JAN: '01', FEB: '02', MAR: '03', APR: '04', MAY: '05', JUN: '06',
+  JUL: '07', AUG: '08', SEP: '09', OCT: '10', NOV: '11', DEC: '12'
+}
+
+// Longest year range expanded for "1955 to 1960" style dates
+const MAX_YEAR_RANGE = 20
+
+function xmlParser() {
+  return new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    removeNSPrefix: true,
+    parseTagValue: false,
+    parseAttributeValue: false,
+    trimValues: true,
+    isArray: name => REPEATED_ELEMENTS.has(name)
+  })
+}
+
+function text(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  if (typeof value === 'object') return text((value as Record<string, unknown>)['#text'])
+  return String(value).trim()
+}
+
+function list<T = any>(value: T[] | T | undefined): T[] {
+  if (value === undefined || value === null) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+function joinName(...parts: unknown[]): string {
+  return parts.map(text).filter(Boolean).join(' ')
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.map(v => v.trim()).filter(Boolean)))
+}
+
+/**
+ * Normalise the date notations used across the lists ("01 Jan 1960",
+ * "1960-01-01", "circa 1960", "1955 to 1960") into full dates or years
+ */
+export function parseListDates(value: string): string[] {
+  const iso = value.match(/(\d{4})-(\d{2})-(\d{2})/)
+  if (iso) return [`${iso[1]}-${iso[2]}-${iso[3]}`]
+
+  const dayMonthYear = value.match(/(\d{1,2})\s+([A-Za-z]{3})[A-Za-z]*\.?\s+(\d{4})/)
+  if (dayMonthYear && MONTHS[dayMonthYear[2].toUpperCase()]) {
+    return [`${dayMonthYear[3]}-${MONTHS[dayMonthYear[2].toUpperCase()]}-${dayMonthYear[1].padStart(2, '0')}`]
+  }
+
+  const years: number[] = []
+  value.replace(/\b(1[89]\d{2}|20\d{2})\b/g, (match: string) => {
+    years.push(Number(match))
+    return match
+  })
+
+  if (years.length === 2 && /\bto\b|-/i.test(value) && years[1] > years[0] && years[1] - years[0] <= MAX_YEAR_RANGE) {
+    return Array.from({ length: years[1] - years[0] + 1 }, (_, i) => String(years[0] + i))
+  }
+
+  return unique(years.map(String))
+}
+
+/**
+ * OFAC SDN list, XML edition (sdn.xml)
+ */
+export function parseOfacXml(xml: string): ParsedSanctionsEntry[] {
+  const document = xmlParser().parse(xml)
+  const entries = list(document?.sdnList?.sdnEntry)
+
+  return entries.map((entry: any) => ({
+    entryId: text(entry.uid),
+    entryType: text(entry.sdnType).toUpperCase() || 'ENTITY',
+    primaryName: joinName(entry.firstName, entry.lastName),
+    aliases: unique(list(entry.akaList?.aka).map((aka: any) => joinName(aka.firstName, aka.lastName))),
+    datesOfBirth: unique(list(entry.dateOfBirthList?.dateOfBirthItem).flatMap((item: any) => parseListDates(text(item.dateOfBirth)))),
+    nationalities: unique([
+      ...list(entry.nationalityList?.nationality).map((n: any) => text(n.country)),
+      ...list(entry.citizenshipList?.citizenship).map((c: any) => text(c.country))
+    ]),
+    programs: unique(list(entry.programList?.program).map(text))
+  })).filter(entry => entry.entryId && entry.primaryName)
+}
+
+const OFAC_CSV_NULL = '-0-'
+
+function ofacField(value: string | undefined): string {
+  const trimmed = (value ?? '').trim()
+  return trimmed === OFAC_CSV_NULL ? '' : trimmed
+}
+
+/**
+ * Pull "a.k.a." names, dates of birth and nationalities out of an SDN
+ * remarks field
+ */
+function parseOfacRemarks(remarks: string) {
+  const aliases: string[] = []
+  const dates: string[] = []
+  const nationalities: string[] = []
+
+  remarks.replace(/a\.k\.a\.\s*'([^']+)'/gi, (match: string, alias: string) => {
+    aliases.push(alias)
+    return match
+  })
+  remarks.replace(/\bDOB\s+([^;]+)/g, (match: string, date: string) => {
+    dates.push(...parseListDates(date))
+    return match
+  })
+  remarks.replace(/\b(?:nationality|citizen)\s+([^;.]+)/gi, (match: string, country: string) => {
+    nationalities.push(country)
+    return match
+  })
+
+  return { aliases, dates, nationalities }
+}
+
+/**
+ * OFAC SDN list, CSV edition (sdn.csv, no header row). The alias file
+ * alt.csv, when supplied, adds the alternate names by entry number.
+ */
+export function parseOfacCsv(sdnCsv: string, altCsv?: string): ParsedSanctionsEntry[] {
+  const alternates = new Map<string, string[]>()
+  for (const row of altCsv ? parseCsv(altCsv) : []) {
+    const [entNum, , , altName] = row
+    const name = ofacField(altName)
+    if (!ofacField(entNum) || !name) continue
+    alternates.set(entNum.trim(), [...(alternates.get(entNum.trim()) ?? []), name])
+  }
+
+  return parseCsv(sdnCsv)
+    .filter(row => row.length >= 3 && /^\d+$/.test(row[0].trim()))
+    .map(row => {
+      const entryId = row[0].trim()
+      const remarks = parseOfacRemarks(ofacField(row[11]))
+
+      return {
+        entryId,
+        entryType: ofacField(row[2]).toUpperCase() || 'ENTITY',
+        primaryName: ofacField(row[1]),
+        aliases: unique([...remarks.aliases, ...(alternates.get(entryId) ?? [])]),
+        datesOfBirth: unique(remarks.dates),
+        nationalities: unique(remarks.nationalities),
+        // Programs are listed as "SDGT] [IRGC"
+        programs: unique(ofacField(row[3]).split(/\]\s*\[/).map(p => p.replace(/[[\]]/g, '')))
+      }
+    })
+    .filter(entry => entry.primaryName)
+}
+
+// UN aliases graded "Low" are too vague to screen against
+const UN_LOW_QUALITY_ALIAS = 'LOW'
+
+/**
+ * UN Security Council consolidated list XML
+ */
+export function parseUnXml(xml: string): ParsedSanctionsEntry[] {
+  const document = xmlParser().parse(xml)
+  const root = document?.CONSOLIDATED_LIST ?? {}
+
+  const individuals = list(root.INDIVIDUALS?.INDIVIDUAL).map((person: any) => ({
+    entryId: text(person.DATAID),
+    entryType: 'INDIVIDUAL',
+    primaryName: joinName(person.FIRST_NAME, person.SECOND_NAME, person.THIRD_NAME, person.FOURTH_NAME),
+    aliases: unique(list(person.INDIVIDUAL_ALIAS)
+      .filter((alias: any) => text(alias.QUALITY).toUpperCase() !== UN_LOW_QUALITY_ALIAS)
+      .map((alias: any) => text(alias.ALIAS_NAME))),
+    datesOfBirth: unique(list(person.INDIVIDUAL_DATE_OF_BIRTH).flatMap((dob: any) => {
+      if (text(dob.DATE)) return parseListDates(text(dob.DATE))
+      if (text(dob.FROM_YEAR) && text(dob.TO_YEAR)) return parseListDates(`${text(dob.FROM_YEAR)} to ${text(dob.TO_YEAR)}`)
+      return parseListDates(text(dob.YEAR))
+    })),
+    nationalities: unique(list(person.NATIONALITY).flatMap((n: any) => list(n.VALUE).map(text))),
+    programs: unique([text(person.UN_LIST_TYPE)])
+  }))
+
+  const entities = list(root.ENTITIES?.ENTITY).map((entity: any) => ({
+    entryId: text(entity.DATAID),
+    entryType: 'ENTITY',
+    primaryName: joinName(entity.FIRST_NAME),
+    aliases: unique(list(entity.ENTITY_ALIAS)
+      .filter((alias: any) => text(alias.QUALITY).toUpperCase() !== UN_LOW_QUALITY_ALIAS)
+      .map((alias: any) => text(alias.ALIAS_NAME))),
+    datesOfBirth: [],
+    nationalities: [],
+    programs: unique([text(entity.UN_LIST_TYPE)])
+  }))
+
+  return [...individuals, ...entities].filter(entry => entry.entryId && entry.primaryName)
+}
+
+/**
+ * EU consolidated financial sanctions list XML
+ */
+export function parseEuXml(xml: string): ParsedSanctionsEntry[] {
+  const document = xmlParser().parse(xml)
+  const entities = list(document?.export?.sanctionEntity)
+
+  return entities.map((entity: any) => {
+    const names = unique(list(entity.nameAlias).map((alias: any) =>
+      text(alias.wholeName) || joinName(alias.firstName, alias.middleName, alias.lastName)
+    ))
+    const subjectType = text(entity.subjectType?.code).toUpperCase()
+
+    return {
+      entryId: text(entity.logicalId) || text(entity.euReferenceNumber),
+      entryType: subjectType === 'PERSON' ? 'INDIVIDUAL' : subjectType || 'ENTITY',
+      primaryName: names[0] ?? '',
+      aliases: names.slice(1),
+      datesOfBirth: unique(list(entity.birthdate).flatMap((birth: any) =>
+        parseListDates(text(birth.birthdate) || text(birth.year))
+      )),
+      nationalities: unique(list(entity.citizenship).flatMap((c: any) => [text(c.countryDescription), text(c.countryIso2Code)])),
+      programs: unique(list(entity.regulation).map((r: any) => text(r.programme)))
+    }
+  }).filter(entry => entry.entryId && entry.primaryName)
+}
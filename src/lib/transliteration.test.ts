@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { consonantKey, foldWord, tokenize, transliterate, wordMatches } from './transliteration'
+
+describe('transliterate', () => {
+  it('romanises Devanagari, dropping the final inherent vowel', () => {
+    expect(transliterate('जल्दी')).toBe('jaldee')
+    expect(transliterate('पैसा')).toBe('paisaa')
+    expect(transliterate('नमक')).toBe('namak')
+  })
+
+  it('converts Devanagari digits and passes other text through', () => {
+    expect(transliterate('₹५०० now')).toBe('₹500 now')
+  })
+})
+
+describe('consonantKey', () => {
+  it('drops vowels after the first letter and folds spellings', () => {
+    expect(consonantKey('Mohammed')).toBe(consonantKey('Muhammad'))
+    expect(consonantKey('karo')).toBe('kr')
+    expect(consonantKey('phone')).toBe('fn')
+  })
+})
+
+describe('wordMatches', () => {
+  const matches = (word: string, keyword: string) => wordMatches(foldWord(word), foldWord(keyword))
+
+  it('matches spelling variants and script', () => {
+    expect(matches('jaaldi', 'jaldi')).toBe(true)
+    expect(matches('jaldiii', 'jaldi')).toBe(true)
+    expect(matches('जल्दी', 'jaldi')).toBe(true)
+    expect(matches('karoo', 'karo')).toBe(true)
+  })
+
+  it('matches longer words built on a keyword', () => {
+    expect(matches('quickly', 'quick')).toBe(true)
+    expect(matches('urgently', 'urgent')).toBe(true)
+    expect(matches('fastest', 'fast')).toBe(true)
+  })
+
+  it('keeps short words apart', () => {
+    expect(matches('kick', 'quick')).toBe(false)
+    expect(matches('new', 'now')).toBe(false)
+    expect(matches('send', 'se')).toBe(false)
+  })
+
+  it('does not pair words that only share consonants', () => {
+    expect(consonantKey('rules')).toBe(consonantKey('release'))
+    expect(matches('rules', 'release')).toBe(false)
+    expect(matches('roles', 'release')).toBe(false)
+  })
+})
+
+describe('tokenize', () => {
+  it('splits mixed-script text into words', () => {
+    expect(tokenize('Send ₹500 जल्दी करो, please।')).toEqual(['Send', '500', 'जल्दी', 'करो', 'please'])
+  })
+})
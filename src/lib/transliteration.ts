@@ -0,0 +1,161 @@
+/**
+ * Transliteration and phonetic folding for matching chat text written in
+ * English, Hindi (Devanagari) and romanised Hindi, where the same word turns
+ * up as "जल्दी", "jaldi", "jaaldi" or "jaldiii".
+ */
+
+const INDEPENDENT_VOWELS: Record<string, string> = {
+  'अ': 'a', 'आ': 'aa', 'इ': 'i', 'ई': 'ee', 'उ': 'u', 'ऊ': 'oo', 'ऋ': 'ri',
+  'ए': 'e', 'ऐ': 'ai', 'ऑ': 'o', 'ओ': 'o', 'औ': 'au'
+}
+
+const VOWEL_SIGNS: Record<string, string> = {
+  'ा': 'aa', 'ि': 'i', 'ी': 'ee', 'ु': 'u', 'ू': 'oo', 'ृ': 'ri',
+  'ॅ': 'e', 'े': 'e', 'ै': 'ai', 'ॉ': 'o', 'ो': 'o', 'ौ': 'au'
+}
+
+const CONSONANTS: Record<string, string> = {
+  'क': 'k', 'ख': 'kh', 'ग': 'g', 'घ': 'gh', 'ङ': 'n',
+  'च': 'ch', 'छ': 'chh', 'ज': 'j', 'झ': 'jh', 'ञ': 'n',
+  'ट': 't', 'ठ': 'th', 'ड': 'd', 'ढ': 'dh', 'ण': 'n',
+  'त': 't', 'थ': 'th', 'द': 'd', 'ध': 'dh', 'न': 'n',
+  'प': 'p', 'फ': 'ph', 'ब': 'b', 'भ': 'bh', 'म': 'm',
+  'य': 'y', 'र': 'r', 'ल': 'l', 'व': 'v', 'श': 'sh', 'ष': 'sh', 'स': 's', 'ह': 'h',
+  // Precomposed nukta forms
+  'क़': 'q', 'ख़': 'kh', 'ग़': 'g', 'ज़': 'z', 'ड़': 'r', 'ढ़': 'rh', 'फ़': 'f', 'य़': 'y'
+}
+
+const SIGNS: Record<string, string> = {
+  'ं': 'n', 'ँ': 'n', 'ः': 'h', '।': '.', '॥': '.'
+}
+
+const VIRAMA = '्'
+const NUKTA = '़'
+const DEVANAGARI_DIGIT_ZERO = 0x0966
+
+/**
+ * Romanise Devanagari text; other characters pass through unchanged
+ */
+export function transliterate(text: string): string {
+  const chars = Array.from(text.normalize('NFC'))
+  let output = ''
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i]
+    const code = char.codePointAt(0)!
+
+    if (code >= DEVANAGARI_DIGIT_ZERO && code <= DEVANAGARI_DIGIT_ZERO + 9) {
+      output += String(code - DEVANAGARI_DIGIT_ZERO)
+    } else if (CONSONANTS[char]) {
+      output += CONSONANTS[char]
+
+      let next = i + 1
+      if (chars[next] === NUKTA) next++
+
+      if (chars[next] === VIRAMA) {
+        i = next
+      } else if (VOWEL_SIGNS[chars[next]]) {
+        output += VOWEL_SIGNS[chars[next]]
+        i = next
+      } else {
+        i = next - 1
+        // Hindi drops the inherent vowel at the end of a word
+        const following = chars[next]
+        if (following && (CONSONANTS[following] || SIGNS[following] === 'n')) output += 'a'
+      }
+    } else if (INDEPENDENT_VOWELS[char]) {
+      output += INDEPENDENT_VOWELS[char]
+    } else if (SIGNS[char]) {
+      output += SIGNS[char]
+    } else if (char !== NUKTA && char !== VIRAMA) {
+      output += char
+    }
+  }
+
+  return output
+}
+
+/**
+ * Lowercase romanised spelling with aspirates and common letter swaps folded
+ * and repeated letters collapsed
+ */
+function foldSpelling(word: string): string {
+  return transliterate(word)
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '')
+    .replace(/ph/g, 'f')
+    .replace(/ck/g, 'k')
+    .replace(/q/g, 'k')
+    .replace(/w/g, 'v')
+    .replace(/z/g, 'j')
+    .replace(/([bcdgjkpstv])h/g, '$1')
+    .replace(/(.)\1+/g, '$1')
+}
+
+function dropVowels(folded: string): string {
+  return folded ? folded[0] + folded.slice(1).replace(/[aeiouy]/g, '') : ''
+}
+
+/**
+ * The folded spelling with every vowel after the first letter dropped, so
+ * "karo", "kro" and "karoo" all become "kr". Broad enough to pair name
+ * spellings ("Mohammed" / "Muhammad"), too broad for words in chat.
+ */
+export function consonantKey(word: string): string {
+  return dropVowels(foldSpelling(word))
+}
+
+/**
+ * A word prepared for keyword matching
+ */
+export interface FoldedWord {
+  folded: string
+  key: string
+}
+
+export function foldWord(word: string): FoldedWord {
+  const folded = foldSpelling(word)
+  return { folded, key: dropVowels(folded) }
+}
+
+// Keywords up to this folded length match only as spelled or as a prefix:
+// shorter words collide too broadly on their consonants ("now" and "new")
+const SHORT_WORD_LENGTH = 4
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Whether a word matches a keyword: the same folded spelling, a longer word
+ * built on it ("quickly" / "quick"), or for longer keywords the same
+ * consonants spelled nearly alike ("jaldi" / "जल्दी", but not "release" /
+ * "rules")
+ */
+export function wordMatches(word: FoldedWord, keyword: FoldedWord): boolean {
+  if (!keyword.folded) return false
+  if (word.folded === keyword.folded) return true
+  if (keyword.folded.length < SHORT_WORD_LENGTH) return false
+  if (word.folded.startsWith(keyword.folded)) return true
+  if (keyword.folded.length === SHORT_WORD_LENGTH || word.key !== keyword.key) return false
+
+  return editDistance(word.folded, keyword.folded) <= Math.floor(keyword.folded.length / 3)
+}
+
+// Latin (with accents) and Devanagari letters, signs and digits, minus the danda
+const WORD_SEPARATOR = /[^0-9A-Za-z\u00C0-\u024F\u0900-\u0963\u0966-\u097F]+/
+
+/**
+ * Split text into Latin and Devanagari words, keeping the original spelling
+ */
+export function tokenize(text: string): string[] {
+  return text.normalize('NFC').split(WORD_SEPARATOR).filter(Boolean)
+}
@@ -0,0 +1,89 @@
+/**
+ * Alert Service
+ *
+ * Raises and tracks the risk alerts surfaced on the operations dashboard.
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { AlertStatus } from '@/types'
+
+export interface RaiseAlertInput {
+  orderId?: string | null
+  type: string
+  severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL'
+  message: string
+  details?: Record<string, any>
+}
+
+export class AlertService {
+  /**
+   * Raise a new alert
+   */
+  async raise(input: RaiseAlertInput, client: Prisma.TransactionClient = prisma) {
+    return await client.riskAlert.create({
+      data: {
+        orderId: input.orderId ?? undefined,
+        type: input.type,
+        severity: input.severity,
+        message: input.message,
+        details: (input.details ?? {}) as Prisma.InputJsonValue
+      }
+    })
+  }
+
+  /**
+   * List alerts, newest first
+   */
+  async listAlerts(statuses: AlertStatus[] = ['OPEN'], limit: number = 50) {
+    const where: Prisma.RiskAlertWhereInput = { status: { in: statuses } }
+
+    const [alerts, totalCount] = await Promise.all([
+      prisma.riskAlert.findMany({
+        where,
+        include: {
+          order: {
+            select: { id: true, binanceOrderId: true, counterpartyName: true, status: true }
+          }
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit
+      }),
+      prisma.riskAlert.count({ where })
+    ])
+
+    return { alerts, totalCount }
+  }
+
+  /**
+   * Move an alert to ACKNOWLEDGED or RESOLVED
+   */
+  async updateStatus(alertId: string, status: 'ACKNOWLEDGED' | 'RESOLVED', operatorId?: string) {
+    const now = new Date()
+    return await prisma.riskAlert.update({
+      where: { id: alertId },
+      data: {
+        status,
+        acknowledgedBy: operatorId,
+        acknowledgedAt: now,
+        resolvedAt: status === 'RESOLVED' ? now : undefined
+      }
+    })
+  }
+
+  /**
+   * Resolve open alerts of the given types for an order, e.g. once the condition clears
+   */
+  async resolveForOrder(
+    orderId: string,
+    types: string[],
+    client: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    await client.riskAlert.updateMany({
+      where: { orderId, type: { in: types }, status: { not: 'RESOLVED' } },
+      data: { status: 'RESOLVED', resolvedAt: new Date() }
+    })
+  }
+}
+
+export const alertService = new AlertService()
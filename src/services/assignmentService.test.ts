@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { AssignmentError, assignmentService } from './assignmentService'
+
+const db = vi.hoisted(() => ({
+  p2POrder: { findUnique: vi.fn(), update: vi.fn(), groupBy: vi.fn() },
+  operator: { findMany: vi.fn() },
+  systemConfig: { findUnique: vi.fn(), updateMany: vi.fn(), createMany: vi.fn() },
+  auditLog: { create: vi.fn() },
+  $transaction: vi.fn()
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+vi.mock('./orderLifecycleService', () => ({
+  ACTIVE_ORDER_STATUSES: ['PENDING', 'IN_PROGRESS', 'PAYMENT_PENDING', 'PAYMENT_CONFIRMED', 'DISPUTED']
+}))
+
+function order(status: string) {
+  return { id: 'order-1', status, operatorId: null, paymentMethod: 'UPI', currency: 'INR', riskAssessment: null }
+}
+
+function cursor(lastOperatorId: string, updatedAt: Date) {
+  return { key: 'order_assignment.round_robin_cursor', value: { lastOperatorId }, updatedAt }
+}
+
+// Successive reads of the cursor row; the assignment config itself is unset
+function cursorReads(...reads: Array<ReturnType<typeof cursor> | null>) {
+  db.systemConfig.findUnique.mockImplementation(async ({ where }: { where: { key: string } }) =>
+    where.key === 'order_assignment.round_robin_cursor' ? reads.shift() ?? null : null)
+}
+
+beforeEach(() => {
+  vi.resetAllMocks()
+  db.$transaction.mockImplementation((work: (tx: typeof db) => unknown) => work(db))
+  db.operator.findMany.mockResolvedValue([
+    { id: 'op-a', role: 'OPERATOR', skills: [], maxActiveOrders: null },
+    { id: 'op-b', role: 'OPERATOR', skills: [], maxActiveOrders: null },
+    { id: 'op-c', role: 'OPERATOR', skills: [], maxActiveOrders: null }
+  ])
+  db.p2POrder.groupBy.mockResolvedValue([])
+})
+
+describe('assignOrder', () => {
+  it.each(['COMPLETED', 'CANCELLED'])('refuses %s orders', async status => {
+    db.p2POrder.findUnique.mockResolvedValue(order(status))
+
+    await expect(assignmentService.assignOrder('order-1', { strategy: 'LEAST_WORKLOAD' }))
+      .rejects.toBeInstanceOf(AssignmentError)
+    expect(db.p2POrder.update).not.toHaveBeenCalled()
+  })
+
+  it('moves the round-robin cursor only if nobody moved it since it was read', async () => {
+    db.p2POrder.findUnique.mockResolvedValue(order('PENDING'))
+    const first = cursor('op-a', new Date('2024-01-01T00:00:00.000Z'))
+    cursorReads(first, cursor('op-b', new Date('2024-01-01T00:00:00.001Z')))
+    // A concurrent assignment took op-b between the read and the write
+    db.systemConfig.updateMany.mockResolvedValueOnce({ count: 0 }).mockResolvedValueOnce({ count: 1 })
+
+    const result = await assignmentService.assignOrder('order-1', { strategy: 'ROUND_ROBIN' })
+
+    expect(db.systemConfig.updateMany.mock.calls[0][0].where)
+      .toMatchObject({ updatedAt: first.updatedAt, value: { equals: first.value } })
+    expect(result.operatorId).toBe('op-c')
+  })
+
+  it('creates the cursor on first use without overwriting a concurrent one', async () => {
+    db.p2POrder.findUnique.mockResolvedValue(order('PENDING'))
+    cursorReads(null, cursor('op-a', new Date('2024-01-01T00:00:00.000Z')))
+    db.systemConfig.createMany.mockResolvedValue({ count: 0 })
+    db.systemConfig.updateMany.mockResolvedValue({ count: 1 })
+
+    const result = await assignmentService.assignOrder('order-1', { strategy: 'ROUND_ROBIN' })
+
+    expect(db.systemConfig.createMany.mock.calls[0][0]).toMatchObject({ skipDuplicates: true })
+    expect(result.operatorId).toBe('op-b')
+  })
+})
@@ -0,0 +1,298 @@
+/**
+ * Order Assignment Service
+ *
+ * Distributes orders across active operators using a configurable strategy.
+ * High-risk orders are restricted to supervisors, and orders held by
+ * inactive operators are handed back out by the rebalance job.
+ */
+
+import { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { OrderStatus } from '@/types'
+import { auditService } from './auditService'
+import { ACTIVE_ORDER_STATUSES } from './orderLifecycleService'
+import { SYSTEM_USER, systemConfigService } from './systemConfigService'
+
+export const ASSIGNMENT_STRATEGIES = ['ROUND_ROBIN', 'LEAST_WORKLOAD', 'SKILL_MATCH'] as const
+
+export type AssignmentStrategy = (typeof ASSIGNMENT_STRATEGIES)[number]
+
+// POST /api/orders/[id]/assign body: a named operator, or a strategy to pick one
+export const assignmentRequestSchema = z.object({
+  operatorId: z.string().min(1).optional(),
+  strategy: z.enum(ASSIGNMENT_STRATEGIES).optional(),
+  assignedBy: z.string().min(1).nullish(),
+  reason: z.string().optional()
+})
+
+export interface AssignmentConfig {
+  strategy: AssignmentStrategy
+  highRiskLevels: Array<'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL'>
+  defaultMaxActiveOrders: number | null
+}
+
+export interface AssignmentOptions {
+  strategy?: AssignmentStrategy
+  operatorId?: string
+  assignedBy?: string | null
+  reason?: string
+  ipAddress?: string | null
+  userAgent?: string | null
+}
+
+export interface AssignmentResult {
+  orderId: string
+  operatorId: string
+  previousOperatorId: string | null
+  strategy: AssignmentStrategy | 'MANUAL'
+  highRisk: boolean
+}
+
+export class AssignmentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AssignmentError'
+  }
+}
+
+interface Candidate {
+  id: string
+  role: string
+  skills: string[]
+  maxActiveOrders: number | null
+  workload: number
+}
+
+const CONFIG_KEY = 'order_assignment'
+const CURSOR_KEY = 'order_assignment.round_robin_cursor'
+// Compare-and-set attempts before a round-robin assignment gives up
+const CURSOR_ATTEMPTS = 5
+
+export const DEFAULT_ASSIGNMENT_CONFIG: AssignmentConfig = {
+  strategy: 'LEAST_WORKLOAD',
+  highRiskLevels: ['HIGH', 'CRITICAL'],
+  defaultMaxActiveOrders: null
+}
+
+export class AssignmentService {
+  /**
+   * Assign an order to an operator, either the one requested or one chosen by strategy
+   */
+  async assignOrder(orderId: string, options: AssignmentOptions = {}): Promise<AssignmentResult> {
+    const order = await prisma.p2POrder.findUnique({
+      where: { id: orderId },
+      include: { riskAssessment: true }
+    })
+
+    if (!order) {
+      throw new Error('Order not found')
+    }
+    if (!ACTIVE_ORDER_STATUSES.includes(order.status as OrderStatus)) {
+      throw new AssignmentError(`Cannot assign an order that is ${order.status}`)
+    }
+
+    const config = await systemConfigService.get(CONFIG_KEY, DEFAULT_ASSIGNMENT_CONFIG)
+    const highRisk = !!order.riskAssessment &&
+      config.highRiskLevels.includes(order.riskAssessment.recommendation)
+
+    let operatorId: string
+    let strategy: AssignmentResult['strategy']
+
+    if (options.operatorId) {
+      const operator = await prisma.operator.findUnique({ where: { id: options.operatorId } })
+      if (!operator || !operator.isActive) {
+        throw new AssignmentError('Operator not found or inactive')
+      }
+      if (highRisk && operator.role !== 'SUPERVISOR') {
+        throw new AssignmentError('High-risk orders can only be assigned to supervisors')
+      }
+
+      const maxActiveOrders = operator.maxActiveOrders ?? config.defaultMaxActiveOrders
+      if (maxActiveOrders !== null && operator.id !== order.operatorId) {
+        const workload = await prisma.p2POrder.count({
+          where: { operatorId: operator.id, status: { in: ACTIVE_ORDER_STATUSES } }
+        })
+        if (workload >= maxActiveOrders) {
+          throw new AssignmentError(`Operator already has ${workload} active orders, the maximum of ${maxActiveOrders}`)
+        }
+      }
+      operatorId = operator.id
+      strategy = 'MANUAL'
+    } else {
+      strategy = options.strategy ?? config.strategy
+      const candidates = await this.getCandidates(highRisk, config, order.operatorId)
+      const selected = await this.selectOperator(strategy, candidates, order)
+
+      if (!selected) {
+        throw new AssignmentError(
+          highRisk ? 'No active supervisor available for high-risk order' : 'No active operator available'
+        )
+      }
+      operatorId = selected.id
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.p2POrder.update({
+        where: { id: orderId },
+        data: { operatorId, updatedAt: new Date() }
+      })
+
+      await auditService.log({
+        action: 'ORDER_ASSIGNED',
+        orderId,
+        operatorId: options.assignedBy ?? null,
+        details: {
+          previousOperatorId: order.operatorId,
+          operatorId,
+          strategy,
+          highRisk,
+          reason: options.reason ?? null
+        },
+        ipAddress: options.ipAddress,
+        userAgent: options.userAgent
+      }, tx)
+    })
+
+    return { orderId, operatorId, previousOperatorId: order.operatorId, strategy, highRisk }
+  }
+
+  /**
+   * Reassign active orders held by inactive operators, and high-risk orders held by non-supervisors
+   */
+  async rebalance(): Promise<AssignmentResult[]> {
+    const config = await systemConfigService.get(CONFIG_KEY, DEFAULT_ASSIGNMENT_CONFIG)
+
+    const orders = await prisma.p2POrder.findMany({
+      where: {
+        status: { in: ACTIVE_ORDER_STATUSES },
+        operator: { isNot: null },
+        OR: [
+          { operator: { isActive: false } },
+          {
+            operator: { role: { not: 'SUPERVISOR' } },
+            riskAssessment: { is: { recommendation: { in: config.highRiskLevels } } }
+          }
+        ]
+      },
+      include: { operator: { select: { isActive: true } } },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    const results: AssignmentResult[] = []
+    for (const order of orders) {
+      try {
+        results.push(await this.assignOrder(order.id, {
+          reason: order.operator?.isActive === false ? 'OPERATOR_INACTIVE' : 'HIGH_RISK_REQUIRES_SUPERVISOR'
+        }))
+      } catch (error) {
+        console.error(`Failed to reassign order ${order.id}:`, error)
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * Load eligible operators with their current active-order counts
+   */
+  private async getCandidates(
+    highRisk: boolean,
+    config: AssignmentConfig,
+    currentOperatorId: string | null
+  ): Promise<Candidate[]> {
+    const operators = await prisma.operator.findMany({
+      where: {
+        isActive: true,
+        role: highRisk ? 'SUPERVISOR' : { in: ['OPERATOR', 'SUPERVISOR'] }
+      },
+      orderBy: { id: 'asc' }
+    })
+
+    const workloads = await prisma.p2POrder.groupBy({
+      by: ['operatorId'],
+      where: {
+        operatorId: { in: operators.map(o => o.id) },
+        status: { in: ACTIVE_ORDER_STATUSES }
+      },
+      _count: { _all: true }
+    })
+    const workloadById = new Map(workloads.map(w => [w.operatorId, w._count._all]))
+
+    return operators
+      .map(operator => ({
+        id: operator.id,
+        role: operator.role,
+        skills: operator.skills,
+        maxActiveOrders: operator.maxActiveOrders ?? config.defaultMaxActiveOrders,
+        // The order being reassigned should not count against its current holder
+        workload: (workloadById.get(operator.id) ?? 0) - (operator.id === currentOperatorId ? 1 : 0)
+      }))
+      .filter(c => c.maxActiveOrders === null || c.workload < c.maxActiveOrders)
+  }
+
+  /**
+   * Pick an operator from the candidates according to the strategy
+   */
+  private async selectOperator(
+    strategy: AssignmentStrategy,
+    candidates: Candidate[],
+    order: { paymentMethod: string; currency: string }
+  ): Promise<Candidate | undefined> {
+    if (candidates.length === 0) return undefined
+
+    switch (strategy) {
+      case 'ROUND_ROBIN':
+        return await this.nextRoundRobin(candidates)
+
+      case 'SKILL_MATCH': {
+        const wanted = [order.paymentMethod, order.currency].map(s => s.toUpperCase())
+        const scored = candidates.map(candidate => ({
+          candidate,
+          matches: candidate.skills.filter(skill => wanted.includes(skill.toUpperCase())).length
+        }))
+        const best = Math.max(...scored.map(s => s.matches))
+        // Fall back to the whole pool when nobody has a matching skill
+        const pool = scored.filter(s => s.matches === best).map(s => s.candidate)
+        return this.leastLoaded(pool)
+      }
+
+      case 'LEAST_WORKLOAD':
+      default:
+        return this.leastLoaded(candidates)
+    }
+  }
+
+  private leastLoaded(candidates: Candidate[]): Candidate {
+    return candidates.reduce((best, c) => (c.workload < best.workload ? c : best))
+  }
+
+  /**
+   * Advance the shared cursor with a compare-and-set on the row it last
+   * wrote, so concurrent assignments cannot both take the same next operator
+   */
+  private async nextRoundRobin(candidates: Candidate[]): Promise<Candidate> {
+    for (let attempt = 0; attempt < CURSOR_ATTEMPTS; attempt++) {
+      const cursor = await prisma.systemConfig.findUnique({ where: { key: CURSOR_KEY } })
+      const lastId = (cursor?.value as { lastOperatorId?: string } | undefined)?.lastOperatorId
+      const next = candidates.find(c => !lastId || c.id > lastId) ?? candidates[0]
+      const value = { lastOperatorId: next.id }
+
+      const written = cursor
+        ? await prisma.systemConfig.updateMany({
+          where: { key: CURSOR_KEY, updatedAt: cursor.updatedAt, value: { equals: cursor.value as Prisma.InputJsonValue } },
+          data: { value, updatedBy: SYSTEM_USER }
+        })
+        : await prisma.systemConfig.createMany({
+          data: [{ key: CURSOR_KEY, value, updatedBy: SYSTEM_USER }],
+          skipDuplicates: true
+        })
+
+      if (written.count > 0) return next
+    }
+
+    throw new AssignmentError('Round-robin assignment is contended, retry the assignment')
+  }
+}
+
+export const assignmentService = new AssignmentService()
@@ -0,0 +1,50 @@
+/**
+ * Audit Service
+ *
+ * Central writer for the AuditLog trail. Accepts an optional transaction
+ * client so audit rows commit atomically with the change they describe.
+ */
+
+import { AuditLog, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+export interface AuditEntry {
+  action: string
+  orderId?: string | null
+  operatorId?: string | null
+  details: Record<string, any>
+  ipAddress?: string | null
+  userAgent?: string | null
+}
+
+export class AuditService {
+  /**
+   * Write a single audit log entry
+   */
+  async log(entry: AuditEntry, client: Prisma.TransactionClient = prisma): Promise<AuditLog> {
+    return client.auditLog.create({
+      data: {
+        action: entry.action,
+        orderId: entry.orderId ?? undefined,
+        operatorId: entry.operatorId ?? undefined,
+        details: entry.details as Prisma.InputJsonValue,
+        ipAddress: entry.ipAddress ?? undefined,
+        userAgent: entry.userAgent ?? undefined,
+        timestamp: new Date()
+      }
+    })
+  }
+
+  /**
+   * Replace the details of an entry written before the outcome it records
+   * was known, such as an export whose row count is only known at the end
+   */
+  async updateDetails(id: string, details: Record<string, any>, client: Prisma.TransactionClient = prisma): Promise<void> {
+    await client.auditLog.update({
+      where: { id },
+      data: { details: details as Prisma.InputJsonValue }
+    })
+  }
+}
+
+export const auditService = new AuditService()
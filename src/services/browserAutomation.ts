@@ -10,6 +10,10 @@
 
 import { AutomationEvent, BrowserSession, P2POrder, ChatMessage } from '@/types'
 import { prisma } from '@/lib/prisma'
+import { normalizePaymentAccount } from '@/lib/paymentAccount'
+import { counterpartyService } from './counterpartyService'
+import { linkAnalysisService } from './linkAnalysisService'
+import { riskReassessmentService } from './riskReassessmentService'
 
 export class BrowserAutomationService {
   private sessions: Map<string, BrowserSession> = new Map()
@@ -175,6 +179,7 @@ export class BrowserAutomationService {
           price: orderData.price,
           currency: orderData.currency,
           paymentMethod: orderData.paymentMethod,
+          paymentAccount: normalizePaymentAccount(orderData.paymentAccount),
           counterpartyId: orderData.counterpartyId,
           counterpartyName: orderData.counterpartyName,
           status: 'PENDING',
@@ -182,6 +187,8 @@ export class BrowserAutomationService {
         }
       })
 
+      await counterpartyService.syncProfile(order.counterpartyId)
+
       // Trigger automation workflows
       await this.triggerOrderWorkflows(order.id)
       
@@ -212,6 +219,11 @@ export class BrowserAutomationService {
         }
       })
 
+      // Phone numbers and accounts shared in chat feed link analysis
+      if (message.isFromUser) {
+        await linkAnalysisService.syncOrder(message.orderId)
+      }
+
       // Trigger message processing workflows
       await this.triggerMessageWorkflows(message.id)
       
@@ -297,6 +309,9 @@ export class BrowserAutomationService {
     
     // Update order status if needed
     await this.updateOrderFromMessage(message.orderId, message.content)
+
+    // Re-score once the burst of messages settles
+    await riskReassessmentService.schedule(message.orderId, { type: 'MESSAGE_RECEIVED', ref: messageId })
   }
 
   /**
@@ -340,7 +355,7 @@ export class BrowserAutomationService {
   }
 
   private async startRiskAssessment(orderId: string): Promise<void> {
-    // Implementation would trigger risk assessment service
+    await riskReassessmentService.schedule(orderId, { type: 'ORDER_CREATED', ref: orderId })
   }
 
   private async generateGreetingReply(orderId: string): Promise<void> {
@@ -368,7 +383,7 @@ export class BrowserAutomationService {
   }
 
   private async updateRiskAssessment(documentId: string): Promise<void> {
-    // Implementation would update risk scores
+    await riskReassessmentService.scheduleForDocument(documentId, 'DOCUMENT_UPLOADED')
   }
 
   private async processStatusUpdate(update: any): Promise<void> {
@@ -0,0 +1,34 @@
+import { describe, expect, it, vi } from 'vitest'
+import { chatAnalysisService, DEFAULT_CHAT_PHRASE_LIBRARY } from './chatAnalysisService'
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+function patternsIn(content: string): string[] {
+  const findings = chatAnalysisService.analyze([{ id: 'm1', content, isFromUser: true }], DEFAULT_CHAT_PHRASE_LIBRARY)
+  return findings.map(finding => finding.patternId)
+}
+
+describe('phrase analyzer', () => {
+  it('matches English keywords inside longer words', () => {
+    expect(patternsIn('Please pay quickly')).toContain('URGENCY')
+    expect(patternsIn('I need this urgently')).toContain('URGENCY')
+  })
+
+  it('matches Hinglish and Devanagari spellings', () => {
+    expect(patternsIn('jaaldi release karo bhai')).toEqual(expect.arrayContaining(['URGENCY', 'PAID_RELEASE_NOW']))
+    expect(patternsIn('जल्दी करो')).toContain('URGENCY')
+  })
+
+  it('does not treat words sharing consonants as the keyword', () => {
+    expect(patternsIn('what are the rules now')).toEqual([])
+    expect(patternsIn('our roles are fine, check the rules')).toEqual([])
+  })
+
+  it('ignores the operator side of the chat', () => {
+    const findings = chatAnalysisService.analyze(
+      [{ id: 'm1', content: 'release now', isFromUser: false }],
+      DEFAULT_CHAT_PHRASE_LIBRARY
+    )
+    expect(findings).toEqual([])
+  })
+})
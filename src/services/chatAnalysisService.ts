@@ -0,0 +1,304 @@
+/**
+ * Chat Analysis Service
+ *
+ * Scans counterparty chat for known P2P scam patterns: moving the deal
+ * off-platform, third-party payment, "payment done, release now" pressure
+ * and refund scams. The phrase library covers English, Hindi and Hinglish
+ * and is kept in SystemConfig under "chat_scam_phrases" so it can be curated
+ * without a deploy. Text is transliterated and phonetically folded before
+ * matching. Further analyzers can be registered alongside the phrase matcher.
+ */
+
+import { z } from 'zod'
+import { FoldedWord, foldWord, tokenize, wordMatches } from '@/lib/transliteration'
+import { auditService } from './auditService'
+import { systemConfigService } from './systemConfigService'
+
+export const CHAT_PHRASES_CONFIG_KEY = 'chat_scam_phrases'
+
+export const CHAT_SCAM_CATEGORIES = [
+  'OFF_PLATFORM',
+  'THIRD_PARTY_PAYMENT',
+  'RELEASE_PRESSURE',
+  'REFUND_SCAM',
+  'URGENCY'
+] as const
+
+export type ChatScamCategory = (typeof CHAT_SCAM_CATEGORIES)[number]
+
+const phrasePatternSchema = z.object({
+  id: z.string().regex(/^[A-Z][A-Z0-9_]*$/, 'Pattern ids are UPPER_SNAKE_CASE'),
+  category: z.enum(CHAT_SCAM_CATEGORIES),
+  description: z.string().optional(),
+  phrases: z.array(z.string().trim().min(1)).min(1),
+  enabled: z.boolean().default(true)
+})
+
+export const chatPhraseLibrarySchema = z.object({
+  patterns: z.array(phrasePatternSchema).min(1)
+}).superRefine((library, ctx) => {
+  const seen = new Set<string>()
+  library.patterns.forEach((pattern, index) => {
+    if (seen.has(pattern.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['patterns', index, 'id'], message: `Duplicate pattern id ${pattern.id}` })
+    }
+    seen.add(pattern.id)
+  })
+})
+
+export type ChatPhraseLibrary = z.infer<typeof chatPhraseLibrarySchema>
+
+export interface ChatMessageInput {
+  id: string
+  content: string
+  isFromUser: boolean
+}
+
+export interface ChatFinding {
+  analyzer: string
+  category: ChatScamCategory
+  patternId: string
+  messageId: string
+  // Library phrase that matched, and the words it matched in the message
+  phrase: string
+  matchedText: string
+}
+
+/**
+ * Pluggable analyzer. Receives counterparty messages only.
+ */
+export interface ChatAnalyzer {
+  name: string
+  analyze(messages: ChatMessageInput[], library: ChatPhraseLibrary): ChatFinding[]
+}
+
+export class ChatPhraseLibraryValidationError extends Error {
+  constructor(public readonly issues: z.ZodIssue[]) {
+    super('Chat phrase library is invalid')
+    this.name = 'ChatPhraseLibraryValidationError'
+  }
+}
+
+export const DEFAULT_CHAT_PHRASE_LIBRARY: ChatPhraseLibrary = {
+  patterns: [
+    {
+      id: 'OFF_PLATFORM_CONTACT',
+      category: 'OFF_PLATFORM',
+      description: 'Asks to continue the conversation or deal outside Binance',
+      phrases: [
+        'whatsapp', 'telegram', 'contact me on', 'message me on', 'outside binance', 'direct deal',
+        'binance ke bahar', 'bahar deal', 'whatsapp pe baat', 'whatsapp karo', 'telegram pe aao',
+        'mera number', 'apna number do',
+        'व्हाट्सएप', 'टेलीग्राम', 'बाहर डील', 'मेरा नंबर'
+      ],
+      enabled: true
+    },
+    {
+      id: 'THIRD_PARTY_PAYER',
+      category: 'THIRD_PARTY_PAYMENT',
+      description: 'Payment will come from someone other than the counterparty',
+      phrases: [
+        'my friend will pay', 'friend will send', 'brother will pay', 'from another account',
+        'from different account', 'third party payment', 'company account',
+        'dost pay karega', 'dost bhejega', 'dost ke account se', 'bhai bhejega', 'papa ke account se',
+        'dusre account se',
+        'दोस्त पेमेंट करेगा', 'दोस्त भेजेगा', 'दूसरे अकाउंट से'
+      ],
+      enabled: true
+    },
+    {
+      id: 'PAID_RELEASE_NOW',
+      category: 'RELEASE_PRESSURE',
+      description: 'Claims payment is done and pushes for immediate release',
+      phrases: [
+        'payment done release', 'already paid release', 'release now', 'release fast', 'release quickly',
+        'release the coin', 'check and release',
+        'paisa bhej diya', 'payment kar diya', 'payment ho gaya', 'release karo', 'jaldi release',
+        'abhi release', 'coin chhodo',
+        'पेमेंट कर दिया', 'पैसा भेज दिया', 'रिलीज़ करो', 'जल्दी रिलीज'
+      ],
+      enabled: true
+    },
+    {
+      id: 'OVERPAYMENT_REFUND',
+      category: 'REFUND_SCAM',
+      description: 'Claims an overpayment or mistaken transfer and asks for money back',
+      phrases: [
+        'sent extra', 'paid extra', 'sent by mistake', 'wrong amount', 'refund the extra',
+        'return the extra', 'send back the extra',
+        'galti se bhej', 'zyada bhej diya', 'extra paisa wapas', 'refund karo', 'paise wapas karo',
+        'paisa wapas bhejo',
+        'गलती से भेज', 'ज्यादा भेज दिया', 'पैसे वापस'
+      ],
+      enabled: true
+    },
+    {
+      id: 'URGENCY',
+      category: 'URGENCY',
+      description: 'General urgency and pressure',
+      phrases: [
+        'urgent', 'hurry', 'quick', 'fast', 'emergency', 'problem',
+        'jaldi', 'turant', 'jaldi karo',
+        'जल्दी', 'तुरंत'
+      ],
+      enabled: true
+    }
+  ]
+}
+
+interface PreparedPhrase {
+  patternId: string
+  category: ChatScamCategory
+  phrase: string
+  words: FoldedWord[]
+}
+
+/**
+ * Matches library phrases as consecutive words after phonetic folding
+ */
+class PhraseAnalyzer implements ChatAnalyzer {
+  name = 'phrases'
+  private cache = new WeakMap<ChatPhraseLibrary, PreparedPhrase[]>()
+
+  analyze(messages: ChatMessageInput[], library: ChatPhraseLibrary): ChatFinding[] {
+    const phrases = this.prepare(library)
+    const findings: ChatFinding[] = []
+
+    for (const message of messages) {
+      const words = tokenize(message.content)
+      const folded = words.map(word => foldWord(word))
+      const matchedPatterns = new Set<string>()
+
+      for (const phrase of phrases) {
+        // One finding per pattern per message is enough evidence
+        if (matchedPatterns.has(phrase.patternId)) continue
+
+        const start = this.indexOf(folded, phrase.words)
+        if (start === -1) continue
+
+        matchedPatterns.add(phrase.patternId)
+        findings.push({
+          analyzer: this.name,
+          category: phrase.category,
+          patternId: phrase.patternId,
+          messageId: message.id,
+          phrase: phrase.phrase,
+          matchedText: words.slice(start, start + phrase.words.length).join(' ')
+        })
+      }
+    }
+
+    return findings
+  }
+
+  private prepare(library: ChatPhraseLibrary): PreparedPhrase[] {
+    const cached = this.cache.get(library)
+    if (cached) return cached
+
+    const prepared = library.patterns
+      .filter(pattern => pattern.enabled)
+      .flatMap(pattern => pattern.phrases.map(phrase => ({
+        patternId: pattern.id,
+        category: pattern.category,
+        phrase,
+        words: tokenize(phrase).map(word => foldWord(word)).filter(word => word.folded)
+      })))
+      .filter(phrase => phrase.words.length > 0)
+      // Longer phrases first so the most specific wording is reported
+      .sort((a, b) => b.words.length - a.words.length)
+
+    this.cache.set(library, prepared)
+    return prepared
+  }
+
+  private indexOf(haystack: FoldedWord[], needle: FoldedWord[]): number {
+    for (let i = 0; i + needle.length <= haystack.length; i++) {
+      if (needle.every((keyword, j) => wordMatches(haystack[i + j], keyword))) return i
+    }
+    return -1
+  }
+}
+
+export class ChatAnalysisService {
+  private analyzers: ChatAnalyzer[] = [new PhraseAnalyzer()]
+
+  /**
+   * Add an analyzer whose findings are reported alongside the phrase matches
+   */
+  register(analyzer: ChatAnalyzer): void {
+    this.analyzers = [...this.analyzers.filter(a => a.name !== analyzer.name), analyzer]
+  }
+
+  /**
+   * Return the stored phrase library, falling back to the built-in one
+   */
+  async getLibrary(): Promise<ChatPhraseLibrary> {
+    const stored = await systemConfigService.getRaw(CHAT_PHRASES_CONFIG_KEY)
+    if (stored === undefined) return DEFAULT_CHAT_PHRASE_LIBRARY
+
+    const parsed = chatPhraseLibrarySchema.safeParse(stored)
+    if (!parsed.success) {
+      console.error('Stored chat phrase library is invalid, using default library:', parsed.error.issues)
+      return DEFAULT_CHAT_PHRASE_LIBRARY
+    }
+
+    return parsed.data
+  }
+
+  /**
+   * Validate and store a new phrase library
+   */
+  async saveLibrary(
+    library: unknown,
+    options: { updatedBy: string; ipAddress?: string | null; userAgent?: string | null }
+  ): Promise<ChatPhraseLibrary> {
+    const parsed = chatPhraseLibrarySchema.safeParse(library)
+    if (!parsed.success) {
+      throw new ChatPhraseLibraryValidationError(parsed.error.issues)
+    }
+
+    await systemConfigService.set(CHAT_PHRASES_CONFIG_KEY, parsed.data, options.updatedBy, 'Chat scam phrase library')
+
+    await auditService.log({
+      action: 'CHAT_PHRASES_UPDATED',
+      operatorId: options.updatedBy,
+      details: {
+        patternCount: parsed.data.patterns.length,
+        phraseCount: parsed.data.patterns.reduce((sum, p) => sum + p.phrases.length, 0)
+      },
+      ipAddress: options.ipAddress,
+      userAgent: options.userAgent
+    })
+
+    return parsed.data
+  }
+
+  /**
+   * Run every analyzer over the counterparty's messages. Extra urgency
+   * keywords (from the risk policy) are matched as part of the library.
+   */
+  analyze(messages: ChatMessageInput[], library: ChatPhraseLibrary, urgencyKeywords: string[] = []): ChatFinding[] {
+    const fromUser = messages.filter(message => message.isFromUser)
+    const known = new Set(library.patterns.flatMap(p => p.phrases.map(phrase => phrase.toLowerCase())))
+    const extra = urgencyKeywords.filter(keyword => !known.has(keyword.toLowerCase()))
+    const effective = extra.length > 0
+      ? {
+          patterns: [
+            ...library.patterns,
+            { id: 'POLICY_URGENCY_KEYWORDS', category: 'URGENCY' as const, phrases: extra, enabled: true }
+          ]
+        }
+      : library
+
+    return this.analyzers.flatMap(analyzer => analyzer.analyze(fromUser, effective))
+  }
+
+  /**
+   * Distinct messages with findings in a category
+   */
+  countMessages(findings: ChatFinding[], category: ChatScamCategory): number {
+    return new Set(findings.filter(f => f.category === category).map(f => f.messageId)).size
+  }
+}
+
+export const chatAnalysisService = new ChatAnalysisService()
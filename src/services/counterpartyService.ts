@@ -0,0 +1,277 @@
+/**
+ * Counterparty Service
+ *
+ * Maintains aggregated Counterparty profiles from the P2POrder history so
+ * operators and the risk engine read one trust view instead of re-deriving
+ * it from raw orders.
+ */
+
+import { Prisma } from '@prisma/client'
+import { normalizeName } from '@/lib/nameMatching'
+import { prisma } from '@/lib/prisma'
+import { linkAnalysisService } from './linkAnalysisService'
+import { ocrService } from './ocrService'
+
+export type CounterpartySortField = 'lastOrderAt' | 'totalOrders' | 'disputeCount' | 'completionRate' | 'displayName'
+
+export interface CounterpartyListQuery {
+  search?: string
+  sortBy?: CounterpartySortField
+  sortOrder?: 'asc' | 'desc'
+  limit?: number
+  cursor?: string
+}
+
+// Joins knownNames into one searchable column; never part of a normalized name
+const KNOWN_NAMES_SEPARATOR = '|'
+
+export class CounterpartyService {
+  /**
+   * Look up a profile by internal id or Binance counterparty id
+   */
+  async getProfile(idOrExternalId: string) {
+    return await prisma.counterparty.findFirst({
+      where: { OR: [{ id: idOrExternalId }, { externalId: idOrExternalId }] }
+    })
+  }
+
+  /**
+   * Return the stored profile, building it first if it does not exist yet
+   */
+  async getOrRefreshProfile(externalId: string) {
+    return (await this.getProfile(externalId)) ?? (await this.refreshProfile(externalId))
+  }
+
+  /**
+   * Recompute a counterparty's aggregates from its orders and upsert the profile
+   */
+  async refreshProfile(externalId: string) {
+    const orders = await prisma.p2POrder.findMany({
+      where: { counterpartyId: externalId },
+      select: {
+        id: true,
+        counterpartyName: true,
+        paymentMethod: true,
+        paymentAccount: true,
+        status: true,
+        createdAt: true,
+        updatedAt: true
+      },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    if (orders.length === 0) return null
+
+    const completed = orders.filter(o => o.status === 'COMPLETED')
+    const cancelled = orders.filter(o => o.status === 'CANCELLED')
+    const disputed = orders.filter(o => o.status === 'DISPUTED')
+    const finished = completed.length + cancelled.length + disputed.length
+
+    const volumes = await prisma.p2POrder.groupBy({
+      by: ['currency'],
+      where: { counterpartyId: externalId, status: 'COMPLETED' },
+      _sum: { amount: true }
+    })
+    const volumeByCurrency = Object.fromEntries(
+      volumes.map(v => [v.currency, v._sum.amount ? v._sum.amount.toNumber() : 0])
+    )
+
+    const latestKyc = await prisma.kycVerification.findFirst({
+      where: { order: { counterpartyId: externalId } },
+      orderBy: { updatedAt: 'desc' }
+    })
+
+    // Dispute history counts every order that has had a case, plus disputed orders without one
+    const disputeCases = await prisma.disputeCase.findMany({
+      where: { order: { counterpartyId: externalId } },
+      select: { orderId: true, outcome: true, createdAt: true }
+    })
+    const disputedOrderIds = new Set([
+      ...disputeCases.map(c => c.orderId),
+      ...disputed.map(o => o.id)
+    ])
+
+    const lastDispute = [
+      ...disputeCases.map(c => c.createdAt),
+      ...disputed.map(o => o.updatedAt)
+    ].reduce<Date | null>((latest, at) => (!latest || at > latest ? at : latest), null)
+
+    // Names are stored normalized so spelling and case variants collapse
+    const knownNames = this.distinct(orders.map(o => normalizeName(o.counterpartyName)))
+
+    const data = {
+      displayName: orders[orders.length - 1].counterpartyName,
+      knownNames,
+      knownNamesText: knownNames.join(KNOWN_NAMES_SEPARATOR),
+      paymentMethods: this.distinct(orders.map(o => o.paymentMethod)),
+      paymentAccounts: this.distinct([
+        ...orders.flatMap(o => (o.paymentAccount ? [o.paymentAccount] : [])),
+        ...await this.collectPaymentAccounts(externalId)
+      ]),
+      totalOrders: orders.length,
+      completedOrders: completed.length,
+      cancelledOrders: cancelled.length,
+      disputeCount: disputedOrderIds.size,
+      disputesLost: disputeCases.filter(c => c.outcome === 'MERCHANT_FAVOR').length,
+      disputesWon: disputeCases.filter(c => c.outcome === 'COUNTERPARTY_FAVOR').length,
+      completionRate: finished > 0 ? completed.length / finished : 0,
+      volumeByCurrency: volumeByCurrency as Prisma.InputJsonValue,
+      lastKycStatus: latestKyc?.status ?? null,
+      lastKycAt: latestKyc?.verifiedAt ?? latestKyc?.updatedAt ?? null,
+      firstOrderAt: orders[0].createdAt,
+      lastOrderAt: orders[orders.length - 1].createdAt,
+      lastDisputeAt: lastDispute
+    }
+
+    const profile = await prisma.counterparty.upsert({
+      where: { externalId },
+      update: data,
+      create: { externalId, ...data }
+    })
+
+    // Keep the link-analysis identifier index in step with the profile
+    await linkAnalysisService.refreshIdentifiers(externalId)
+
+    return profile
+  }
+
+  /**
+   * Reconstruct the risk-relevant part of a profile as it stood at a past
+   * moment, for backtesting. Orders count as finished only if their current
+   * terminal status was reached by then; intermediate statuses are not kept.
+   */
+  async getHistoryAsOf(externalId: string, asOf: Date) {
+    const orders = await prisma.p2POrder.findMany({
+      where: { counterpartyId: externalId, createdAt: { lte: asOf } },
+      select: { id: true, status: true, statusChangedAt: true }
+    })
+
+    const settled = (status: string) =>
+      orders.filter(o => o.status === status && o.statusChangedAt <= asOf)
+    const completed = settled('COMPLETED')
+    const disputed = settled('DISPUTED')
+    const finished = completed.length + settled('CANCELLED').length + disputed.length
+
+    const disputeCases = await prisma.disputeCase.findMany({
+      where: { order: { counterpartyId: externalId }, createdAt: { lte: asOf } },
+      select: { orderId: true, outcome: true, resolvedAt: true, createdAt: true }
+    })
+
+    const lastDisputeAt = [
+      ...disputeCases.map(c => c.createdAt),
+      ...disputed.map(o => o.statusChangedAt)
+    ].reduce<Date | null>((latest, at) => (!latest || at > latest ? at : latest), null)
+
+    return {
+      totalOrders: orders.length,
+      completionRate: finished > 0 ? completed.length / finished : 0,
+      disputeCount: new Set([...disputeCases.map(c => c.orderId), ...disputed.map(o => o.id)]).size,
+      disputesLost: disputeCases.filter(c =>
+        c.outcome === 'MERCHANT_FAVOR' && c.resolvedAt && c.resolvedAt <= asOf
+      ).length,
+      lastDisputeAt
+    }
+  }
+
+  /**
+   * Refresh a profile without letting a failure break the caller's flow
+   */
+  async syncProfile(externalId: string): Promise<void> {
+    try {
+      await this.refreshProfile(externalId)
+    } catch (error) {
+      console.error(`Counterparty profile refresh failed for ${externalId}:`, error)
+    }
+  }
+
+  /**
+   * Rebuild every profile from the order table, e.g. after a bulk import
+   */
+  async rebuildAll(): Promise<number> {
+    const counterparties = await prisma.p2POrder.findMany({
+      distinct: ['counterpartyId'],
+      select: { counterpartyId: true }
+    })
+
+    for (const { counterpartyId } of counterparties) {
+      await this.refreshProfile(counterpartyId)
+    }
+
+    return counterparties.length
+  }
+
+  /**
+   * List profiles with search, sorting and cursor pagination
+   */
+  async listProfiles(query: CounterpartyListQuery) {
+    const limit = Math.min(query.limit ?? 50, 200)
+    const sortBy = query.sortBy ?? 'lastOrderAt'
+    const sortOrder = query.sortOrder ?? 'desc'
+
+    const searchName = query.search ? normalizeName(query.search) : ''
+    const where: Prisma.CounterpartyWhereInput = query.search
+      ? {
+          OR: [
+            { externalId: query.search },
+            { displayName: { contains: query.search, mode: 'insensitive' } },
+            ...(searchName ? [{ knownNamesText: { contains: searchName, mode: 'insensitive' as const } }] : [])
+          ]
+        }
+      : {}
+
+    const [rows, totalCount] = await Promise.all([
+      prisma.counterparty.findMany({
+        where,
+        orderBy: [{ [sortBy]: { sort: sortOrder, nulls: 'last' } }, { id: sortOrder }],
+        take: limit + 1,
+        ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {})
+      }),
+      prisma.counterparty.count({ where })
+    ])
+
+    const hasMore = rows.length > limit
+    const counterparties = hasMore ? rows.slice(0, limit) : rows
+
+    return {
+      counterparties,
+      totalCount,
+      pageInfo: {
+        nextCursor: hasMore ? counterparties[counterparties.length - 1].id : null,
+        hasMore,
+        limit
+      }
+    }
+  }
+
+  /**
+   * Collect account numbers read from the counterparty's bank statements
+   */
+  private async collectPaymentAccounts(externalId: string): Promise<string[]> {
+    const statements = await prisma.document.findMany({
+      where: {
+        order: { counterpartyId: externalId },
+        fileType: 'BANK_STATEMENT',
+        ocrText: { not: null }
+      },
+      select: { ocrText: true }
+    })
+
+    const accounts: string[] = []
+    for (const statement of statements) {
+      const extracted = await ocrService.extractPatterns(statement.ocrText!, 'BANK_STATEMENT')
+      for (const [pattern, value] of Object.entries(extracted)) {
+        if (pattern.includes('ACCOUNT') && typeof value === 'string') {
+          accounts.push(value.replace(/\D/g, ''))
+        }
+      }
+    }
+
+    return this.distinct(accounts)
+  }
+
+  private distinct(values: string[]): string[] {
+    return Array.from(new Set(values.map(v => v.trim()).filter(Boolean)))
+  }
+}
+
+export const counterpartyService = new CounterpartyService()
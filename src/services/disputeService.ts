@@ -0,0 +1,523 @@
+/**
+ * Dispute Service
+ *
+ * Case management for DISPUTED orders: who opened it, why, the supervisor
+ * handling it, a notes timeline, linked chat/document evidence and the
+ * resolution, which feeds back into the counterparty profile.
+ */
+
+import { DisputeCase, DisputeStatus, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { DisputeOutcome, DisputeReason } from '@/types'
+import { alertService } from './alertService'
+import { auditService } from './auditService'
+import { counterpartyService } from './counterpartyService'
+import { orderLifecycleService } from './orderLifecycleService'
+
+export class DisputeError extends Error {
+  constructor(message: string, public readonly status: number = 422) {
+    super(message)
+    this.name = 'DisputeError'
+  }
+}
+
+export interface OpenDisputeInput {
+  orderId: string
+  openedById: string
+  reasonCategory: DisputeReason
+  description: string
+  assignedSupervisorId?: string
+}
+
+export interface AttachEvidenceInput {
+  chatMessageId?: string
+  documentId?: string
+  description?: string
+  addedById: string
+}
+
+export interface ResolveDisputeInput {
+  outcome: DisputeOutcome
+  orderStatus: 'COMPLETED' | 'CANCELLED'
+  resolutionSummary: string
+  resolvedById: string
+}
+
+export interface TimelineEntry {
+  at: Date
+  kind: 'NOTE' | 'EVENT'
+  actorId: string | null
+  summary: string
+  details?: Record<string, any>
+}
+
+const DISPUTE_INCLUDE = {
+  order: true,
+  openedBy: { select: { id: true, name: true, email: true } },
+  assignedSupervisor: { select: { id: true, name: true, email: true } },
+  resolvedBy: { select: { id: true, name: true, email: true } },
+  notes: {
+    include: { author: { select: { id: true, name: true } } },
+    orderBy: { createdAt: 'asc' as const }
+  },
+  evidence: {
+    include: { chatMessage: true, document: true },
+    orderBy: { createdAt: 'asc' as const }
+  }
+}
+
+export class DisputeService {
+  /**
+   * Open a dispute case, moving the order to DISPUTED if it is not already.
+   * The status change and the case commit together, and the case's unique
+   * openOrderId keeps concurrent requests from opening a second case.
+   */
+  async openCase(input: OpenDisputeInput) {
+    const order = await prisma.p2POrder.findUnique({ where: { id: input.orderId } })
+    if (!order) {
+      throw new DisputeError('Order not found', 404)
+    }
+
+    const existing = await prisma.disputeCase.findFirst({
+      where: { orderId: input.orderId, status: { not: 'RESOLVED' } }
+    })
+    if (existing) {
+      throw new DisputeError('Order already has an open dispute case', 409)
+    }
+
+    if (input.assignedSupervisorId) {
+      await this.requireSupervisor(input.assignedSupervisorId)
+    }
+
+    let disputeCase = null as DisputeCase | null
+    const createCase = async (tx: Prisma.TransactionClient) => {
+      disputeCase = await tx.disputeCase.create({
+        data: {
+          orderId: input.orderId,
+          openOrderId: input.orderId,
+          openedById: input.openedById,
+          reasonCategory: input.reasonCategory,
+          description: input.description,
+          assignedSupervisorId: input.assignedSupervisorId
+        }
+      })
+
+      await auditService.log({
+        action: 'DISPUTE_OPENED',
+        orderId: order.id,
+        operatorId: input.openedById,
+        details: {
+          caseId: disputeCase.id,
+          reasonCategory: input.reasonCategory,
+          assignedSupervisorId: input.assignedSupervisorId ?? null
+        }
+      }, tx)
+
+      await alertService.raise({
+        orderId: order.id,
+        type: 'DISPUTE_OPENED',
+        severity: 'HIGH',
+        message: `Dispute opened on order ${order.binanceOrderId}: ${input.reasonCategory}`,
+        details: { caseId: disputeCase.id }
+      }, tx)
+    }
+
+    try {
+      if (order.status !== 'DISPUTED') {
+        await orderLifecycleService.transitionOrder(order.id, 'DISPUTED', {
+          operatorId: input.openedById,
+          reason: `Dispute opened: ${input.reasonCategory}`,
+          within: createCase
+        })
+      } else {
+        await prisma.$transaction(createCase)
+      }
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new DisputeError('Order already has an open dispute case', 409)
+      }
+      throw error
+    }
+
+    return disputeCase!
+  }
+
+  /**
+   * Fetch a case with its notes, evidence and a merged timeline
+   */
+  async getCase(caseId: string) {
+    const disputeCase = await prisma.disputeCase.findUnique({
+      where: { id: caseId },
+      include: DISPUTE_INCLUDE
+    })
+    if (!disputeCase) {
+      throw new DisputeError('Dispute case not found', 404)
+    }
+
+    return { ...disputeCase, timeline: await this.buildTimeline(disputeCase) }
+  }
+
+  /**
+   * List cases, most recent first
+   */
+  async listCases(filters: { status?: DisputeStatus; orderId?: string; supervisorId?: string } = {}) {
+    return await prisma.disputeCase.findMany({
+      where: {
+        status: filters.status,
+        orderId: filters.orderId,
+        assignedSupervisorId: filters.supervisorId
+      },
+      include: {
+        order: { select: { id: true, binanceOrderId: true, counterpartyName: true, amount: true, currency: true } },
+        assignedSupervisor: { select: { id: true, name: true } }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 100
+    })
+  }
+
+  /**
+   * Assign the supervisor responsible for the case
+   */
+  async assignSupervisor(caseId: string, supervisorId: string, assignedBy: string) {
+    const disputeCase = await this.requireOpenCase(caseId)
+    await this.requireSupervisor(supervisorId)
+
+    const updated = await prisma.disputeCase.update({
+      where: { id: caseId },
+      data: { assignedSupervisorId: supervisorId, status: 'UNDER_REVIEW' }
+    })
+
+    await auditService.log({
+      action: 'DISPUTE_SUPERVISOR_ASSIGNED',
+      orderId: disputeCase.orderId,
+      operatorId: assignedBy,
+      details: {
+        caseId,
+        previousSupervisorId: disputeCase.assignedSupervisorId,
+        supervisorId
+      }
+    })
+
+    return updated
+  }
+
+  /**
+   * Append a note to the case timeline
+   */
+  async addNote(caseId: string, authorId: string, content: string) {
+    const disputeCase = await this.requireOpenCase(caseId)
+
+    const note = await prisma.disputeNote.create({
+      data: { caseId, authorId, content }
+    })
+
+    await auditService.log({
+      action: 'DISPUTE_NOTE_ADDED',
+      orderId: disputeCase.orderId,
+      operatorId: authorId,
+      details: { caseId, noteId: note.id }
+    })
+
+    return note
+  }
+
+  /**
+   * Link an existing chat message or document from the disputed order as evidence
+   */
+  async attachEvidence(caseId: string, input: AttachEvidenceInput) {
+    const disputeCase = await this.requireOpenCase(caseId)
+
+    if (!!input.chatMessageId === !!input.documentId) {
+      throw new DisputeError('Provide exactly one of chatMessageId or documentId', 400)
+    }
+
+    if (input.chatMessageId) {
+      const message = await prisma.chatMessage.findUnique({ where: { id: input.chatMessageId } })
+      if (!message || message.orderId !== disputeCase.orderId) {
+        throw new DisputeError('Chat message does not belong to the disputed order')
+      }
+    } else {
+      const document = await prisma.document.findUnique({ where: { id: input.documentId! } })
+      if (!document || document.orderId !== disputeCase.orderId) {
+        throw new DisputeError('Document does not belong to the disputed order')
+      }
+    }
+
+    const alreadyLinked = await prisma.disputeEvidence.findFirst({
+      where: input.chatMessageId
+        ? { caseId, chatMessageId: input.chatMessageId }
+        : { caseId, documentId: input.documentId }
+    })
+    if (alreadyLinked) {
+      throw new DisputeError('Evidence is already attached to this case', 409)
+    }
+
+    const evidence = await prisma.disputeEvidence.create({
+      data: {
+        caseId,
+        type: input.chatMessageId ? 'CHAT_MESSAGE' : 'DOCUMENT',
+        chatMessageId: input.chatMessageId,
+        documentId: input.documentId,
+        description: input.description,
+        addedById: input.addedById
+      }
+    })
+
+    await auditService.log({
+      action: 'DISPUTE_EVIDENCE_ADDED',
+      orderId: disputeCase.orderId,
+      operatorId: input.addedById,
+      details: {
+        caseId,
+        evidenceId: evidence.id,
+        type: evidence.type,
+        chatMessageId: input.chatMessageId ?? null,
+        documentId: input.documentId ?? null
+      }
+    })
+
+    return evidence
+  }
+
+  /**
+   * Resolve the case, settle the order status and update the counterparty's dispute history
+   */
+  async resolve(caseId: string, input: ResolveDisputeInput) {
+    const disputeCase = await this.requireOpenCase(caseId)
+    await this.requireSupervisor(input.resolvedById)
+
+    const resolveCase = (tx: Prisma.TransactionClient) => tx.disputeCase.update({
+      where: { id: caseId },
+      data: {
+        status: 'RESOLVED',
+        outcome: input.outcome,
+        resolutionSummary: input.resolutionSummary,
+        resolvedById: input.resolvedById,
+        resolvedAt: new Date(),
+        openOrderId: null
+      },
+      include: { order: { select: { counterpartyId: true } } }
+    })
+
+    let resolved = null as Awaited<ReturnType<typeof resolveCase>> | null
+    await orderLifecycleService.transitionOrder(disputeCase.orderId, input.orderStatus, {
+      operatorId: input.resolvedById,
+      reason: `Dispute resolved: ${input.outcome}`,
+      within: async tx => {
+        resolved = await resolveCase(tx)
+      }
+    })
+
+    await auditService.log({
+      action: 'DISPUTE_RESOLVED',
+      orderId: disputeCase.orderId,
+      operatorId: input.resolvedById,
+      details: {
+        caseId,
+        outcome: input.outcome,
+        orderStatus: input.orderStatus
+      }
+    })
+
+    await alertService.resolveForOrder(disputeCase.orderId, ['DISPUTE_OPENED'])
+    await counterpartyService.syncProfile(resolved!.order.counterpartyId)
+
+    return resolved!
+  }
+
+  /**
+   * Assemble everything needed to submit the case to the exchange
+   */
+  async buildEvidenceBundle(caseId: string) {
+    const disputeCase = await this.getCase(caseId)
+    const { order } = disputeCase
+
+    const chatTranscript = await prisma.chatMessage.findMany({
+      where: { orderId: order.id },
+      orderBy: { timestamp: 'asc' }
+    })
+
+    return {
+      generatedAt: new Date().toISOString(),
+      case: {
+        id: disputeCase.id,
+        status: disputeCase.status,
+        reasonCategory: disputeCase.reasonCategory,
+        description: disputeCase.description,
+        openedBy: disputeCase.openedBy,
+        assignedSupervisor: disputeCase.assignedSupervisor,
+        openedAt: disputeCase.createdAt,
+        outcome: disputeCase.outcome,
+        resolutionSummary: disputeCase.resolutionSummary,
+        resolvedAt: disputeCase.resolvedAt
+      },
+      order: {
+        id: order.id,
+        binanceOrderId: order.binanceOrderId,
+        orderType: order.orderType,
+        amount: order.amount.toString(),
+        price: order.price.toString(),
+        currency: order.currency,
+        paymentMethod: order.paymentMethod,
+        counterpartyId: order.counterpartyId,
+        counterpartyName: order.counterpartyName,
+        createdAt: order.createdAt
+      },
+      evidence: disputeCase.evidence.map(item => ({
+        id: item.id,
+        type: item.type,
+        description: item.description,
+        addedAt: item.createdAt,
+        chatMessage: item.chatMessage && {
+          id: item.chatMessage.id,
+          timestamp: item.chatMessage.timestamp,
+          fromCounterparty: item.chatMessage.isFromUser,
+          content: item.chatMessage.content
+        },
+        document: item.document && {
+          id: item.document.id,
+          filename: item.document.filename,
+          fileType: item.document.fileType,
+          uploadedAt: item.document.uploadedAt,
+          originalUrl: item.document.originalUrl,
+          ocrText: item.document.ocrText
+        }
+      })),
+      chatTranscript: chatTranscript.map(message => ({
+        timestamp: message.timestamp,
+        fromCounterparty: message.isFromUser,
+        content: message.content
+      })),
+      timeline: disputeCase.timeline
+    }
+  }
+
+  /**
+   * Render an evidence bundle as a printable HTML summary
+   */
+  renderBundleSummary(bundle: Awaited<ReturnType<DisputeService['buildEvidenceBundle']>>): string {
+    const esc = (value: unknown) => String(value ?? '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+    const time = (value: Date | string | null) => (value ? new Date(value).toISOString().replace('T', ' ').slice(0, 19) + ' UTC' : '')
+
+    const evidenceRows = bundle.evidence.map(item => `
+      <tr>
+        <td>${esc(item.type)}</td>
+        <td>${esc(time(item.chatMessage?.timestamp ?? item.document?.uploadedAt ?? null))}</td>
+        <td>${item.chatMessage
+          ? `${item.chatMessage.fromCounterparty ? 'Counterparty' : 'Merchant'}: ${esc(item.chatMessage.content)}`
+          : `${esc(item.document?.filename)} (${esc(item.document?.fileType)})`}</td>
+        <td>${esc(item.description)}</td>
+      </tr>`).join('')
+
+    const transcriptRows = bundle.chatTranscript.map(message => `
+      <tr>
+        <td>${esc(time(message.timestamp))}</td>
+        <td>${message.fromCounterparty ? 'Counterparty' : 'Merchant'}</td>
+        <td>${esc(message.content)}</td>
+      </tr>`).join('')
+
+    const timelineRows = bundle.timeline.map(entry => `
+      <tr>
+        <td>${esc(time(entry.at))}</td>
+        <td>${esc(entry.kind)}</td>
+        <td>${esc(entry.summary)}</td>
+      </tr>`).join('')
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Dispute ${esc(bundle.order.binanceOrderId)}</title>
+<style>
+  body { font-family: sans-serif; font-size: 12px; margin: 24px; }
+  h1 { font-size: 18px; }
+  h2 { font-size: 14px; margin-top: 24px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #ccc; padding: 4px 6px; text-align: left; vertical-align: top; }
+  dl { display: grid; grid-template-columns: 180px 1fr; gap: 2px 12px; }
+  dt { font-weight: bold; }
+</style>
+</head>
+<body>
+<h1>Dispute summary for order ${esc(bundle.order.binanceOrderId)}</h1>
+<dl>
+  <dt>Case</dt><dd>${esc(bundle.case.id)} (${esc(bundle.case.status)})</dd>
+  <dt>Reason</dt><dd>${esc(bundle.case.reasonCategory)}</dd>
+  <dt>Description</dt><dd>${esc(bundle.case.description)}</dd>
+  <dt>Opened</dt><dd>${esc(time(bundle.case.openedAt))} by ${esc(bundle.case.openedBy.name)}</dd>
+  <dt>Supervisor</dt><dd>${esc(bundle.case.assignedSupervisor?.name)}</dd>
+  <dt>Order</dt><dd>${esc(bundle.order.orderType)} ${esc(bundle.order.amount)} ${esc(bundle.order.currency)} @ ${esc(bundle.order.price)} via ${esc(bundle.order.paymentMethod)}</dd>
+  <dt>Counterparty</dt><dd>${esc(bundle.order.counterpartyName)} (${esc(bundle.order.counterpartyId)})</dd>
+  <dt>Outcome</dt><dd>${esc(bundle.case.outcome)} ${esc(bundle.case.resolutionSummary)}</dd>
+</dl>
+<h2>Evidence</h2>
+<table><tr><th>Type</th><th>Time</th><th>Content</th><th>Note</th></tr>${evidenceRows}</table>
+<h2>Chat transcript</h2>
+<table><tr><th>Time</th><th>From</th><th>Message</th></tr>${transcriptRows}</table>
+<h2>Case timeline</h2>
+<table><tr><th>Time</th><th>Kind</th><th>Summary</th></tr>${timelineRows}</table>
+<p>Generated ${esc(time(bundle.generatedAt))}</p>
+</body>
+</html>`
+  }
+
+  /**
+   * Merge notes with the case's audit events into one chronological timeline
+   */
+  private async buildTimeline(disputeCase: {
+    id: string
+    orderId: string
+    notes: Array<{ createdAt: Date; authorId: string; content: string; author: { name: string } }>
+  }): Promise<TimelineEntry[]> {
+    const events = await prisma.auditLog.findMany({
+      where: { orderId: disputeCase.orderId, action: { startsWith: 'DISPUTE_' } },
+      orderBy: { timestamp: 'asc' }
+    })
+
+    const entries: TimelineEntry[] = [
+      ...events
+        .filter(event => (event.details as Record<string, any>)?.caseId === disputeCase.id)
+        .map(event => ({
+          at: event.timestamp,
+          kind: 'EVENT' as const,
+          actorId: event.operatorId,
+          summary: event.action,
+          details: event.details as Record<string, any>
+        })),
+      ...disputeCase.notes.map(note => ({
+        at: note.createdAt,
+        kind: 'NOTE' as const,
+        actorId: note.authorId,
+        summary: `${note.author.name}: ${note.content}`
+      }))
+    ]
+
+    return entries.sort((a, b) => a.at.getTime() - b.at.getTime())
+  }
+
+  private async requireOpenCase(caseId: string) {
+    const disputeCase = await prisma.disputeCase.findUnique({ where: { id: caseId } })
+    if (!disputeCase) {
+      throw new DisputeError('Dispute case not found', 404)
+    }
+    if (disputeCase.status === 'RESOLVED') {
+      throw new DisputeError('Dispute case is already resolved', 409)
+    }
+    return disputeCase
+  }
+
+  private async requireSupervisor(operatorId: string) {
+    const operator = await prisma.operator.findUnique({ where: { id: operatorId } })
+    if (!operator || !operator.isActive || operator.role !== 'SUPERVISOR') {
+      throw new DisputeError('Operator must be an active supervisor')
+    }
+    return operator
+  }
+}
+
+export const disputeService = new DisputeService()
@@ -0,0 +1,259 @@
+/**
+ * FX Rate Service
+ *
+ * Maintains the local FX rate table used to normalise order amounts to the
+ * base currency before risk thresholds, averages and velocity checks. Rates
+ * are entered through the admin API or seeded from data/fx-rates.json, and
+ * are kept by effective date so an order converts at the rate of its day.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { auditService } from './auditService'
+import { systemConfigService } from './systemConfigService'
+
+export interface FxConfig {
+  baseCurrency: string
+}
+
+const CONFIG_KEY = 'fx_config'
+
+export const DEFAULT_FX_CONFIG: FxConfig = {
+  baseCurrency: 'USD'
+}
+
+export const FX_SEED_FILE = path.join(process.cwd(), 'data', 'fx-rates.json')
+
+const currencyCode = z.string().trim().toUpperCase().regex(/^[A-Z0-9]{2,10}$/, 'Currency codes are 2-10 letters or digits')
+
+export const fxRateUpdateSchema = z.object({
+  rates: z.array(z.object({
+    currency: currencyCode,
+    // Base currency units per one unit of `currency`
+    rate: z.number().positive(),
+    effectiveAt: z.coerce.date().optional()
+  })).min(1),
+  updatedBy: z.string().min(1)
+})
+
+export type FxRateUpdate = z.infer<typeof fxRateUpdateSchema>
+
+const seedFileSchema = z.object({
+  baseCurrency: currencyCode,
+  effectiveAt: z.coerce.date(),
+  rates: z.record(z.number().positive())
+})
+
+export class FxRateError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message)
+    this.name = 'FxRateError'
+  }
+}
+
+export interface FxConversion {
+  amount: number
+  rate: number
+  // When the rate used took effect; null for the base currency itself
+  effectiveAt: Date | null
+}
+
+/**
+ * Converts amounts to the base currency with rates loaded up front, so a
+ * batch of orders (velocity windows, backtests) needs a single query
+ */
+export interface FxConverter {
+  baseCurrency: string
+  convert(amount: number, currency: string, at: Date): FxConversion | null
+}
+
+interface LoadedRate {
+  rate: number
+  effectiveAt: Date
+}
+
+export class FxRateService {
+  async getConfig(): Promise<FxConfig> {
+    return await systemConfigService.get(CONFIG_KEY, DEFAULT_FX_CONFIG)
+  }
+
+  /**
+   * Latest rate per currency in the configured base currency
+   */
+  async getCurrentRates() {
+    const { baseCurrency } = await this.getConfig()
+    const rates = await prisma.fxRate.findMany({
+      where: { baseCurrency },
+      orderBy: [{ currency: 'asc' }, { effectiveAt: 'desc' }]
+    })
+
+    const latest = new Map<string, (typeof rates)[number]>()
+    for (const rate of rates) {
+      if (!latest.has(rate.currency)) latest.set(rate.currency, rate)
+    }
+
+    return {
+      baseCurrency,
+      rates: Array.from(latest.values()).map(rate => ({
+        currency: rate.currency,
+        rate: rate.rate.toNumber(),
+        effectiveAt: rate.effectiveAt,
+        source: rate.source,
+        createdBy: rate.createdBy
+      }))
+    }
+  }
+
+  /**
+   * Rate history for one currency, newest first
+   */
+  async listRates(currency: string) {
+    const { baseCurrency } = await this.getConfig()
+    const rates = await prisma.fxRate.findMany({
+      where: { baseCurrency, currency: currency.toUpperCase() },
+      orderBy: { effectiveAt: 'desc' }
+    })
+
+    return rates.map(rate => ({ ...rate, rate: rate.rate.toNumber() }))
+  }
+
+  /**
+   * Record rates in the base currency; a rate for an existing currency and
+   * effective date replaces it
+   */
+  async setRates(
+    update: FxRateUpdate,
+    options: { ipAddress?: string | null; userAgent?: string | null } = {}
+  ): Promise<number> {
+    const { baseCurrency } = await this.getConfig()
+    const now = new Date()
+
+    const base = update.rates.find(r => r.currency === baseCurrency)
+    if (base && base.rate !== 1) {
+      throw new FxRateError(`The base currency ${baseCurrency} always has rate 1`)
+    }
+
+    const rates = update.rates.map(r => ({ ...r, effectiveAt: r.effectiveAt ?? now }))
+    await this.storeRates(baseCurrency, rates, 'MANUAL', update.updatedBy)
+
+    await auditService.log({
+      action: 'FX_RATES_UPDATED',
+      operatorId: update.updatedBy,
+      details: {
+        baseCurrency,
+        rates: rates.map(r => ({ currency: r.currency, rate: r.rate, effectiveAt: r.effectiveAt.toISOString() }))
+      },
+      ipAddress: options.ipAddress,
+      userAgent: options.userAgent
+    })
+
+    return rates.length
+  }
+
+  /**
+   * Load the rates in the local seed file
+   */
+  async seedFromFile(
+    options: { updatedBy: string; ipAddress?: string | null; userAgent?: string | null }
+  ): Promise<number> {
+    let contents: unknown
+    try {
+      contents = JSON.parse(await fs.readFile(FX_SEED_FILE, 'utf8'))
+    } catch (error) {
+      throw new FxRateError(`FX seed file ${FX_SEED_FILE} could not be read: ${(error as Error).message}`, 500)
+    }
+
+    const parsed = seedFileSchema.safeParse(contents)
+    if (!parsed.success) {
+      throw new FxRateError(`FX seed file is invalid: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}`, 500)
+    }
+
+    const { baseCurrency } = await this.getConfig()
+    if (parsed.data.baseCurrency !== baseCurrency) {
+      throw new FxRateError(
+        `FX seed file is in ${parsed.data.baseCurrency} but the base currency is ${baseCurrency}`,
+        409
+      )
+    }
+
+    const rates = Object.entries(parsed.data.rates).map(([currency, rate]) => ({
+      currency: currency.toUpperCase(),
+      rate,
+      effectiveAt: parsed.data.effectiveAt
+    }))
+    await this.storeRates(baseCurrency, rates, 'SEED', options.updatedBy)
+
+    await auditService.log({
+      action: 'FX_RATES_SEEDED',
+      operatorId: options.updatedBy,
+      details: {
+        baseCurrency,
+        effectiveAt: parsed.data.effectiveAt.toISOString(),
+        currencies: rates.map(r => r.currency)
+      },
+      ipAddress: options.ipAddress,
+      userAgent: options.userAgent
+    })
+
+    return rates.length
+  }
+
+  /**
+   * Build a converter over the full rate table. An order converts at the
+   * latest rate effective at its time, or the earliest known rate when it
+   * predates the table; currencies without any rate do not convert.
+   */
+  async getConverter(): Promise<FxConverter> {
+    const { baseCurrency } = await this.getConfig()
+    const rows = await prisma.fxRate.findMany({
+      where: { baseCurrency },
+      select: { currency: true, rate: true, effectiveAt: true },
+      orderBy: { effectiveAt: 'asc' }
+    })
+
+    const byCurrency = new Map<string, LoadedRate[]>()
+    for (const row of rows) {
+      const list = byCurrency.get(row.currency) ?? []
+      list.push({ rate: row.rate.toNumber(), effectiveAt: row.effectiveAt })
+      byCurrency.set(row.currency, list)
+    }
+
+    return {
+      baseCurrency,
+      convert(amount: number, currency: string, at: Date): FxConversion | null {
+        const code = currency.toUpperCase()
+        if (code === baseCurrency) return { amount, rate: 1, effectiveAt: null }
+
+        const history = byCurrency.get(code)
+        if (!history || history.length === 0) return null
+
+        let applicable = history[0]
+        for (const entry of history) {
+          if (entry.effectiveAt.getTime() > at.getTime()) break
+          applicable = entry
+        }
+
+        return { amount: amount * applicable.rate, rate: applicable.rate, effectiveAt: applicable.effectiveAt }
+      }
+    }
+  }
+
+  private async storeRates(
+    baseCurrency: string,
+    rates: Array<{ currency: string; rate: number; effectiveAt: Date }>,
+    source: 'MANUAL' | 'SEED',
+    createdBy: string
+  ): Promise<void> {
+    await prisma.$transaction(rates.map(r => prisma.fxRate.upsert({
+      where: {
+        currency_baseCurrency_effectiveAt: { currency: r.currency, baseCurrency, effectiveAt: r.effectiveAt }
+      },
+      update: { rate: r.rate, source, createdBy },
+      create: { currency: r.currency, baseCurrency, rate: r.rate, effectiveAt: r.effectiveAt, source, createdBy }
+    })))
+  }
+}
+
+export const fxRateService = new FxRateService()
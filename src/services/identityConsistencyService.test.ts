@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from 'vitest'
+import { ComparedValue, ConsistencyMismatch, identityConsistencyService } from './identityConsistencyService'
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+function value(sourceRef: string, label: string, text: string): ComparedValue {
+  return { source: 'DOCUMENT', sourceRef, label, value: text }
+}
+
+function mismatch(field: ConsistencyMismatch['field'], left: ComparedValue, right: ComparedValue): ConsistencyMismatch {
+  return { field, left, right, message: `${left.value} vs ${right.value}` }
+}
+
+describe('summarize', () => {
+  const order = { ...value('order-1', 'Binance counterparty name', 'RAHUL SHARMA'), source: 'ORDER' as const }
+  const pan = value('doc-1', 'PAN card', 'RAHUL SHARMA')
+  const bank = value('doc-2', 'Bank statement', 'ANIL KUMAR')
+  const receipt = value('doc-3', 'Payment receipt', 'SURESH PATEL')
+
+  it('reports each mismatched field once however many pairs disagree', () => {
+    const summary = identityConsistencyService.summarize([
+      mismatch('fullName', order, bank),
+      mismatch('fullName', order, receipt),
+      mismatch('fullName', pan, bank),
+      mismatch('fullName', pan, receipt),
+      mismatch('fullName', bank, receipt),
+      mismatch('dateOfBirth', value('doc-1', 'PAN card', '1990-01-01'), value('doc-4', 'Aadhaar card', '1991-01-01'))
+    ])
+
+    expect(summary).toEqual([
+      'Name mismatch across 4 sources: "RAHUL SHARMA" (Binance counterparty name, PAN card) vs "ANIL KUMAR" (Bank statement) vs "SURESH PATEL" (Payment receipt)',
+      'Date of birth mismatch across 2 sources: "1990-01-01" (PAN card) vs "1991-01-01" (Aadhaar card)'
+    ])
+  })
+
+  it('is empty without mismatches', () => {
+    expect(identityConsistencyService.summarize([])).toEqual([])
+  })
+})
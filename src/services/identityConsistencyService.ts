@@ -0,0 +1,358 @@
+/**
+ * Identity Consistency Service
+ *
+ * Cross-checks the identity details an order's documents give: the Binance
+ * counterparty name, names, dates of birth and document numbers on ID
+ * documents (KYC extractions or OCR), the bank statement account holder and
+ * the payer on payment receipts, and the documents on the counterparty's
+ * earlier orders. Every disagreement is reported side by side for review.
+ */
+
+import { z } from 'zod'
+import { parseDocumentDate, toIsoDate } from '@/lib/dates'
+import { DocumentProfileResult } from '@/lib/indianDocuments'
+import { MrzResult } from '@/lib/mrz'
+import { initialsAwareSimilarity } from '@/lib/nameMatching'
+import { prisma } from '@/lib/prisma'
+import { verifiedValues } from './kycReviewService'
+import { DOCUMENT_PROFILE_FIELD, ID_DOCUMENT_TYPES, MRZ_FIELD, ocrService } from './ocrService'
+import { systemConfigService } from './systemConfigService'
+
+export type IdentitySource = 'ORDER' | 'DOCUMENT' | 'PAST_ORDER'
+
+export type IdentityField = 'fullName' | 'dateOfBirth' | 'documentNumber'
+
+export interface IdentityObservation {
+  source: IdentitySource
+  // Order or document id
+  sourceRef: string
+  // Where the details were read, for operators
+  label: string
+  documentType?: string
+  fullName?: string
+  // YYYY-MM-DD, or YYYY when only the year is printed
+  dateOfBirth?: string
+  documentNumber?: string
+}
+
+export interface ComparedValue {
+  source: IdentitySource
+  sourceRef: string
+  label: string
+  value: string
+}
+
+export interface ConsistencyMismatch {
+  field: IdentityField
+  left: ComparedValue
+  right: ComparedValue
+  // Name similarity, 0 to 1, for name mismatches
+  similarity?: number
+  message: string
+}
+
+export interface ConsistencyReport {
+  orderId: string
+  counterpartyId: string
+  observations: IdentityObservation[]
+  mismatches: ConsistencyMismatch[]
+  nameMatchThreshold: number
+  checkedAt: Date
+}
+
+export interface ConsistencyConfig {
+  // Names scoring below this are reported as different
+  nameMatchThreshold: number
+  // Earlier orders of the counterparty whose documents are compared
+  pastOrderLimit: number
+}
+
+const CONFIG_KEY = 'identity_consistency'
+
+export const DEFAULT_CONSISTENCY_CONFIG: ConsistencyConfig = {
+  nameMatchThreshold: 0.85,
+  pastOrderLimit: 20
+}
+
+const consistencyQuerySchema = z.object({
+  orderId: z.string().min(1)
+})
+
+export class IdentityConsistencyError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message)
+    this.name = 'IdentityConsistencyError'
+  }
+}
+
+const PAYMENT_RECEIPT_TYPES = ['PAYMENT_RECEIPT', 'PAYMENT_PROOF']
+
+const ACCOUNT_HOLDER_PATTERN = /(?:account\s*holder(?:'s)?|a\/c\s*holder|account\s*name|customer\s*name)(?:\s*name)?\s*:?\s*([A-Za-z][A-Za-z .']+)/i
+const PAYER_PATTERN = /(?:payer|sender|remitter|paid\s*by)(?:'s)?(?:\s*name)?\s*:?\s*([A-Za-z][A-Za-z .']+)/i
+
+const FIELD_LABELS: Record<IdentityField, string> = {
+  fullName: 'Name',
+  dateOfBirth: 'Date of birth',
+  documentNumber: 'Document number'
+}
+
+type ConsistencyDocument = {
+  id: string
+  fileType: string
+  ocrText: string | null
+  kycData: { extractedData: unknown; verifiedFields: unknown } | null
+}
+
+export class IdentityConsistencyService {
+  parseQuery(searchParams: URLSearchParams) {
+    return consistencyQuerySchema.safeParse(Object.fromEntries(searchParams.entries()))
+  }
+
+  async getConfig(): Promise<ConsistencyConfig> {
+    return await systemConfigService.get(CONFIG_KEY, DEFAULT_CONSISTENCY_CONFIG)
+  }
+
+  /**
+   * Compare every identity detail on an order, and on the counterparty's
+   * earlier orders, with every other
+   */
+  async check(orderId: string): Promise<ConsistencyReport> {
+    const config = await this.getConfig()
+    const documentSelect = { id: true, fileType: true, ocrText: true, kycData: { select: { extractedData: true, verifiedFields: true } } }
+
+    const order = await prisma.p2POrder.findUnique({
+      where: { id: orderId },
+      select: { id: true, counterpartyId: true, counterpartyName: true, createdAt: true, documents: { select: documentSelect } }
+    })
+    if (!order) throw new IdentityConsistencyError('Order not found', 404)
+
+    const pastOrders = await prisma.p2POrder.findMany({
+      where: { counterpartyId: order.counterpartyId, id: { not: order.id }, createdAt: { lte: order.createdAt } },
+      orderBy: { createdAt: 'desc' },
+      take: config.pastOrderLimit,
+      select: { id: true, binanceOrderId: true, documents: { select: documentSelect } }
+    })
+
+    const current: IdentityObservation[] = [
+      { source: 'ORDER', sourceRef: order.id, label: 'Binance counterparty name', fullName: order.counterpartyName }
+    ]
+    for (const document of order.documents) {
+      const observation = await this.fromDocument(document, 'DOCUMENT', this.documentLabel(document.fileType))
+      if (observation) current.push(observation)
+    }
+
+    // The same document resubmitted on every order is compared once
+    const past = new Map<string, IdentityObservation>()
+    for (const pastOrder of pastOrders) {
+      for (const document of pastOrder.documents) {
+        const label = `${this.documentLabel(document.fileType)} on order ${pastOrder.binanceOrderId}`
+        const observation = await this.fromDocument(document, 'PAST_ORDER', label)
+        if (!observation) continue
+
+        const key = [observation.documentType, observation.fullName, observation.dateOfBirth, observation.documentNumber].join('|')
+        if (!past.has(key)) past.set(key, observation)
+      }
+    }
+
+    const mismatches: ConsistencyMismatch[] = []
+    for (let i = 0; i < current.length; i++) {
+      for (let j = i + 1; j < current.length; j++) {
+        mismatches.push(...this.compare(current[i], current[j], config))
+      }
+      // Earlier orders' documents were checked against each other at the time
+      for (const observation of Array.from(past.values())) {
+        mismatches.push(...this.compare(current[i], observation, config))
+      }
+    }
+
+    return {
+      orderId: order.id,
+      counterpartyId: order.counterpartyId,
+      observations: [...current, ...Array.from(past.values())],
+      mismatches,
+      nameMatchThreshold: config.nameMatchThreshold,
+      checkedAt: new Date()
+    }
+  }
+
+  /**
+   * One line per mismatched field, listing each distinct value with the
+   * sources that gave it, so N disagreeing sources do not yield N² lines
+   */
+  summarize(mismatches: ConsistencyMismatch[]): string[] {
+    const byField = new Map<IdentityField, Map<string, Map<string, string>>>()
+
+    for (const mismatch of mismatches) {
+      const values = byField.get(mismatch.field) ?? new Map<string, Map<string, string>>()
+      byField.set(mismatch.field, values)
+
+      for (const side of [mismatch.left, mismatch.right]) {
+        const sources = values.get(side.value) ?? new Map<string, string>()
+        values.set(side.value, sources)
+        sources.set(`${side.source}:${side.sourceRef}`, side.label)
+      }
+    }
+
+    return Array.from(byField.entries()).map(([field, values]) => {
+      const sourceCount = Array.from(values.values()).reduce((sum, sources) => sum + sources.size, 0)
+      const listed = Array.from(values.entries())
+        .map(([value, sources]) => `"${value}" (${Array.from(sources.values()).join(', ')})`)
+        .join(' vs ')
+      return `${FIELD_LABELS[field]} mismatch across ${sourceCount} sources: ${listed}`
+    })
+  }
+
+  /**
+   * Identity details from a document: its stored KYC extraction when there is
+   * one, otherwise read from the OCR text by document type
+   */
+  private async fromDocument(
+    document: ConsistencyDocument,
+    source: IdentitySource,
+    label: string
+  ): Promise<IdentityObservation | null> {
+    const base = { source, sourceRef: document.id, label, documentType: document.fileType }
+    const stored = document.kycData?.extractedData as Record<string, any> | null | undefined
+    // Values an operator corrected in manual review win over what was read
+    const corrected = verifiedValues(document.kycData?.verifiedFields)
+
+    if (stored && typeof stored === 'object') {
+      return this.observation(base, {
+        fullName: corrected.fullName ?? stored.fullName ?? stored.name,
+        dateOfBirth: corrected.dateOfBirth ?? stored.dateOfBirth ?? stored.yearOfBirth,
+        documentNumber: corrected.documentNumber ?? stored.documentNumber
+      })
+    }
+    if (!document.ocrText) return null
+
+    if (document.fileType === 'BANK_STATEMENT') {
+      return this.observation(base, { fullName: document.ocrText.match(ACCOUNT_HOLDER_PATTERN)?.[1] })
+    }
+    if (PAYMENT_RECEIPT_TYPES.includes(document.fileType)) {
+      return this.observation(base, { fullName: document.ocrText.match(PAYER_PATTERN)?.[1] })
+    }
+    if (!ID_DOCUMENT_TYPES.includes(document.fileType)) return null
+
+    const extracted = await ocrService.extractPatterns(document.ocrText, document.fileType)
+    const mrz = extracted[MRZ_FIELD] as MrzResult | undefined
+    const profile = extracted[DOCUMENT_PROFILE_FIELD] as DocumentProfileResult | undefined
+
+    if (mrz) {
+      return this.observation(base, {
+        fullName: [mrz.givenNames, mrz.surname].filter(Boolean).join(' '),
+        dateOfBirth: mrz.dateOfBirth,
+        documentNumber: mrz.documentNumber
+      })
+    }
+    if (profile) {
+      return this.observation(base, {
+        fullName: profile.fields.fullName,
+        dateOfBirth: profile.fields.dateOfBirth ?? profile.fields.yearOfBirth,
+        documentNumber: profile.fields.documentNumber
+      })
+    }
+
+    // Printed text patterns, keyed by their regex source as in KYC extraction
+    const printed = (key: string) => Object.entries(extracted).find(([pattern, value]) =>
+      pattern.includes(key) && typeof value === 'string'
+    )?.[1] as string | undefined
+
+    return this.observation(base, {
+      fullName: printed('NAME'),
+      dateOfBirth: printed('DOB'),
+      documentNumber: printed('NUMBER')
+    })
+  }
+
+  private observation(
+    base: Omit<IdentityObservation, IdentityField>,
+    values: { fullName?: unknown; dateOfBirth?: unknown; documentNumber?: unknown }
+  ): IdentityObservation | null {
+    const fullName = typeof values.fullName === 'string' ? values.fullName.replace(/\s+/g, ' ').trim() : ''
+    const dateOfBirth = this.normalizeDate(values.dateOfBirth)
+    const documentNumber = typeof values.documentNumber === 'string' ? values.documentNumber.trim() : ''
+
+    if (!fullName && !dateOfBirth && !documentNumber) return null
+    return {
+      ...base,
+      ...(fullName && { fullName }),
+      ...(dateOfBirth && { dateOfBirth }),
+      ...(documentNumber && { documentNumber })
+    }
+  }
+
+  private compare(a: IdentityObservation, b: IdentityObservation, config: ConsistencyConfig): ConsistencyMismatch[] {
+    const mismatches: ConsistencyMismatch[] = []
+
+    if (a.fullName && b.fullName) {
+      const similarity = initialsAwareSimilarity(a.fullName, b.fullName)
+      if (similarity < config.nameMatchThreshold) {
+        mismatches.push(this.mismatch('fullName', a, b, Math.round(similarity * 100) / 100))
+      }
+    }
+
+    if (a.dateOfBirth && b.dateOfBirth) {
+      // A year of birth only agrees or disagrees on the year
+      const length = Math.min(a.dateOfBirth.length, b.dateOfBirth.length)
+      if (a.dateOfBirth.slice(0, length) !== b.dateOfBirth.slice(0, length)) {
+        mismatches.push(this.mismatch('dateOfBirth', a, b))
+      }
+    }
+
+    // Different kinds of document carry different numbers
+    if (a.documentNumber && b.documentNumber && a.documentType && a.documentType === b.documentType) {
+      if (!this.sameDocumentNumber(a.documentNumber, b.documentNumber)) {
+        mismatches.push(this.mismatch('documentNumber', a, b))
+      }
+    }
+
+    return mismatches
+  }
+
+  private mismatch(field: IdentityField, a: IdentityObservation, b: IdentityObservation, similarity?: number): ConsistencyMismatch {
+    const left = { source: a.source, sourceRef: a.sourceRef, label: a.label, value: a[field]! }
+    const right = { source: b.source, sourceRef: b.sourceRef, label: b.label, value: b[field]! }
+
+    return {
+      field,
+      left,
+      right,
+      ...(similarity !== undefined && { similarity }),
+      message: `${FIELD_LABELS[field]} mismatch: ${left.label} "${left.value}" vs ${right.label} "${right.value}"`
+    }
+  }
+
+  /**
+   * Masked Aadhaar numbers ("XXXX XXXX 1234") are compared on the digits shown
+   */
+  private sameDocumentNumber(a: string, b: string): boolean {
+    const clean = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '')
+    const [left, right] = [clean(a), clean(b)]
+    if (/^X+\d+$/.test(left) || /^X+\d+$/.test(right)) {
+      return left.replace(/^X+/, '').slice(-4) === right.replace(/^X+/, '').slice(-4)
+    }
+    return left === right
+  }
+
+  /**
+   * Dates of birth as YYYY-MM-DD (or YYYY) from ISO strings, DD/MM/YYYY
+   * print or a bare year
+   */
+  private normalizeDate(value: unknown): string | null {
+    if (typeof value === 'number') return value >= 1900 && value <= 2100 ? String(value) : null
+    if (typeof value !== 'string') return null
+
+    if (/^\s*(19|20)\d{2}\s*$/.test(value)) return value.trim()
+
+    const date = parseDocumentDate(value, { past: true })
+    return date ? toIsoDate(date) : null
+  }
+
+  private documentLabel(fileType: string): string {
+    if (fileType === 'BANK_STATEMENT') return 'bank statement account holder'
+    if (PAYMENT_RECEIPT_TYPES.includes(fileType)) return 'payment receipt payer'
+    return fileType.toLowerCase().replace(/_/g, ' ')
+  }
+}
+
+export const identityConsistencyService = new IdentityConsistencyService()
@@ -0,0 +1,432 @@
+/**
+ * KYC Provider Service
+ *
+ * One provider interface per KYC check (document validation, face match,
+ * liveness, address verification, sanctions screening). The provider used
+ * for each check is selected in SystemConfig under "kyc_providers"; the
+ * built-in "local" providers are deterministic, so the same documents always
+ * produce the same verdict. Vendor integrations register alongside them.
+ */
+
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import { Document } from '@prisma/client'
+import { z } from 'zod'
+import { DocumentProfileResult } from '@/lib/indianDocuments'
+import { MrzResult } from '@/lib/mrz'
+import { auditService } from './auditService'
+import { DOCUMENT_PROFILE_FIELD, MRZ_FIELD } from './ocrService'
+import { sanctionsScreeningService } from './sanctionsScreeningService'
+import { systemConfigService } from './systemConfigService'
+
+export const KYC_CHECK_TYPES = [
+  'documentValidation',
+  'faceMatch',
+  'liveness',
+  'addressVerification',
+  'sanctions'
+] as const
+
+export type KycCheckType = (typeof KYC_CHECK_TYPES)[number]
+
+/**
+ * What a provider reports for one check, stored in verificationData
+ */
+export interface KycCheckOutcome {
+  check: KycCheckType
+  provider: string
+  passed: boolean
+  confidence: number
+  // Provider-specific raw evidence behind the outcome
+  evidence: Record<string, unknown>
+  // Possible matches were queued for an operator instead of failing outright
+  reviewRequired?: boolean
+  documentId?: string
+}
+
+type ProviderOutcome = Omit<KycCheckOutcome, 'check' | 'provider' | 'documentId'>
+
+export type KycDocument = Pick<Document, 'id' | 'orderId' | 'fileType' | 'fileSize' | 'localPath' | 'ocrText' | 'ocrConfidence' | 'status'>
+
+export interface DocumentValidationProvider {
+  name: string
+  validate(input: { document: KycDocument; extractedData: Record<string, unknown> }): Promise<ProviderOutcome>
+}
+
+export interface FaceMatchProvider {
+  name: string
+  match(input: { idDocument: KycDocument; selfie: KycDocument }): Promise<ProviderOutcome>
+}
+
+export interface LivenessProvider {
+  name: string
+  check(input: { selfie: KycDocument }): Promise<ProviderOutcome>
+}
+
+export interface AddressVerificationProvider {
+  name: string
+  verify(input: { address?: string; documents: KycDocument[] }): Promise<ProviderOutcome>
+}
+
+export interface SanctionsScreeningProvider {
+  name: string
+  screen(input: SanctionsScreeningInput): Promise<ProviderOutcome>
+}
+
+export interface SanctionsScreeningInput {
+  fullName: string
+  dateOfBirth?: Date
+  nationality?: string
+  orderId?: string
+}
+
+interface ProvidersByCheck {
+  documentValidation: DocumentValidationProvider
+  faceMatch: FaceMatchProvider
+  liveness: LivenessProvider
+  addressVerification: AddressVerificationProvider
+  sanctions: SanctionsScreeningProvider
+}
+
+export type KycProviderConfig = Record<KycCheckType, string>
+
+const CONFIG_KEY = 'kyc_providers'
+const WATCHLIST_CONFIG_KEY = 'kyc_sanctions_watchlist'
+
+export const LOCAL_PROVIDER = 'local'
+export const SANCTIONS_LISTS_PROVIDER = 'lists'
+
+export const DEFAULT_KYC_PROVIDER_CONFIG: KycProviderConfig = {
+  documentValidation: LOCAL_PROVIDER,
+  faceMatch: LOCAL_PROVIDER,
+  liveness: LOCAL_PROVIDER,
+  addressVerification: LOCAL_PROVIDER,
+  sanctions: SANCTIONS_LISTS_PROVIDER
+}
+
+export class KycProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'KycProviderConfigError'
+  }
+}
+
+const MIN_OCR_CONFIDENCE = 0.7
+// Selfies smaller than this are unlikely to be a live camera capture
+const MIN_SELFIE_BYTES = 20 * 1024
+const ADDRESS_TOKEN_OVERLAP = 0.6
+const ADDRESS_PROOF_TYPES = ['UTILITY_BILL', 'BANK_STATEMENT']
+
+function normalizeName(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim()
+}
+
+async function fileDigest(document: KycDocument): Promise<string | null> {
+  if (!document.localPath) return null
+  try {
+    return createHash('sha256').update(await fs.readFile(document.localPath)).digest('hex')
+  } catch {
+    return null
+  }
+}
+
+// Confidence ceiling for a document whose MRZ check digits do not add up
+const MRZ_FAILURE_CONFIDENCE = 0.2
+
+/**
+ * Checks OCR quality and the presence and shape of the document number. A
+ * machine-readable zone must pass every check digit; a failure fails the
+ * document however good the rest looks. Aadhaar, PAN and voter ID documents
+ * must also pass their profile's rules.
+ */
+const localDocumentValidation: DocumentValidationProvider = {
+  name: LOCAL_PROVIDER,
+  async validate({ document, extractedData }) {
+    const mrz = extractedData[MRZ_FIELD] as MrzResult | undefined
+    const profile = extractedData[DOCUMENT_PROFILE_FIELD] as DocumentProfileResult | undefined
+    const values = Object.values(extractedData).filter(v => typeof v === 'string' && v.trim() !== '') as string[]
+    const numberKey = Object.keys(extractedData).find(key => key.includes('NUMBER'))
+    // A masked Aadhaar number ("XXXX XXXX 1234") has the expected shape once spaces are dropped
+    const documentNumber = mrz?.documentNumber ?? profile?.fields.documentNumber?.replace(/[\s-]/g, '') ??
+      (numberKey ? String(extractedData[numberKey]).replace(/[\s-]/g, '') : null)
+
+    const checks = {
+      ocrProcessed: ['PROCESSED', 'VERIFIED'].includes(document.status) && !!document.ocrText,
+      ocrConfidence: (document.ocrConfidence ?? 0) >= MIN_OCR_CONFIDENCE,
+      fieldsExtracted: values.length >= 2 || (!!mrz?.surname && !!mrz.documentNumber) ||
+        (!!profile?.fields.fullName && !!profile.fields.documentNumber),
+      documentNumberFormat: !!documentNumber && /^[A-Z0-9]{5,20}$/i.test(documentNumber),
+      ...(mrz && { mrzCheckDigits: mrz.valid }),
+      ...(profile && { documentProfile: profile.valid })
+    }
+    const passedCount = Object.values(checks).filter(Boolean).length
+    const confidence = passedCount / Object.keys(checks).length
+
+    return {
+      passed: passedCount === Object.keys(checks).length,
+      confidence: mrz && !mrz.valid ? Math.min(confidence, MRZ_FAILURE_CONFIDENCE) : confidence,
+      evidence: {
+        checks,
+        ocrConfidence: document.ocrConfidence,
+        extractedFieldCount: values.length,
+        mrz: mrz ? { format: mrz.format, checks: mrz.checks } : null,
+        documentProfile: profile ? { profile: profile.profile, checks: profile.checks, issues: profile.issues } : null
+      }
+    }
+  }
+}
+
+/**
+ * No biometric comparison is available locally, so the check never passes:
+ * it is queued for an operator to compare the selfie with the ID photo. The
+ * digests only show whether the same file was uploaded twice.
+ */
+const localFaceMatch: FaceMatchProvider = {
+  name: LOCAL_PROVIDER,
+  async match({ idDocument, selfie }) {
+    const [idDigest, selfieDigest] = await Promise.all([fileDigest(idDocument), fileDigest(selfie)])
+    const readable = idDigest !== null && selfieDigest !== null
+
+    return {
+      passed: false,
+      confidence: 0,
+      reviewRequired: true,
+      evidence: { biometricComparison: false, idDigest, selfieDigest, sameFile: readable && idDigest === selfieDigest }
+    }
+  }
+}
+
+/**
+ * No liveness detection is available locally, so the check never passes and
+ * is queued for an operator; file size is recorded as a hint only
+ */
+const localLiveness: LivenessProvider = {
+  name: LOCAL_PROVIDER,
+  async check({ selfie }) {
+    const digest = await fileDigest(selfie)
+
+    return {
+      passed: false,
+      confidence: 0,
+      reviewRequired: true,
+      evidence: {
+        livenessDetection: false,
+        digest,
+        fileSize: selfie.fileSize,
+        plausibleCaptureSize: selfie.fileSize >= MIN_SELFIE_BYTES
+      }
+    }
+  }
+}
+
+/**
+ * Looks for the declared address in a utility bill or bank statement on the order
+ */
+const localAddressVerification: AddressVerificationProvider = {
+  name: LOCAL_PROVIDER,
+  async verify({ address, documents }) {
+    if (!address) {
+      return { passed: false, confidence: 0, evidence: { reason: 'NO_ADDRESS' } }
+    }
+
+    const tokens = Array.from(new Set(normalizeName(address).split(' ').filter(t => t.length > 1)))
+    const proofs = documents.filter(doc => ADDRESS_PROOF_TYPES.includes(doc.fileType) && doc.ocrText)
+
+    let best: { documentId: string; overlap: number } | null = null
+    for (const proof of proofs) {
+      const text = ` ${normalizeName(proof.ocrText!)} `
+      const overlap = tokens.length > 0
+        ? tokens.filter(token => text.includes(` ${token} `)).length / tokens.length
+        : 0
+      if (!best || overlap > best.overlap) best = { documentId: proof.id, overlap }
+    }
+
+    return {
+      passed: !!best && best.overlap >= ADDRESS_TOKEN_OVERLAP,
+      confidence: best?.overlap ?? 0,
+      evidence: {
+        proofDocumentIds: proofs.map(doc => doc.id),
+        bestMatch: best,
+        requiredOverlap: ADDRESS_TOKEN_OVERLAP
+      }
+    }
+  }
+}
+
+/**
+ * Screens names against a watchlist kept in SystemConfig under
+ * "kyc_sanctions_watchlist". With an empty list nothing is screened, which
+ * the zero confidence makes visible.
+ */
+const localSanctionsScreening: SanctionsScreeningProvider = {
+  name: LOCAL_PROVIDER,
+  async screen({ fullName }) {
+    const watchlist = (await systemConfigService.getRaw<string[]>(WATCHLIST_CONFIG_KEY)) ?? []
+    const name = normalizeName(fullName)
+    const nameTokens = name.split(' ').sort().join(' ')
+
+    const matches = watchlist.filter(entry => {
+      const listed = normalizeName(entry)
+      return listed === name || listed.split(' ').sort().join(' ') === nameTokens
+    })
+
+    // An empty watchlist screens nothing, so an operator has to
+    const screened = watchlist.length > 0
+
+    return {
+      passed: screened && matches.length === 0,
+      confidence: screened ? 1 : 0,
+      reviewRequired: !screened,
+      evidence: { screenedName: name, screened, entriesScreened: watchlist.length, matches }
+    }
+  }
+}
+
+/**
+ * Screens against the imported OFAC, UN and EU lists; strong hits are queued
+ * for review by sanctionsScreeningService
+ */
+const sanctionsListsScreening: SanctionsScreeningProvider = {
+  name: SANCTIONS_LISTS_PROVIDER,
+  async screen(input) {
+    const { result, review } = await sanctionsScreeningService.screenForReview(input)
+
+    return {
+      passed: result.screened && !review,
+      confidence: result.screened ? 1 : 0,
+      reviewRequired: !result.screened || !!review,
+      evidence: {
+        screenedName: result.screenedName,
+        screened: result.screened,
+        candidatesTruncated: result.candidatesTruncated,
+        lists: result.lists,
+        reviewThreshold: result.reviewThreshold,
+        hits: result.hits,
+        reviewId: review?.id ?? null
+      }
+    }
+  }
+}
+
+const configSchema = z.object(
+  Object.fromEntries(KYC_CHECK_TYPES.map(check => [check, z.string().min(1)])) as Record<KycCheckType, z.ZodString>
+).partial()
+
+export class KycProviderService {
+  private providers: { [K in KycCheckType]: Map<string, ProvidersByCheck[K]> } = {
+    documentValidation: new Map([[LOCAL_PROVIDER, localDocumentValidation]]),
+    faceMatch: new Map([[LOCAL_PROVIDER, localFaceMatch]]),
+    liveness: new Map([[LOCAL_PROVIDER, localLiveness]]),
+    addressVerification: new Map([[LOCAL_PROVIDER, localAddressVerification]]),
+    sanctions: new Map([
+      [LOCAL_PROVIDER, localSanctionsScreening],
+      [SANCTIONS_LISTS_PROVIDER, sanctionsListsScreening]
+    ])
+  }
+
+  /**
+   * Make a provider selectable for a check type
+   */
+  register<K extends KycCheckType>(check: K, provider: ProvidersByCheck[K]): void {
+    this.providers[check].set(provider.name, provider)
+  }
+
+  /**
+   * Registered provider names per check type
+   */
+  available(): Record<KycCheckType, string[]> {
+    return Object.fromEntries(
+      KYC_CHECK_TYPES.map(check => [check, Array.from(this.providers[check].keys())])
+    ) as Record<KycCheckType, string[]>
+  }
+
+  async getConfig(): Promise<KycProviderConfig> {
+    return await systemConfigService.get(CONFIG_KEY, DEFAULT_KYC_PROVIDER_CONFIG)
+  }
+
+  /**
+   * Select providers; every named provider must be registered
+   */
+  async saveConfig(
+    config: unknown,
+    options: { updatedBy: string; ipAddress?: string | null; userAgent?: string | null }
+  ): Promise<KycProviderConfig> {
+    const parsed = configSchema.safeParse(config)
+    if (!parsed.success) {
+      throw new KycProviderConfigError(parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; '))
+    }
+
+    const unknown = (Object.entries(parsed.data) as [KycCheckType, string][])
+      .filter(([check, name]) => !this.providers[check].has(name))
+    if (unknown.length > 0) {
+      throw new KycProviderConfigError(
+        `Unknown providers: ${unknown.map(([check, name]) => `${check}=${name}`).join(', ')}`
+      )
+    }
+
+    const next = { ...(await this.getConfig()), ...parsed.data }
+    await systemConfigService.set(CONFIG_KEY, next, options.updatedBy, 'KYC check providers')
+
+    await auditService.log({
+      action: 'KYC_PROVIDERS_UPDATED',
+      operatorId: options.updatedBy,
+      details: next,
+      ipAddress: options.ipAddress,
+      userAgent: options.userAgent
+    })
+
+    return next
+  }
+
+  /**
+   * The configured provider for a check, falling back to the local one when
+   * the configured name is not registered in this process
+   */
+  async resolve<K extends KycCheckType>(check: K): Promise<ProvidersByCheck[K]> {
+    const config = await this.getConfig()
+    const provider = this.providers[check].get(config[check])
+    if (provider) return provider
+
+    console.error(`KYC provider "${config[check]}" for ${check} is not registered, using ${LOCAL_PROVIDER}`)
+    return this.providers[check].get(LOCAL_PROVIDER)!
+  }
+
+  async validateDocument(document: KycDocument, extractedData: Record<string, unknown>): Promise<KycCheckOutcome> {
+    const provider = await this.resolve('documentValidation')
+    return this.outcome('documentValidation', provider.name, await provider.validate({ document, extractedData }), document.id)
+  }
+
+  async matchFace(idDocument: KycDocument, selfie: KycDocument): Promise<KycCheckOutcome> {
+    const provider = await this.resolve('faceMatch')
+    return this.outcome('faceMatch', provider.name, await provider.match({ idDocument, selfie }), idDocument.id)
+  }
+
+  async checkLiveness(selfie: KycDocument): Promise<KycCheckOutcome> {
+    const provider = await this.resolve('liveness')
+    return this.outcome('liveness', provider.name, await provider.check({ selfie }), selfie.id)
+  }
+
+  async verifyAddress(address: string | undefined, documents: KycDocument[]): Promise<KycCheckOutcome> {
+    const provider = await this.resolve('addressVerification')
+    return this.outcome('addressVerification', provider.name, await provider.verify({ address, documents }))
+  }
+
+  async screenSanctions(input: SanctionsScreeningInput): Promise<KycCheckOutcome> {
+    const provider = await this.resolve('sanctions')
+    return this.outcome('sanctions', provider.name, await provider.screen(input))
+  }
+
+  private outcome(check: KycCheckType, provider: string, result: ProviderOutcome, documentId?: string): KycCheckOutcome {
+    return {
+      check,
+      provider,
+      passed: result.passed,
+      confidence: Math.min(1, Math.max(0, result.confidence)),
+      evidence: result.evidence,
+      ...(result.reviewRequired && { reviewRequired: true }),
+      ...(documentId && { documentId })
+    }
+  }
+}
+
+export const kycProviderService = new KycProviderService()
@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { KycReviewError, kycReviewService, VerifiedFields } from './kycReviewService'
+
+const db = vi.hoisted(() => ({
+  kycVerification: { findUnique: vi.fn(), findUniqueOrThrow: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+  operator: { findUnique: vi.fn() },
+  document: { findUnique: vi.fn() },
+  kycExtraction: { upsert: vi.fn() },
+  sanctionsScreeningReview: { count: vi.fn() },
+  auditLog: { create: vi.fn() },
+  riskAlert: { create: vi.fn(), updateMany: vi.fn() },
+  $transaction: vi.fn()
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+vi.mock('./counterpartyService', () => ({ counterpartyService: { syncProfile: vi.fn() } }))
+vi.mock('./riskReassessmentService', () => ({ riskReassessmentService: { schedule: vi.fn() } }))
+
+const ORDER_ID = 'order-1'
+
+function verification(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'kyc-1',
+    orderId: ORDER_ID,
+    status: 'REQUIRES_REVIEW',
+    proposedStatus: null,
+    proposedBy: null,
+    verificationData: { extractedData: { fullName: 'RAHUL SHARMA' } },
+    order: { binanceOrderId: 'B-1', counterpartyId: 'cp-1' },
+    ...overrides
+  }
+}
+
+function operator(id: string, role: string) {
+  return { id, role, isActive: true }
+}
+
+async function rejection(promise: Promise<unknown>): Promise<KycReviewError> {
+  const error = await promise.then(() => null, (e: unknown) => e)
+  expect(error).toBeInstanceOf(KycReviewError)
+  return error as KycReviewError
+}
+
+beforeEach(() => {
+  vi.resetAllMocks()
+  db.$transaction.mockImplementation((work: (tx: typeof db) => unknown) => work(db))
+})
+
+describe('proposeDecision', () => {
+  it('records the proposal without making it final', async () => {
+    db.kycVerification.findUnique.mockResolvedValue(verification())
+    db.sanctionsScreeningReview.count.mockResolvedValue(0)
+
+    await kycReviewService.proposeDecision(ORDER_ID, { decision: 'APPROVED', operatorId: 'op-1' })
+
+    const { data } = db.kycVerification.update.mock.calls[0][0]
+    expect(data).toMatchObject({ proposedStatus: 'APPROVED', proposedBy: 'op-1' })
+    expect(data).not.toHaveProperty('status')
+    expect(data).not.toHaveProperty('verifiedBy')
+    expect(db.auditLog.create.mock.calls[0][0].data.action).toBe('KYC_DECISION_PROPOSED')
+  })
+
+  it('refuses approval while a sanctions screening review is pending', async () => {
+    db.kycVerification.findUnique.mockResolvedValue(verification())
+    db.sanctionsScreeningReview.count.mockResolvedValue(1)
+
+    const error = await rejection(kycReviewService.proposeDecision(ORDER_ID, { decision: 'APPROVED', operatorId: 'op-1' }))
+    expect(error.status).toBe(409)
+    expect(db.kycVerification.update).not.toHaveBeenCalled()
+  })
+})
+
+describe('confirmDecision', () => {
+  const proposed = verification({ proposedStatus: 'APPROVED', proposedBy: 'op-1' })
+
+  it('requires an active supervisor', async () => {
+    db.kycVerification.findUnique.mockResolvedValue(proposed)
+    db.operator.findUnique.mockResolvedValue(operator('op-2', 'OPERATOR'))
+
+    const error = await rejection(kycReviewService.confirmDecision(ORDER_ID, { supervisorId: 'op-2', confirm: true }))
+    expect(error.status).toBe(403)
+    expect(db.kycVerification.updateMany).not.toHaveBeenCalled()
+  })
+
+  it('rejects confirmation by the operator who proposed the decision', async () => {
+    db.kycVerification.findUnique.mockResolvedValue(proposed)
+    db.operator.findUnique.mockResolvedValue(operator('op-1', 'SUPERVISOR'))
+
+    const error = await rejection(kycReviewService.confirmDecision(ORDER_ID, { supervisorId: 'op-1', confirm: true }))
+    expect(error.status).toBe(403)
+    expect(db.kycVerification.updateMany).not.toHaveBeenCalled()
+  })
+
+  it('makes the decision final when a different supervisor confirms the unchanged proposal', async () => {
+    db.kycVerification.findUnique.mockResolvedValue(proposed)
+    db.operator.findUnique.mockResolvedValue(operator('sup-1', 'SUPERVISOR'))
+    db.kycVerification.updateMany.mockResolvedValue({ count: 1 })
+
+    await kycReviewService.confirmDecision(ORDER_ID, { supervisorId: 'sup-1', confirm: true })
+
+    const { where, data } = db.kycVerification.updateMany.mock.calls[0][0]
+    expect(where).toEqual({ orderId: ORDER_ID, status: 'REQUIRES_REVIEW', proposedStatus: 'APPROVED', proposedBy: 'op-1' })
+    expect(data).toMatchObject({ status: 'APPROVED', verifiedBy: 'sup-1' })
+    expect(db.auditLog.create.mock.calls[0][0].data.action).toBe('KYC_DECISION_CONFIRMED')
+  })
+
+  it('refuses to confirm a proposal that changed in the meantime', async () => {
+    db.kycVerification.findUnique.mockResolvedValue(proposed)
+    db.operator.findUnique.mockResolvedValue(operator('sup-1', 'SUPERVISOR'))
+    db.kycVerification.updateMany.mockResolvedValue({ count: 0 })
+
+    const error = await rejection(kycReviewService.confirmDecision(ORDER_ID, { supervisorId: 'sup-1', confirm: true }))
+    expect(error.status).toBe(409)
+    expect(db.auditLog.create).not.toHaveBeenCalled()
+  })
+})
+
+describe('correctFields', () => {
+  function savedFields(): VerifiedFields {
+    return db.kycExtraction.upsert.mock.calls[0][0].update.verifiedFields
+  }
+
+  it('keeps the value the extraction read alongside the correction', async () => {
+    db.kycVerification.findUnique.mockResolvedValue(verification())
+    db.document.findUnique.mockResolvedValue({
+      id: 'doc-1',
+      orderId: ORDER_ID,
+      fileType: 'PASSPORT',
+      kycData: { extractedData: { fullName: 'RAHUI SHARMA' }, verifiedFields: null }
+    })
+
+    await kycReviewService.correctFields(ORDER_ID, { documentId: 'doc-1', operatorId: 'op-1', fields: { fullName: 'RAHUL SHARMA' } })
+
+    expect(savedFields().fullName).toMatchObject({ value: 'RAHUL SHARMA', original: 'RAHUI SHARMA', correctedBy: 'op-1' })
+  })
+
+  it('keeps the first original across later corrections', async () => {
+    db.kycVerification.findUnique.mockResolvedValue(verification())
+    db.document.findUnique.mockResolvedValue({
+      id: 'doc-1',
+      orderId: ORDER_ID,
+      fileType: 'PASSPORT',
+      kycData: {
+        extractedData: { fullName: 'RAHUI SHARMA' },
+        verifiedFields: {
+          fullName: { value: 'RAHUL SHARM', original: 'RAHUI SHARMA', correctedBy: 'op-1', correctedAt: '2024-01-01T00:00:00.000Z', reason: null }
+        }
+      }
+    })
+
+    await kycReviewService.correctFields(ORDER_ID, { documentId: 'doc-1', operatorId: 'op-2', fields: { fullName: 'RAHUL SHARMA' } })
+
+    expect(savedFields().fullName).toMatchObject({ value: 'RAHUL SHARMA', original: 'RAHUI SHARMA', correctedBy: 'op-2' })
+  })
+
+  it('masks Aadhaar numbers in the correction and the original', async () => {
+    db.kycVerification.findUnique.mockResolvedValue(verification())
+    db.document.findUnique.mockResolvedValue({
+      id: 'doc-1',
+      orderId: ORDER_ID,
+      fileType: 'AADHAAR',
+      kycData: { extractedData: { documentNumber: '2341 2341 2345' }, verifiedFields: null }
+    })
+
+    await kycReviewService.correctFields(ORDER_ID, { documentId: 'doc-1', operatorId: 'op-1', fields: { documentNumber: '234123412346' } })
+
+    expect(savedFields().documentNumber).toMatchObject({ value: 'XXXX XXXX 2346', original: 'XXXX XXXX 2345' })
+  })
+
+  it('does not accept corrections while a decision awaits confirmation', async () => {
+    db.kycVerification.findUnique.mockResolvedValue(verification({ proposedStatus: 'APPROVED', proposedBy: 'op-1' }))
+
+    const error = await rejection(
+      kycReviewService.correctFields(ORDER_ID, { documentId: 'doc-1', operatorId: 'op-1', fields: { fullName: 'X Y' } })
+    )
+    expect(error.status).toBe(409)
+  })
+})
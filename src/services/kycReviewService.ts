@@ -0,0 +1,376 @@
+/**
+ * KYC Review Service
+ *
+ * Manual review of KYC verifications left in REQUIRES_REVIEW. Operators
+ * correct fields OCR misread (kept in KycExtraction.verifiedFields alongside
+ * the original values) and propose APPROVED or REJECTED; the decision only
+ * becomes final once a different supervisor confirms it. Every step is
+ * audited, and a confirmed decision is not overwritten by automated re-runs.
+ */
+
+import { KycStatus, Prisma, ScreeningReviewStatus } from '@prisma/client'
+import { z } from 'zod'
+import { parseDocumentDate, toIsoDate } from '@/lib/dates'
+import { DocumentProfileResult, redactAadhaarNumbers } from '@/lib/indianDocuments'
+import { prisma } from '@/lib/prisma'
+import { alertService } from './alertService'
+import { auditService } from './auditService'
+import { counterpartyService } from './counterpartyService'
+import { DOCUMENT_PROFILE_FIELD } from './ocrService'
+import { riskReassessmentService } from './riskReassessmentService'
+
+export const KYC_CONFIRMATION_ALERT = 'KYC_CONFIRMATION_REQUIRED'
+
+// Extracted fields an operator can correct
+export const CORRECTABLE_FIELDS = [
+  'fullName',
+  'dateOfBirth',
+  'documentNumber',
+  'nationality',
+  'address',
+  'issueDate',
+  'expiryDate'
+] as const
+
+export type CorrectableField = (typeof CORRECTABLE_FIELDS)[number]
+
+const DATE_FIELDS: CorrectableField[] = ['dateOfBirth', 'issueDate', 'expiryDate']
+
+export interface VerifiedField {
+  value: string
+  // What the extraction read before the first correction; null when it read nothing
+  original: string | null
+  correctedBy: string
+  correctedAt: string
+  reason: string | null
+}
+
+export type VerifiedFields = Partial<Record<CorrectableField, VerifiedField>>
+
+export const fieldCorrectionSchema = z.object({
+  documentId: z.string().min(1),
+  operatorId: z.string().min(1),
+  fields: z.record(z.enum(CORRECTABLE_FIELDS), z.string().trim().min(1))
+    .refine(fields => Object.keys(fields).length > 0, 'At least one field is required'),
+  reason: z.string().trim().min(1).optional()
+})
+
+export const reviewDecisionSchema = z.object({
+  decision: z.enum([KycStatus.APPROVED, KycStatus.REJECTED]),
+  operatorId: z.string().min(1),
+  notes: z.string().trim().min(1).optional()
+})
+
+export const reviewConfirmationSchema = z.object({
+  supervisorId: z.string().min(1),
+  // false sends the decision back to the review queue
+  confirm: z.boolean(),
+  notes: z.string().trim().min(1).optional()
+})
+
+const reviewQuerySchema = z.object({
+  // OPEN: no decision proposed yet; AWAITING_CONFIRMATION: proposed, not confirmed
+  state: z.enum(['OPEN', 'AWAITING_CONFIRMATION']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+})
+
+export class KycReviewError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message)
+    this.name = 'KycReviewError'
+  }
+}
+
+type RequestOptions = { ipAddress?: string | null; userAgent?: string | null }
+
+/**
+ * Corrected values by field, for applying over extracted data
+ */
+export function verifiedValues(verifiedFields: unknown): Partial<Record<CorrectableField, string>> {
+  if (!verifiedFields || typeof verifiedFields !== 'object') return {}
+
+  const values: Partial<Record<CorrectableField, string>> = {}
+  for (const field of CORRECTABLE_FIELDS) {
+    const entry = (verifiedFields as VerifiedFields)[field]
+    if (entry && typeof entry.value === 'string') values[field] = entry.value
+  }
+  return values
+}
+
+export class KycReviewService {
+  parseQuery(searchParams: URLSearchParams) {
+    return reviewQuerySchema.safeParse(Object.fromEntries(searchParams.entries()))
+  }
+
+  /**
+   * Verifications in REQUIRES_REVIEW, oldest first
+   */
+  async listReviews(filters: z.infer<typeof reviewQuerySchema>) {
+    const where: Prisma.KycVerificationWhereInput = {
+      status: KycStatus.REQUIRES_REVIEW,
+      ...(filters.state === 'OPEN' && { proposedStatus: null }),
+      ...(filters.state === 'AWAITING_CONFIRMATION' && { proposedStatus: { not: null } })
+    }
+
+    const [reviews, totalCount] = await Promise.all([
+      prisma.kycVerification.findMany({
+        where,
+        include: { order: { select: { id: true, binanceOrderId: true, counterpartyId: true, counterpartyName: true, status: true } } },
+        orderBy: { updatedAt: 'asc' },
+        take: filters.limit
+      }),
+      prisma.kycVerification.count({ where })
+    ])
+
+    return { reviews, totalCount }
+  }
+
+  /**
+   * A verification with the order's documents, their extractions and
+   * corrections, for side-by-side review
+   */
+  async getReview(orderId: string) {
+    const verification = await prisma.kycVerification.findUnique({
+      where: { orderId },
+      include: {
+        order: {
+          select: {
+            id: true,
+            binanceOrderId: true,
+            counterpartyId: true,
+            counterpartyName: true,
+            status: true,
+            documents: {
+              select: { id: true, filename: true, fileType: true, status: true, ocrConfidence: true, kycData: true },
+              orderBy: { createdAt: 'asc' }
+            }
+          }
+        }
+      }
+    })
+    if (!verification) throw new KycReviewError('KYC verification not found', 404)
+
+    return verification
+  }
+
+  /**
+   * Record operator corrections to a document's extracted fields. The first
+   * correction of a field keeps what the extraction originally read. Aadhaar
+   * numbers are masked before anything is saved or audited.
+   */
+  async correctFields(orderId: string, input: z.infer<typeof fieldCorrectionSchema>, options: RequestOptions = {}) {
+    const verification = await this.requireOpenReview(orderId)
+    if (verification.proposedStatus) {
+      throw new KycReviewError('A decision is awaiting supervisor confirmation; send it back before correcting fields', 409)
+    }
+
+    const document = await prisma.document.findUnique({ where: { id: input.documentId }, include: { kycData: true } })
+    if (!document || document.orderId !== orderId) {
+      throw new KycReviewError('Document does not belong to the order')
+    }
+
+    const extracted = (document.kycData?.extractedData ?? {}) as Record<string, unknown>
+    // Typed values are masked like OCR text: an Aadhaar number is never stored in full
+    const profile = extracted[DOCUMENT_PROFILE_FIELD] as DocumentProfileResult | undefined
+    const isAadhaarDocument = document.fileType === 'AADHAAR' || profile?.profile === 'AADHAAR'
+    const redact = (value: string) => redactAadhaarNumbers(value, isAadhaarDocument)
+
+    const fields = input.fields as Partial<Record<CorrectableField, string>>
+    const values: Partial<Record<CorrectableField, string>> = {}
+    for (const [field, value] of Object.entries(fields) as [CorrectableField, string][]) {
+      if (!DATE_FIELDS.includes(field)) {
+        values[field] = redact(value)
+        continue
+      }
+      const date = parseDocumentDate(value, { past: field !== 'expiryDate' })
+      if (!date) throw new KycReviewError(`${field}: unrecognised date "${value}"`)
+      values[field] = toIsoDate(date)
+    }
+
+    const verified = (verification.verificationData as Record<string, any>)?.extractedData ?? {}
+    const existing = (document.kycData?.verifiedFields ?? {}) as VerifiedFields
+    const correctedAt = new Date().toISOString()
+
+    const next: VerifiedFields = { ...existing }
+    for (const [field, value] of Object.entries(values) as [CorrectableField, string][]) {
+      const read = extracted[field] ?? verified[field]
+      next[field] = {
+        value,
+        original: existing[field]?.original ?? (read === undefined || read === null ? null : redact(String(read))),
+        correctedBy: input.operatorId,
+        correctedAt,
+        reason: input.reason ?? null
+      }
+    }
+
+    const verifiedFields = next as unknown as Prisma.InputJsonValue
+    const extraction = await prisma.$transaction(async (tx) => {
+      const saved = await tx.kycExtraction.upsert({
+        where: { documentId: document.id },
+        update: { verifiedFields },
+        create: { documentId: document.id, extractedData: {}, confidence: document.ocrConfidence ?? 0, verifiedFields }
+      })
+
+      await auditService.log({
+        action: 'KYC_FIELDS_CORRECTED',
+        orderId,
+        operatorId: input.operatorId,
+        details: {
+          documentId: document.id,
+          fields: Object.fromEntries(Object.keys(values).map(field => [
+            field, { from: next[field as CorrectableField]!.original, to: values[field as CorrectableField] }
+          ])),
+          reason: input.reason ?? null
+        },
+        ipAddress: options.ipAddress,
+        userAgent: options.userAgent
+      }, tx)
+
+      return saved
+    })
+
+    return extraction
+  }
+
+  /**
+   * Propose the outcome of a review; it stays in REQUIRES_REVIEW until a
+   * supervisor confirms it
+   */
+  async proposeDecision(orderId: string, input: z.infer<typeof reviewDecisionSchema>, options: RequestOptions = {}) {
+    const verification = await this.requireOpenReview(orderId)
+    if (verification.proposedStatus) {
+      throw new KycReviewError(`${verification.proposedStatus} is already awaiting supervisor confirmation`, 409)
+    }
+
+    if (input.decision === KycStatus.APPROVED) {
+      const pendingScreening = await prisma.sanctionsScreeningReview.count({
+        where: { orderId, status: ScreeningReviewStatus.PENDING }
+      })
+      if (pendingScreening > 0) {
+        throw new KycReviewError('Resolve the pending sanctions screening review before approving', 409)
+      }
+    }
+
+    const proposed = await prisma.$transaction(async (tx) => {
+      const updated = await tx.kycVerification.update({
+        where: { orderId },
+        data: {
+          proposedStatus: input.decision,
+          proposedBy: input.operatorId,
+          proposedAt: new Date(),
+          ...(input.notes && { notes: input.notes })
+        }
+      })
+
+      await auditService.log({
+        action: 'KYC_DECISION_PROPOSED',
+        orderId,
+        operatorId: input.operatorId,
+        details: { verificationId: verification.id, decision: input.decision, notes: input.notes ?? null },
+        ipAddress: options.ipAddress,
+        userAgent: options.userAgent
+      }, tx)
+
+      await alertService.raise({
+        orderId,
+        type: KYC_CONFIRMATION_ALERT,
+        severity: 'MEDIUM',
+        message: `KYC ${input.decision.toLowerCase()} proposed for order ${verification.order.binanceOrderId} awaits supervisor confirmation`,
+        details: { verificationId: verification.id, decision: input.decision, proposedBy: input.operatorId }
+      }, tx)
+
+      return updated
+    })
+
+    return proposed
+  }
+
+  /**
+   * Confirm a proposed decision, making it final, or send it back to the
+   * queue. The supervisor must not be the operator who proposed it.
+   */
+  async confirmDecision(orderId: string, input: z.infer<typeof reviewConfirmationSchema>, options: RequestOptions = {}) {
+    const verification = await this.requireOpenReview(orderId)
+    if (!verification.proposedStatus) {
+      throw new KycReviewError('No decision is awaiting confirmation', 409)
+    }
+
+    const supervisor = await prisma.operator.findUnique({ where: { id: input.supervisorId } })
+    if (!supervisor || !supervisor.isActive || supervisor.role !== 'SUPERVISOR') {
+      throw new KycReviewError('Operator must be an active supervisor', 403)
+    }
+    if (input.supervisorId === verification.proposedBy) {
+      throw new KycReviewError('A decision must be confirmed by a different operator than the one who proposed it', 403)
+    }
+
+    const decided = await prisma.$transaction(async (tx) => {
+      // Only the proposal the checks above saw: a re-run or another
+      // supervisor may have cleared or decided it since
+      const { count } = await tx.kycVerification.updateMany({
+        where: {
+          orderId,
+          status: KycStatus.REQUIRES_REVIEW,
+          proposedStatus: verification.proposedStatus,
+          proposedBy: verification.proposedBy
+        },
+        data: input.confirm
+          ? {
+              status: verification.proposedStatus!,
+              verifiedBy: input.supervisorId,
+              verifiedAt: new Date(),
+              ...(input.notes && { notes: input.notes })
+            }
+          : {
+              proposedStatus: null,
+              proposedBy: null,
+              proposedAt: null,
+              ...(input.notes && { notes: input.notes })
+            }
+      })
+      if (count === 0) {
+        throw new KycReviewError('The proposed decision changed while it was being confirmed', 409)
+      }
+
+      await auditService.log({
+        action: input.confirm ? 'KYC_DECISION_CONFIRMED' : 'KYC_DECISION_RETURNED',
+        orderId,
+        operatorId: input.supervisorId,
+        details: {
+          verificationId: verification.id,
+          decision: verification.proposedStatus,
+          proposedBy: verification.proposedBy,
+          notes: input.notes ?? null
+        },
+        ipAddress: options.ipAddress,
+        userAgent: options.userAgent
+      }, tx)
+
+      await alertService.resolveForOrder(orderId, [KYC_CONFIRMATION_ALERT], tx)
+
+      return await tx.kycVerification.findUniqueOrThrow({ where: { orderId } })
+    })
+
+    if (input.confirm) {
+      await counterpartyService.syncProfile(verification.order.counterpartyId)
+      await riskReassessmentService.schedule(orderId, { type: 'KYC_COMPLETED', ref: verification.id })
+    }
+
+    return decided
+  }
+
+  private async requireOpenReview(orderId: string) {
+    const verification = await prisma.kycVerification.findUnique({
+      where: { orderId },
+      include: { order: { select: { binanceOrderId: true, counterpartyId: true } } }
+    })
+    if (!verification) {
+      throw new KycReviewError('KYC verification not found', 404)
+    }
+    if (verification.status !== KycStatus.REQUIRES_REVIEW) {
+      throw new KycReviewError(`KYC verification is ${verification.status}, not awaiting review`, 409)
+    }
+    return verification
+  }
+}
+
+export const kycReviewService = new KycReviewService()
@@ -2,11 +2,25 @@
  * KYC Service for Identity Verification
  * 
  * Handles Know Your Customer verification processes
- * Integrates with multiple KYC providers and compliance checks
+ * Integrates with multiple KYC providers and compliance checks; the provider
+ * for each check is selected through kycProviderService
  */
 
+import { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { ageInYears, daysBetween, isMonthFirstCountry, parseDocumentDate, toIsoDate } from '@/lib/dates'
+import { DocumentProfileResult } from '@/lib/indianDocuments'
+import { MrzResult } from '@/lib/mrz'
 import { prisma } from '@/lib/prisma'
-import { ocrService } from './ocrService'
+import { alertService } from './alertService'
+import { auditService } from './auditService'
+import { counterpartyService } from './counterpartyService'
+import { ConsistencyReport, identityConsistencyService } from './identityConsistencyService'
+import { KycCheckOutcome, KycDocument, kycProviderService } from './kycProviderService'
+import { CorrectableField, KYC_CONFIRMATION_ALERT, KycReviewError, verifiedValues } from './kycReviewService'
+import { DOCUMENT_PROFILE_FIELD, ID_DOCUMENT_TYPES, MRZ_FIELD, ocrService } from './ocrService'
+import { riskReassessmentService } from './riskReassessmentService'
+import { systemConfigService } from './systemConfigService'
 
 export interface KYCResult {
   status: 'APPROVED' | 'REJECTED' | 'REQUIRES_REVIEW'
@@ -16,7 +30,14 @@ export interface KYCResult {
     faceMatch: boolean
     livenessCheck: boolean
     sanctionsCheck: boolean
-    addressVerification: boolean
+    // null when no address could be read or was entered in review
+    addressVerification: boolean | null
+    // null when no expiry date could be read (Aadhaar and PAN carry none)
+    documentNotExpired: boolean | null
+    // False within the policy's expiry warning window
+    documentNotExpiringSoon: boolean | null
+    // null when no date of birth could be read
+    minimumAge: boolean | null
   }
   extractedData: {
     fullName?: string
@@ -29,29 +50,95 @@ export interface KYCResult {
   }
   riskFactors: string[]
   recommendations: string[]
+  // Outcome, confidence and evidence reported by each provider
+  providerResults: KycCheckOutcome[]
+  // Identity details compared across documents and earlier orders
+  consistency?: ConsistencyReport
 }
 
+export interface KycPolicy {
+  // Youngest age, in completed years, that can pass KYC
+  minimumAge: number
+  // Documents expiring within this many days are flagged for review
+  expiryWarningDays: number
+}
+
+const POLICY_KEY = 'kyc_policy'
+
+export const DEFAULT_KYC_POLICY: KycPolicy = {
+  minimumAge: 18,
+  expiryWarningDays: 30
+}
+
+const kycPolicySchema = z.object({
+  minimumAge: z.number().int().min(0).max(100),
+  expiryWarningDays: z.number().int().min(0).max(3650)
+}).partial()
+
+export class KycPolicyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'KycPolicyError'
+  }
+}
+
+// Document types that always print an expiry date
+const EXPIRING_DOCUMENT_TYPES = ['PASSPORT', 'DRIVERS_LICENSE']
+
 export class KYCService {
-  private sanctionsLists = ['OFAC', 'UN', 'EU', 'PEP']
   private minimumScore = 0.7
 
+  async getPolicy(): Promise<KycPolicy> {
+    return await systemConfigService.get(POLICY_KEY, DEFAULT_KYC_POLICY)
+  }
+
+  /**
+   * Update the minimum age and expiry warning window; omitted settings keep
+   * their current values
+   */
+  async savePolicy(
+    policy: unknown,
+    options: { updatedBy: string; ipAddress?: string | null; userAgent?: string | null }
+  ): Promise<KycPolicy> {
+    const parsed = kycPolicySchema.safeParse(policy)
+    if (!parsed.success) {
+      throw new KycPolicyError(parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; '))
+    }
+
+    const next = { ...(await this.getPolicy()), ...parsed.data }
+    await systemConfigService.set(POLICY_KEY, next, options.updatedBy, 'KYC minimum age and document expiry policy')
+
+    await auditService.log({
+      action: 'KYC_POLICY_UPDATED',
+      operatorId: options.updatedBy,
+      details: next,
+      ipAddress: options.ipAddress,
+      userAgent: options.userAgent
+    })
+
+    return next
+  }
+
   /**
    * Perform comprehensive KYC verification
    */
   async verifyIdentity(orderId: string): Promise<KYCResult> {
     const order = await prisma.p2POrder.findUnique({
       where: { id: orderId },
-      include: { documents: true }
+      include: { documents: true, kycVerification: { select: { verifiedBy: true, status: true } } }
     })
 
     if (!order) {
       throw new Error('Order not found')
     }
 
+    // A decision confirmed in manual review is final
+    if (order.kycVerification?.verifiedBy) {
+      throw new KycReviewError(`KYC was ${order.kycVerification.status} by ${order.kycVerification.verifiedBy} and is final`, 409)
+    }
+
     // Find identity documents
-    const idDocuments = order.documents.filter(doc => 
-      ['ID_CARD', 'PASSPORT', 'DRIVERS_LICENSE'].includes(doc.fileType)
-    )
+    const idDocuments = order.documents.filter(doc => ID_DOCUMENT_TYPES.includes(doc.fileType))
 
     if (idDocuments.length === 0) {
       throw new Error('No identity documents found')
@@ -65,11 +152,15 @@ export class KYCService {
         faceMatch: false,
         livenessCheck: false,
         sanctionsCheck: false,
-        addressVerification: false
+        addressVerification: null,
+        documentNotExpired: null,
+        documentNotExpiringSoon: null,
+        minimumAge: null
       },
       extractedData: {},
       riskFactors: [],
-      recommendations: []
+      recommendations: [],
+      providerResults: []
     }
 
     try {
@@ -78,34 +169,51 @@ export class KYCService {
         await this.processIdentityDocument(document.id, result)
       }
 
+      // Document expiry and the holder's age
+      await this.performDateChecks(idDocuments.map(doc => doc.fileType), result)
+
+      // Cross-check names, dates of birth and document numbers
+      await this.performConsistencyCheck(orderId, result)
+
       // Perform sanctions screening
-      await this.performSanctionsCheck(result)
+      await this.performSanctionsCheck(orderId, result)
 
       // Calculate overall score
       result.score = this.calculateKYCScore(result)
 
       // Determine final status
       result.status = this.determineKYCStatus(result)
-
-      // Store verification result
-      await prisma.kycVerification.create({
-        data: {
-          orderId,
-          status: result.status,
-          verificationData: result,
-          riskScore: result.score,
-          verifiedAt: new Date()
-        }
-      })
-
-      return result
-
     } catch (error) {
+      // A failed run is no verdict on the customer: an operator takes it from here
       console.error('KYC verification error:', error)
-      result.status = 'REJECTED'
+      result.status = 'REQUIRES_REVIEW'
       result.riskFactors.push('Verification process failed')
-      return result
+      result.recommendations.push('Re-run verification or review the documents manually')
     }
+
+    // Store verification result, replacing an earlier run for the order, so
+    // the stored record always matches what was returned
+    const data = {
+      status: result.status,
+      verificationData: result as unknown as Prisma.InputJsonValue,
+      riskScore: result.score,
+      verifiedAt: new Date(),
+      // A fresh automated result replaces any decision awaiting confirmation
+      proposedStatus: null,
+      proposedBy: null,
+      proposedAt: null
+    }
+    const verification = await prisma.kycVerification.upsert({
+      where: { orderId },
+      update: data,
+      create: { orderId, ...data }
+    })
+    await alertService.resolveForOrder(orderId, [KYC_CONFIRMATION_ALERT])
+
+    await counterpartyService.syncProfile(order.counterpartyId)
+    await riskReassessmentService.schedule(orderId, { type: 'KYC_COMPLETED', ref: verification.id })
+
+    return result
   }
 
   /**
@@ -113,7 +221,8 @@ export class KYCService {
    */
   private async processIdentityDocument(documentId: string, result: KYCResult): Promise<void> {
     const document = await prisma.document.findUnique({
-      where: { id: documentId }
+      where: { id: documentId },
+      include: { kycData: true }
     })
 
     if (!document || !document.ocrText) {
@@ -123,48 +232,92 @@ export class KYCService {
 
     // Extract structured data from OCR text
     const extractedData = await ocrService.extractPatterns(document.ocrText, document.fileType)
+
+    // The stored text has Aadhaar numbers masked; the profile stored at OCR
+    // time was checked against the full number
+    const stored = document.kycData?.extractedData as Record<string, any> | undefined
+    if (stored?.[DOCUMENT_PROFILE_FIELD]) extractedData[DOCUMENT_PROFILE_FIELD] = stored[DOCUMENT_PROFILE_FIELD]
+    const profile = extractedData[DOCUMENT_PROFILE_FIELD] as DocumentProfileResult | undefined
     
     // Validate document authenticity
-    const isValid = await this.validateDocument(document, extractedData)
+    const validation = await kycProviderService.validateDocument(document, extractedData)
+    result.providerResults.push(validation)
+    const isValid = validation.passed
     result.checks.documentValid = isValid
 
     if (isValid) {
       // Extract personal information
       this.extractPersonalInfo(extractedData, result)
+
+      // Operator corrections from manual review override what OCR read
+      this.applyCorrections(document.kycData?.verifiedFields, result)
       
       // Perform document-specific checks
       await this.performDocumentChecks(document, result)
     } else {
       result.riskFactors.push('Document validation failed')
+      const mrz = extractedData[MRZ_FIELD] as MrzResult | undefined
+      if (mrz && !mrz.valid) result.riskFactors.push('MRZ check digits do not match')
+      if (profile && !profile.valid) result.riskFactors.push(...profile.issues)
     }
-  }
 
-  /**
-   * Validate document authenticity
-   */
-  private async validateDocument(document: any, extractedData: any): Promise<boolean> {
-    // Implementation would include:
-    // - Security feature detection
-    // - Format validation
-    // - Issuer verification
-    // - Expiry date checks
-    
-    // Mock validation
-    return Math.random() > 0.1 // 90% pass rate for demo
+    if (profile?.fields.entityType && profile.fields.entityType !== 'INDIVIDUAL') {
+      result.riskFactors.push(`PAN is issued to a ${profile.fields.entityType.toLowerCase().replace(/_/g, ' ')}, not an individual`)
+    }
   }
 
   /**
    * Extract personal information from document
    */
   private extractPersonalInfo(extractedData: any, result: KYCResult): void {
+    const mrz = extractedData[MRZ_FIELD] as MrzResult | undefined
+    // Printed numeric dates are day-first unless the issuing state writes them month-first
+    const monthFirst = isMonthFirstCountry(mrz?.issuingState)
+
     // Parse and normalize extracted data
     for (const [pattern, value] of Object.entries(extractedData)) {
+      if (typeof value !== 'string') continue
+
       if (pattern.includes('NAME')) {
-        result.extractedData.fullName = value as string
+        result.extractedData.fullName = value
       } else if (pattern.includes('DOB')) {
-        result.extractedData.dateOfBirth = this.parseDate(value as string)
+        result.extractedData.dateOfBirth = parseDocumentDate(value, { monthFirst, past: true })
       } else if (pattern.includes('NUMBER')) {
-        result.extractedData.documentNumber = value as string
+        result.extractedData.documentNumber = value
+      } else if (pattern.includes('ISSUE')) {
+        result.extractedData.issueDate = parseDocumentDate(value, { monthFirst, past: true })
+      } else if (pattern.includes('EXPIR')) {
+        result.extractedData.expiryDate = parseDocumentDate(value, { monthFirst })
+      } else if (pattern.includes('ADDRESS')) {
+        result.extractedData.address = value.replace(/\s+/g, ' ').trim()
+      }
+    }
+
+    // Aadhaar, PAN and voter ID fields from the document profile
+    const profile = extractedData[DOCUMENT_PROFILE_FIELD] as DocumentProfileResult | undefined
+    if (profile) {
+      const { fullName, dateOfBirth, documentNumber } = profile.fields
+      if (fullName) result.extractedData.fullName = fullName
+      if (dateOfBirth) result.extractedData.dateOfBirth = parseDocumentDate(dateOfBirth)
+      if (documentNumber) result.extractedData.documentNumber = documentNumber
+    }
+
+    // MRZ fields take precedence over the printed text patterns
+    if (mrz) {
+      result.extractedData.fullName = [mrz.givenNames, mrz.surname].filter(Boolean).join(' ')
+      result.extractedData.documentNumber = mrz.documentNumber
+      result.extractedData.nationality = mrz.nationality
+      if (mrz.dateOfBirth) result.extractedData.dateOfBirth = parseDocumentDate(mrz.dateOfBirth)
+      if (mrz.expiryDate) result.extractedData.expiryDate = parseDocumentDate(mrz.expiryDate)
+    }
+  }
+
+  private applyCorrections(verifiedFields: unknown, result: KYCResult): void {
+    for (const [field, value] of Object.entries(verifiedValues(verifiedFields)) as [CorrectableField, string][]) {
+      if (field === 'dateOfBirth' || field === 'issueDate' || field === 'expiryDate') {
+        result.extractedData[field] = parseDocumentDate(value)
+      } else {
+        result.extractedData[field] = value
       }
     }
   }
@@ -172,32 +325,111 @@ export class KYCService {
   /**
    * Perform document-specific verification checks
    */
-  private async performDocumentChecks(document: any, result: KYCResult): Promise<void> {
+  private async performDocumentChecks(document: KycDocument, result: KYCResult): Promise<void> {
     // Face matching (if selfie available)
     const selfieDoc = await this.findSelfieDocument(document.orderId)
     if (selfieDoc) {
-      result.checks.faceMatch = await this.performFaceMatch(document, selfieDoc)
-      result.checks.livenessCheck = await this.performLivenessCheck(selfieDoc)
+      const faceMatch = await kycProviderService.matchFace(document, selfieDoc)
+      const liveness = await kycProviderService.checkLiveness(selfieDoc)
+      result.providerResults.push(faceMatch, liveness)
+      result.checks.faceMatch = faceMatch.passed
+      result.checks.livenessCheck = liveness.passed
+
+      // Without a biometric provider an operator compares the faces
+      if (faceMatch.reviewRequired || liveness.reviewRequired) {
+        result.recommendations.push('Compare the selfie with the ID photo manually; no biometric check was run')
+      }
     }
 
-    // Address verification
-    result.checks.addressVerification = await this.verifyAddress(result.extractedData.address)
+    // Address verification, left unscored until an address is known
+    if (!result.extractedData.address) {
+      const recommendation = 'Enter the holder\'s address in review to verify it against proof of address'
+      if (!result.recommendations.includes(recommendation)) result.recommendations.push(recommendation)
+      return
+    }
+    const documents = await prisma.document.findMany({ where: { orderId: document.orderId } })
+    const address = await kycProviderService.verifyAddress(result.extractedData.address, documents)
+    result.providerResults.push(address)
+    result.checks.addressVerification = address.passed
+  }
+
+  /**
+   * Reject expired documents and underage holders, and flag documents close
+   * to expiry, per the kyc_policy settings
+   */
+  private async performDateChecks(documentTypes: string[], result: KYCResult): Promise<void> {
+    const policy = await this.getPolicy()
+    const today = new Date()
+    const { expiryDate, dateOfBirth } = result.extractedData
+
+    if (expiryDate) {
+      const daysLeft = daysBetween(today, expiryDate)
+      result.checks.documentNotExpired = daysLeft >= 0
+      result.checks.documentNotExpiringSoon = daysLeft > policy.expiryWarningDays
+
+      if (daysLeft < 0) {
+        result.riskFactors.push(`Document expired on ${toIsoDate(expiryDate)}`)
+      } else if (daysLeft <= policy.expiryWarningDays) {
+        result.riskFactors.push(`Document expires on ${toIsoDate(expiryDate)}, within ${policy.expiryWarningDays} days`)
+        result.recommendations.push('Request a document with longer validity')
+      }
+    } else if (result.checks.documentValid && documentTypes.some(type => EXPIRING_DOCUMENT_TYPES.includes(type))) {
+      result.riskFactors.push('Document expiry date could not be read')
+    }
+
+    if (dateOfBirth) {
+      const age = ageInYears(dateOfBirth, today)
+      result.checks.minimumAge = age >= policy.minimumAge
+      if (!result.checks.minimumAge) {
+        result.riskFactors.push(`Holder is ${age}, below the minimum age of ${policy.minimumAge}`)
+      }
+    } else if (result.checks.documentValid) {
+      result.riskFactors.push('Date of birth could not be read for the age check')
+    }
+  }
+
+  /**
+   * Compare identity details across the order's documents, the Binance
+   * counterparty name and the counterparty's earlier orders
+   */
+  private async performConsistencyCheck(orderId: string, result: KYCResult): Promise<void> {
+    const report = await identityConsistencyService.check(orderId)
+    result.consistency = report
+
+    // The pairwise detail stays in the report; the risk factors name each field once
+    if (report.mismatches.length > 0) {
+      result.riskFactors.push(...identityConsistencyService.summarize(report.mismatches))
+      result.recommendations.push('Compare the mismatched identity details side by side before approving')
+    }
   }
 
   /**
    * Perform sanctions and PEP screening
    */
-  private async performSanctionsCheck(result: KYCResult): Promise<void> {
+  private async performSanctionsCheck(orderId: string, result: KYCResult): Promise<void> {
     if (!result.extractedData.fullName) {
       result.riskFactors.push('No name available for sanctions check')
       return
     }
 
     // Check against sanctions lists
-    const isSanctioned = await this.checkSanctionsList(result.extractedData.fullName)
+    const screening = await kycProviderService.screenSanctions({
+      fullName: result.extractedData.fullName,
+      dateOfBirth: result.extractedData.dateOfBirth,
+      nationality: result.extractedData.nationality,
+      orderId
+    })
+    result.providerResults.push(screening)
+    const isSanctioned = !screening.passed
     result.checks.sanctionsCheck = !isSanctioned
 
-    if (isSanctioned) {
+    if (screening.evidence.screened === false) {
+      result.riskFactors.push('Sanctions screening not performed: no list loaded')
+      result.recommendations.push('Load the sanctions lists and re-run verification, or screen the name manually')
+    } else if (screening.reviewRequired) {
+      result.riskFactors.push('Possible watchlist match queued for screening review')
+      result.recommendations.push('Resolve the screening review before approving')
+    } else if (isSanctioned) {
       result.riskFactors.push('Name found on sanctions list')
     }
   }
@@ -214,12 +446,16 @@ export class KYCService {
       addressVerification: 0.1
     }
 
+    // Checks that could not be run (null) are left out rather than failed
     let score = 0
+    let applicable = 0
     for (const [check, passed] of Object.entries(result.checks)) {
-      if (passed) {
-        score += weights[check as keyof typeof weights] || 0
-      }
+      const weight = weights[check as keyof typeof weights] || 0
+      if (passed === null) continue
+      applicable += weight
+      if (passed) score += weight
     }
+    if (applicable > 0) score /= applicable
 
     // Apply risk factor penalties
     const penalty = result.riskFactors.length * 0.1
@@ -230,6 +466,25 @@ export class KYCService {
    * Determine final KYC status
    */
   private determineKYCStatus(result: KYCResult): 'APPROVED' | 'REJECTED' | 'REQUIRES_REVIEW' {
+    // Policy failures no review can resolve
+    if (result.checks.documentNotExpired === false || result.checks.minimumAge === false) {
+      return 'REJECTED'
+    }
+
+    // A confirmed list match rejects even when other checks await an operator
+    const sanctionsHit = result.providerResults.some(
+      outcome => outcome.check === 'sanctions' && !outcome.passed && !outcome.reviewRequired
+    )
+    if (sanctionsHit) {
+      return 'REJECTED'
+    }
+
+    // A possible list match, or a check no provider could perform, is for an
+    // operator to decide, not grounds to reject
+    if (result.providerResults.some(outcome => outcome.reviewRequired)) {
+      return 'REQUIRES_REVIEW'
+    }
+
     if (result.score >= 0.9 && result.riskFactors.length === 0) {
       return 'APPROVED'
     } else if (result.score < 0.3 || result.riskFactors.some(f => f.includes('sanctions'))) {
@@ -240,16 +495,7 @@ export class KYCService {
   }
 
   // Helper methods
-  private parseDate(dateString: string): Date | undefined {
-    // Implementation would parse various date formats
-    try {
-      return new Date(dateString)
-    } catch {
-      return undefined
-    }
-  }
-
-  private async findSelfieDocument(orderId: string): Promise<any> {
+  private async findSelfieDocument(orderId: string): Promise<KycDocument | null> {
     return await prisma.document.findFirst({
       where: {
         orderId,
@@ -257,27 +503,6 @@ export class KYCService {
       }
     })
   }
-
-  private async performFaceMatch(idDoc: any, selfieDoc: any): Promise<boolean> {
-    // Implementation would use face recognition API
-    return Math.random() > 0.2 // 80% pass rate for demo
-  }
-
-  private async performLivenessCheck(selfieDoc: any): Promise<boolean> {
-    // Implementation would check for liveness indicators
-    return Math.random() > 0.1 // 90% pass rate for demo
-  }
-
-  private async verifyAddress(address?: string): Promise<boolean> {
-    if (!address) return false
-    // Implementation would verify address against databases
-    return Math.random() > 0.3 // 70% pass rate for demo
-  }
-
-  private async checkSanctionsList(name: string): Promise<boolean> {
-    // Implementation would check against actual sanctions databases
-    return Math.random() < 0.01 // 1% hit rate for demo
-  }
 }
 
 export const kycService = new KYCService()
\ No newline at end of file
@@ -0,0 +1,450 @@
+/**
+ * Ledger Service
+ *
+ * Double-leg P&L ledger for completed orders. Each completed BUY adds a
+ * FIFO inventory lot; each completed SELL consumes lots and realizes the
+ * margin over their cost. Spread is measured against a configurable
+ * reference rate per fiat currency. Orders that leave COMPLETED (disputes)
+ * are reversed with an offsetting entry rather than deleted.
+ */
+
+import { LedgerEntry, P2POrder, Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { LotAllocation } from '@/types'
+import { systemConfigService } from './systemConfigService'
+
+export const LEDGER_CONFIG_KEY = 'ledger_reference_rates'
+
+export interface LedgerConfig {
+  asset: string
+  // Reference / cost-basis rate per fiat currency, e.g. { INR: 88.5 }
+  referenceRates: Record<string, number>
+}
+
+export const DEFAULT_LEDGER_CONFIG: LedgerConfig = {
+  asset: 'USDT',
+  referenceRates: {}
+}
+
+export const PNL_GROUP_BY = ['currency', 'paymentMethod', 'operator'] as const
+
+const pnlQuerySchema = z.object({
+  period: z.enum(['daily', 'monthly']).default('daily'),
+  groupBy: z.enum(PNL_GROUP_BY).default('currency'),
+  currency: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+}).refine(
+  query => !query.from || !query.to || query.from <= query.to,
+  { message: 'from must not be after to', path: ['from'] }
+)
+
+export type PnlQuery = z.infer<typeof pnlQuerySchema>
+
+export interface PnlRow {
+  period: string
+  currency: string
+  group: string
+  trades: number
+  cryptoBought: number
+  cryptoSold: number
+  fiatSpent: number
+  fiatReceived: number
+  spread: number
+  realizedPnl: number
+}
+
+const CRYPTO_DECIMALS = 8
+const FIAT_DECIMALS = 2
+const ZERO = new Prisma.Decimal(0)
+
+// Serializable so concurrent completions cannot consume the same lot twice
+const LEDGER_TX_OPTIONS = { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+const MAX_SERIALIZATION_RETRIES = 3
+
+type LedgerOrder = Pick<
+  P2POrder,
+  'id' | 'orderType' | 'amount' | 'price' | 'currency' | 'paymentMethod' | 'operatorId' | 'status' | 'statusChangedAt'
+>
+
+export class LedgerService {
+  /**
+   * Read the ledger settings merged over defaults
+   */
+  async getConfig(): Promise<LedgerConfig> {
+    return await systemConfigService.get(LEDGER_CONFIG_KEY, DEFAULT_LEDGER_CONFIG)
+  }
+
+  /**
+   * Replace the reference rates used for spread and uncovered sells
+   */
+  async setReferenceRates(referenceRates: Record<string, number>, updatedBy: string): Promise<LedgerConfig> {
+    const config = { ...(await this.getConfig()), referenceRates }
+    await systemConfigService.set(LEDGER_CONFIG_KEY, config, updatedBy, 'Ledger reference rates per fiat currency')
+    return config
+  }
+
+  /**
+   * Bring an order's ledger entries in line with its current state. Posts a
+   * trade when it is COMPLETED, reverses the trade when it no longer is, and
+   * re-posts when the trade terms changed (e.g. corrected by an import).
+   */
+  async applyOrder(orderId: string): Promise<LedgerEntry | null> {
+    const config = await this.getConfig()
+
+    return await this.withRetry(() => prisma.$transaction(async (tx) => {
+      const order = await tx.p2POrder.findUnique({ where: { id: orderId } })
+      if (!order) {
+        throw new Error('Order not found')
+      }
+
+      const active = await tx.ledgerEntry.findFirst({
+        where: { orderId, entryType: 'TRADE', reversedBy: null }
+      })
+
+      if (active && (order.status !== 'COMPLETED' || !this.matchesOrder(active, order))) {
+        await this.reverseEntry(tx, active)
+      } else if (active) {
+        return active
+      }
+
+      return order.status === 'COMPLETED' ? await this.postTrade(tx, order, config) : null
+    }, LEDGER_TX_OPTIONS))
+  }
+
+  /**
+   * Apply an order to the ledger without letting a failure break the caller's flow
+   */
+  async syncOrder(orderId: string): Promise<void> {
+    try {
+      await this.applyOrder(orderId)
+    } catch (error) {
+      console.error(`Ledger sync failed for order ${orderId}:`, error)
+    }
+  }
+
+  /**
+   * Rebuild the ledger and inventory from scratch by replaying every
+   * completed order in completion order
+   */
+  async rebuild(): Promise<{ entries: number }> {
+    const config = await this.getConfig()
+
+    return await prisma.$transaction(async (tx) => {
+      // Reversals reference the entries they offset, so clear those first
+      await tx.ledgerEntry.deleteMany({ where: { entryType: 'REVERSAL' } })
+      await tx.ledgerEntry.deleteMany({})
+      await tx.inventoryLot.deleteMany({})
+
+      const orders = await tx.p2POrder.findMany({
+        where: { status: 'COMPLETED' },
+        orderBy: [{ statusChangedAt: 'asc' }, { id: 'asc' }]
+      })
+
+      for (const order of orders) {
+        await this.postTrade(tx, order, config)
+      }
+
+      return { entries: orders.length }
+    }, { ...LEDGER_TX_OPTIONS, timeout: 120000 })
+  }
+
+  /**
+   * Parse P&L report options from a query string
+   */
+  parsePnlQuery(searchParams: URLSearchParams) {
+    return pnlQuerySchema.safeParse(Object.fromEntries(searchParams.entries()))
+  }
+
+  /**
+   * Aggregate realized P&L and spread by period, currency and the requested dimension
+   */
+  async getPnl(query: PnlQuery) {
+    const to = query.to ?? new Date()
+    const from = query.from ?? this.defaultFrom(query.period, to)
+
+    const entries = await prisma.ledgerEntry.findMany({
+      where: {
+        tradeDate: { gte: from, lte: to },
+        currency: query.currency
+      },
+      include: { operator: { select: { name: true } } },
+      orderBy: { tradeDate: 'asc' }
+    })
+
+    const rows = new Map<string, PnlRow & { totals: Record<string, Prisma.Decimal> }>()
+    for (const entry of entries) {
+      const period = this.periodKey(entry.tradeDate, query.period)
+      const group = query.groupBy === 'currency'
+        ? entry.currency
+        : query.groupBy === 'paymentMethod'
+          ? entry.paymentMethod
+          : entry.operator?.name ?? entry.operatorId ?? 'Unassigned'
+
+      const key = `${period}|${entry.currency}|${group}`
+      let row = rows.get(key)
+      if (!row) {
+        row = {
+          period,
+          currency: entry.currency,
+          group,
+          trades: 0,
+          cryptoBought: 0,
+          cryptoSold: 0,
+          fiatSpent: 0,
+          fiatReceived: 0,
+          spread: 0,
+          realizedPnl: 0,
+          totals: {
+            cryptoBought: ZERO,
+            cryptoSold: ZERO,
+            fiatSpent: ZERO,
+            fiatReceived: ZERO,
+            spread: ZERO,
+            realizedPnl: ZERO
+          }
+        }
+        rows.set(key, row)
+      }
+
+      // Reversals carry negated legs, so summing them cancels the original trade
+      row.trades += entry.entryType === 'TRADE' ? 1 : -1
+      const legs = entry.side === 'BUY'
+        ? { cryptoBought: entry.cryptoDelta, fiatSpent: entry.fiatDelta.negated() }
+        : { cryptoSold: entry.cryptoDelta.negated(), fiatReceived: entry.fiatDelta }
+      for (const [field, value] of Object.entries(legs)) {
+        row.totals[field] = row.totals[field].plus(value)
+      }
+      row.totals.spread = row.totals.spread.plus(entry.spread)
+      row.totals.realizedPnl = row.totals.realizedPnl.plus(entry.realizedPnl)
+    }
+
+    return {
+      period: query.period,
+      groupBy: query.groupBy,
+      from,
+      to,
+      rows: Array.from(rows.values()).map(({ totals, ...row }) => ({
+        ...row,
+        cryptoBought: totals.cryptoBought.toDecimalPlaces(CRYPTO_DECIMALS).toNumber(),
+        cryptoSold: totals.cryptoSold.toDecimalPlaces(CRYPTO_DECIMALS).toNumber(),
+        fiatSpent: totals.fiatSpent.toDecimalPlaces(FIAT_DECIMALS).toNumber(),
+        fiatReceived: totals.fiatReceived.toDecimalPlaces(FIAT_DECIMALS).toNumber(),
+        spread: totals.spread.toDecimalPlaces(FIAT_DECIMALS).toNumber(),
+        realizedPnl: totals.realizedPnl.toDecimalPlaces(FIAT_DECIMALS).toNumber()
+      }))
+    }
+  }
+
+  /**
+   * Summarize open inventory per fiat currency with its weighted average cost
+   */
+  async getInventory() {
+    const lots = await prisma.inventoryLot.findMany({
+      where: { remainingQuantity: { gt: 0 } },
+      orderBy: { acquiredAt: 'asc' }
+    })
+
+    const byCurrency = new Map<string, { asset: string; quantity: Prisma.Decimal; cost: Prisma.Decimal; lots: number }>()
+    for (const lot of lots) {
+      const key = `${lot.asset}|${lot.currency}`
+      const summary = byCurrency.get(key) ?? { asset: lot.asset, quantity: ZERO, cost: ZERO, lots: 0 }
+      summary.quantity = summary.quantity.plus(lot.remainingQuantity)
+      summary.cost = summary.cost.plus(lot.remainingQuantity.times(lot.unitCost))
+      summary.lots++
+      byCurrency.set(key, summary)
+    }
+
+    return Array.from(byCurrency.entries()).map(([key, summary]) => ({
+      asset: summary.asset,
+      currency: key.split('|')[1],
+      quantity: summary.quantity.toDecimalPlaces(CRYPTO_DECIMALS).toNumber(),
+      averageCost: summary.quantity.isZero()
+        ? 0
+        : summary.cost.dividedBy(summary.quantity).toDecimalPlaces(FIAT_DECIMALS).toNumber(),
+      openLots: summary.lots
+    }))
+  }
+
+  /**
+   * Post the TRADE entry for a completed order, updating FIFO inventory
+   */
+  private async postTrade(tx: Prisma.TransactionClient, order: LedgerOrder, config: LedgerConfig): Promise<LedgerEntry> {
+    // amount is the fiat total; the crypto quantity follows from the unit price
+    const quantity = order.amount.dividedBy(order.price).toDecimalPlaces(CRYPTO_DECIMALS)
+    const rate = config.referenceRates[order.currency]
+    const referenceRate = rate !== undefined ? new Prisma.Decimal(rate) : null
+
+    const base = {
+      orderId: order.id,
+      entryType: 'TRADE' as const,
+      side: order.orderType,
+      asset: config.asset,
+      currency: order.currency,
+      paymentMethod: order.paymentMethod,
+      operatorId: order.operatorId,
+      price: order.price,
+      referenceRate,
+      tradeDate: order.statusChangedAt
+    }
+
+    if (order.orderType === 'BUY') {
+      const entry = await tx.ledgerEntry.create({
+        data: {
+          ...base,
+          cryptoDelta: quantity,
+          fiatDelta: order.amount.negated(),
+          // Buying below the reference rate is positive spread
+          spread: referenceRate ? referenceRate.minus(order.price).times(quantity).toDecimalPlaces(FIAT_DECIMALS) : ZERO
+        }
+      })
+
+      await tx.inventoryLot.create({
+        data: {
+          asset: config.asset,
+          currency: order.currency,
+          orderId: order.id,
+          sourceEntryId: entry.id,
+          quantity,
+          remainingQuantity: quantity,
+          unitCost: order.price,
+          acquiredAt: order.statusChangedAt
+        }
+      })
+
+      return entry
+    }
+
+    const lots = await tx.inventoryLot.findMany({
+      where: { asset: config.asset, currency: order.currency, remainingQuantity: { gt: 0 } },
+      orderBy: [{ acquiredAt: 'asc' }, { id: 'asc' }]
+    })
+
+    let outstanding = quantity
+    let costBasis = ZERO
+    const allocations: LotAllocation[] = []
+
+    for (const lot of lots) {
+      if (outstanding.lte(0)) break
+      const taken = Prisma.Decimal.min(outstanding, lot.remainingQuantity)
+
+      await tx.inventoryLot.update({
+        where: { id: lot.id },
+        data: { remainingQuantity: lot.remainingQuantity.minus(taken) }
+      })
+
+      allocations.push({ lotId: lot.id, quantity: taken.toNumber(), unitCost: lot.unitCost.toNumber() })
+      costBasis = costBasis.plus(taken.times(lot.unitCost))
+      outstanding = outstanding.minus(taken)
+    }
+
+    // Crypto sold beyond recorded inventory is costed at the reference rate,
+    // or at the sale price (no realized margin) when none is configured
+    if (outstanding.gt(0)) {
+      costBasis = costBasis.plus(outstanding.times(referenceRate ?? order.price))
+    }
+
+    return await tx.ledgerEntry.create({
+      data: {
+        ...base,
+        cryptoDelta: quantity.negated(),
+        fiatDelta: order.amount,
+        spread: referenceRate ? order.price.minus(referenceRate).times(quantity).toDecimalPlaces(FIAT_DECIMALS) : ZERO,
+        costBasis: costBasis.toDecimalPlaces(FIAT_DECIMALS),
+        realizedPnl: order.amount.minus(costBasis).toDecimalPlaces(FIAT_DECIMALS),
+        unmatchedQuantity: outstanding,
+        lotAllocations: allocations as unknown as Prisma.InputJsonValue
+      }
+    })
+  }
+
+  /**
+   * Offset a TRADE entry and undo its effect on inventory
+   */
+  private async reverseEntry(tx: Prisma.TransactionClient, entry: LedgerEntry): Promise<LedgerEntry> {
+    let allocations: LotAllocation[] = []
+
+    if (entry.side === 'SELL') {
+      // Put the sold crypto back into the lots it was taken from
+      allocations = (entry.lotAllocations as unknown as LotAllocation[] | null) ?? []
+      for (const allocation of allocations) {
+        await tx.inventoryLot.update({
+          where: { id: allocation.lotId },
+          data: { remainingQuantity: { increment: allocation.quantity } }
+        })
+      }
+    } else {
+      // Withdraw whatever is left of the bought lot; any part already sold
+      // stays with those sales until the ledger is rebuilt
+      const lot = await tx.inventoryLot.findUnique({ where: { sourceEntryId: entry.id } })
+      if (lot) {
+        allocations = [{ lotId: lot.id, quantity: lot.remainingQuantity.toNumber(), unitCost: lot.unitCost.toNumber() }]
+        await tx.inventoryLot.update({
+          where: { id: lot.id },
+          data: { remainingQuantity: 0 }
+        })
+      }
+    }
+
+    return await tx.ledgerEntry.create({
+      data: {
+        orderId: entry.orderId,
+        entryType: 'REVERSAL',
+        side: entry.side,
+        asset: entry.asset,
+        currency: entry.currency,
+        paymentMethod: entry.paymentMethod,
+        operatorId: entry.operatorId,
+        price: entry.price,
+        referenceRate: entry.referenceRate,
+        cryptoDelta: entry.cryptoDelta.negated(),
+        fiatDelta: entry.fiatDelta.negated(),
+        spread: entry.spread.negated(),
+        costBasis: entry.costBasis.negated(),
+        realizedPnl: entry.realizedPnl.negated(),
+        unmatchedQuantity: entry.unmatchedQuantity.negated(),
+        lotAllocations: allocations as unknown as Prisma.InputJsonValue,
+        reversesEntryId: entry.id,
+        tradeDate: new Date()
+      }
+    })
+  }
+
+  private matchesOrder(entry: LedgerEntry, order: LedgerOrder): boolean {
+    return entry.side === order.orderType &&
+      entry.currency === order.currency &&
+      entry.price.equals(order.price) &&
+      entry.fiatDelta.abs().equals(order.amount)
+  }
+
+  private periodKey(date: Date, period: PnlQuery['period']): string {
+    const iso = date.toISOString()
+    return period === 'daily' ? iso.slice(0, 10) : iso.slice(0, 7)
+  }
+
+  private defaultFrom(period: PnlQuery['period'], to: Date): Date {
+    const from = new Date(to)
+    if (period === 'daily') {
+      from.setUTCDate(from.getUTCDate() - 30)
+    } else {
+      from.setUTCMonth(from.getUTCMonth() - 12, 1)
+      from.setUTCHours(0, 0, 0, 0)
+    }
+    return from
+  }
+
+  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation()
+      } catch (error) {
+        // P2034: transaction failed due to a write conflict or deadlock
+        const conflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034'
+        if (!conflict || attempt >= MAX_SERIALIZATION_RETRIES) throw error
+      }
+    }
+  }
+}
+
+export const ledgerService = new LedgerService()
@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { linkAnalysisService } from './linkAnalysisService'
+
+const db = vi.hoisted(() => ({
+  counterpartyIdentifier: { groupBy: vi.fn(), findMany: vi.fn() },
+  p2POrder: { findMany: vi.fn() }
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+
+const IDENTIFIERS = [
+  { counterpartyId: 'cp-a', type: 'UPI_ID', value: 'ring@upi' },
+  { counterpartyId: 'cp-b', type: 'UPI_ID', value: 'ring@upi' },
+  { counterpartyId: 'cp-b', type: 'PHONE', value: '9876543210' },
+  { counterpartyId: 'cp-c', type: 'PHONE', value: '9876543210' },
+  { counterpartyId: 'cp-d', type: 'BANK_ACCOUNT', value: '123456789012' },
+  { counterpartyId: 'cp-e', type: 'BANK_ACCOUNT', value: '123456789012' },
+  // Same value under another type, which is not shared
+  { counterpartyId: 'cp-f', type: 'UPI_ID', value: '9876543210' }
+]
+
+beforeEach(() => {
+  vi.resetAllMocks()
+  db.counterpartyIdentifier.groupBy.mockResolvedValue([
+    { type: 'UPI_ID', value: 'ring@upi' },
+    { type: 'PHONE', value: '9876543210' },
+    { type: 'BANK_ACCOUNT', value: '123456789012' }
+  ])
+  db.counterpartyIdentifier.findMany.mockImplementation(async ({ where }: { where: { value: { in: string[] } } }) =>
+    IDENTIFIERS.filter(identifier => where.value.in.includes(identifier.value)))
+  // cp-d has a disputed order
+  db.p2POrder.findMany.mockImplementation(async ({ where }: { where: { OR?: unknown } }) =>
+    where.OR ? [{ id: 'order-1', counterpartyId: 'cp-d' }] : [])
+})
+
+describe('findClusters', () => {
+  it('groups the holders of shared identifiers, flagged groups first', async () => {
+    const clusters = await linkAnalysisService.findClusters({ maxIdentifierFanout: 10 })
+
+    expect(clusters).toEqual([
+      { counterpartyIds: ['cp-d', 'cp-e'], flaggedCounterpartyIds: ['cp-d'], sharedIdentifiers: 1 },
+      { counterpartyIds: ['cp-a', 'cp-b', 'cp-c'], flaggedCounterpartyIds: [], sharedIdentifiers: 2 }
+    ])
+  })
+
+  it('leaves counting and the fanout limit to the database', async () => {
+    await linkAnalysisService.findClusters({ maxIdentifierFanout: 10, identifierTypes: ['PHONE'] })
+
+    const [query] = db.counterpartyIdentifier.groupBy.mock.calls[0]
+    expect(query).toMatchObject({
+      by: ['type', 'value'],
+      where: { type: { in: ['PHONE'] } },
+      having: { counterpartyId: { _count: { gte: 2, lte: 10 } } }
+    })
+    // A short first page is the last
+    expect(db.counterpartyIdentifier.groupBy).toHaveBeenCalledTimes(1)
+  })
+})
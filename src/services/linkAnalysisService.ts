@@ -0,0 +1,497 @@
+/**
+ * Link Analysis Service
+ *
+ * Scammers rotate Binance accounts but reuse bank accounts, UPI handles,
+ * phone numbers, names and ID documents. This service indexes those
+ * identifiers per counterparty from orders, KYC data, document OCR text and
+ * chat, then walks the graph of counterparties that share them so rings can
+ * be investigated and the risk engine can see links to flagged accounts.
+ */
+
+import { IdentifierType, Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { normalizePaymentAccount } from '@/lib/paymentAccount'
+import { ocrService } from './ocrService'
+
+type IdentifierSource = 'ORDER' | 'KYC' | 'DOCUMENT' | 'CHAT'
+
+interface FoundIdentifier {
+  type: IdentifierType
+  value: string
+  source: IdentifierSource
+  sourceRef: string
+}
+
+export type FlagReason = 'DISPUTES' | 'KYC_REJECTED'
+
+export interface LinkNode {
+  counterpartyId: string
+  displayName: string | null
+  // Hops from the counterparty the graph was built around
+  depth: number
+  flagReasons: FlagReason[]
+  // Disputed orders and orders with rejected KYC behind the flags
+  flaggedOrderIds: string[]
+}
+
+export interface LinkEdge {
+  from: string
+  to: string
+  identifiers: Array<{ type: IdentifierType; value: string }>
+}
+
+export interface LinkGraph {
+  root: string
+  nodes: LinkNode[]
+  edges: LinkEdge[]
+  // True when maxNodes stopped the walk before the graph was exhausted
+  truncated: boolean
+}
+
+export interface LinkGraphOptions {
+  maxDepth?: number
+  maxNodes?: number
+  identifierTypes?: IdentifierType[]
+  maxIdentifierFanout?: number
+}
+
+export interface LinkCluster {
+  counterpartyIds: string[]
+  flaggedCounterpartyIds: string[]
+  sharedIdentifiers: number
+}
+
+const DEFAULT_MAX_DEPTH = 2
+const DEFAULT_MAX_NODES = 200
+// Identifiers shared by more counterparties than this (a common name, a
+// bank's helpline number) say nothing about a ring and are not followed
+const DEFAULT_MAX_IDENTIFIER_FANOUT = 25
+// Shared identifiers read per query when building clusters
+const CLUSTER_PAGE_SIZE = 1000
+
+const identifierTypes = z.string()
+  .transform(value => value.split(',').map(v => v.trim().toUpperCase()).filter(Boolean))
+  .pipe(z.array(z.nativeEnum(IdentifierType)).min(1))
+
+const linkGraphQuerySchema = z.object({
+  depth: z.coerce.number().int().min(1).max(4).default(DEFAULT_MAX_DEPTH),
+  maxNodes: z.coerce.number().int().min(1).max(1000).default(DEFAULT_MAX_NODES),
+  types: identifierTypes.optional()
+})
+
+const clusterQuerySchema = z.object({
+  minSize: z.coerce.number().int().min(2).default(2),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  types: identifierTypes.optional()
+})
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)+/gi
+const UPI_PATTERN = /\b[a-z0-9._-]{2,}@[a-z]{2,}\b/gi
+const INDIAN_PHONE_PATTERN = /(?:\+?91[\s-]?)?\b[6-9]\d{4}[\s-]?\d{5}\b/g
+const INTERNATIONAL_PHONE_PATTERN = /\+\d[\d\s-]{8,14}\d/g
+// Only labelled numbers: bare digit runs in chat are usually UTRs or order numbers
+const ACCOUNT_PATTERN = /\b(?:a\/c|acc(?:ount)?|ac)\.?\s*(?:no\.?|number|#)?\s*[:\-]?\s*(\d[\d\s-]{7,20}\d)/gi
+
+export class LinkAnalysisService {
+  parseGraphQuery(searchParams: URLSearchParams) {
+    return linkGraphQuerySchema.safeParse(Object.fromEntries(searchParams.entries()))
+  }
+
+  parseClusterQuery(searchParams: URLSearchParams) {
+    return clusterQuerySchema.safeParse(Object.fromEntries(searchParams.entries()))
+  }
+
+  /**
+   * Rebuild the identifier index for one counterparty from its orders
+   */
+  async refreshIdentifiers(externalId: string): Promise<number> {
+    const orders = await prisma.p2POrder.findMany({
+      where: { counterpartyId: externalId },
+      select: {
+        id: true,
+        paymentAccount: true,
+        kycVerification: { select: { verificationData: true } },
+        documents: {
+          select: { id: true, fileType: true, ocrText: true, kycData: { select: { extractedData: true } } }
+        },
+        chatMessages: { where: { isFromUser: true }, select: { id: true, content: true } }
+      }
+    })
+
+    const found: FoundIdentifier[] = []
+
+    for (const order of orders) {
+      const account = normalizePaymentAccount(order.paymentAccount)
+      if (account) {
+        found.push({ type: account.includes('@') ? 'UPI_ID' : 'BANK_ACCOUNT', value: account, source: 'ORDER', sourceRef: order.id })
+      }
+
+      const verificationData = order.kycVerification?.verificationData as Record<string, any> | undefined
+      found.push(...this.fromRecord(verificationData?.extractedData, 'KYC', order.id))
+
+      for (const document of order.documents) {
+        found.push(...this.fromRecord(document.kycData?.extractedData, 'DOCUMENT', document.id))
+        if (!document.ocrText) continue
+
+        found.push(...this.fromText(document.ocrText, 'DOCUMENT', document.id))
+        if (document.fileType === 'BANK_STATEMENT') {
+          const extracted = await ocrService.extractPatterns(document.ocrText, 'BANK_STATEMENT')
+          for (const [pattern, value] of Object.entries(extracted)) {
+            if (pattern.includes('ACCOUNT') && typeof value === 'string') {
+              this.push(found, 'BANK_ACCOUNT', value, 'DOCUMENT', document.id)
+            }
+          }
+        }
+      }
+
+      for (const message of order.chatMessages) {
+        found.push(...this.fromText(message.content, 'CHAT', message.id))
+      }
+    }
+
+    const unique = new Map<string, FoundIdentifier>()
+    for (const identifier of found) {
+      const key = `${identifier.type}:${identifier.value}`
+      if (!unique.has(key)) unique.set(key, identifier)
+    }
+
+    await prisma.$transaction([
+      prisma.counterpartyIdentifier.deleteMany({ where: { counterpartyId: externalId } }),
+      prisma.counterpartyIdentifier.createMany({
+        data: Array.from(unique.values()).map(identifier => ({ counterpartyId: externalId, ...identifier }))
+      })
+    ])
+
+    return unique.size
+  }
+
+  /**
+   * Re-index the counterparty of an order without failing the caller
+   */
+  async syncOrder(orderId: string): Promise<void> {
+    try {
+      const order = await prisma.p2POrder.findUnique({ where: { id: orderId }, select: { counterpartyId: true } })
+      if (order) await this.refreshIdentifiers(order.counterpartyId)
+    } catch (error) {
+      console.error(`Identifier refresh failed for order ${orderId}:`, error)
+    }
+  }
+
+  /**
+   * Breadth-first walk from a counterparty through shared identifiers
+   */
+  async getLinkGraph(externalId: string, options: LinkGraphOptions = {}): Promise<LinkGraph> {
+    const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH
+    const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES
+    const maxFanout = options.maxIdentifierFanout ?? DEFAULT_MAX_IDENTIFIER_FANOUT
+    const typeFilter: Prisma.CounterpartyIdentifierWhereInput = options.identifierTypes
+      ? { type: { in: options.identifierTypes } }
+      : {}
+
+    const depths = new Map<string, number>([[externalId, 0]])
+    const edges = new Map<string, LinkEdge>()
+    let frontier = [externalId]
+    let truncated = false
+
+    for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+      const own = await prisma.counterpartyIdentifier.findMany({
+        where: { counterpartyId: { in: frontier }, ...typeFilter }
+      })
+      if (own.length === 0) break
+
+      const matches = await prisma.counterpartyIdentifier.findMany({
+        where: { value: { in: Array.from(new Set(own.map(i => i.value))) }, ...typeFilter }
+      })
+
+      const holders = new Map<string, string[]>()
+      for (const match of matches) {
+        const key = `${match.type}:${match.value}`
+        holders.set(key, [...(holders.get(key) ?? []), match.counterpartyId])
+      }
+
+      const next: string[] = []
+      for (const identifier of own) {
+        const sharedWith = holders.get(`${identifier.type}:${identifier.value}`) ?? []
+        if (sharedWith.length > maxFanout) continue
+
+        for (const other of sharedWith) {
+          if (other === identifier.counterpartyId) continue
+
+          if (!depths.has(other)) {
+            if (depths.size >= maxNodes) {
+              truncated = true
+              continue
+            }
+            depths.set(other, depth + 1)
+            next.push(other)
+          }
+
+          this.addEdge(edges, identifier.counterpartyId, other, identifier)
+        }
+      }
+
+      frontier = next
+    }
+
+    const counterpartyIds = Array.from(depths.keys())
+    const [profiles, flags] = await Promise.all([
+      prisma.counterparty.findMany({
+        where: { externalId: { in: counterpartyIds } },
+        select: { externalId: true, displayName: true }
+      }),
+      this.findFlags(counterpartyIds)
+    ])
+    const names = new Map(profiles.map(p => [p.externalId, p.displayName]))
+
+    return {
+      root: externalId,
+      nodes: counterpartyIds.map(id => ({
+        counterpartyId: id,
+        displayName: names.get(id) ?? null,
+        depth: depths.get(id)!,
+        flagReasons: flags.get(id)?.reasons ?? [],
+        flaggedOrderIds: flags.get(id)?.orderIds ?? []
+      })),
+      edges: Array.from(edges.values()),
+      truncated
+    }
+  }
+
+  /**
+   * Counterparties linked to a flagged counterparty, for risk assessment
+   */
+  async findFlaggedLinks(externalId: string, options: LinkGraphOptions = {}) {
+    const graph = await this.getLinkGraph(externalId, options)
+    const linked = graph.nodes.filter(node => node.depth > 0)
+    const flagged = linked.filter(node => node.flagReasons.length > 0)
+
+    return {
+      linkedCount: linked.length,
+      flagged,
+      nearestFlaggedDepth: flagged.length > 0 ? Math.min(...flagged.map(node => node.depth)) : null
+    }
+  }
+
+  /**
+   * Connected groups of counterparties sharing identifiers, flagged groups
+   * first. Only identifiers held by between two and maxFanout counterparties
+   * are read, a page at a time, so unshared rows never leave the database.
+   */
+  async findClusters(options: { minSize?: number; limit?: number; identifierTypes?: IdentifierType[]; maxIdentifierFanout?: number } = {}): Promise<LinkCluster[]> {
+    const minSize = options.minSize ?? 2
+    const maxFanout = options.maxIdentifierFanout ?? DEFAULT_MAX_IDENTIFIER_FANOUT
+    const typeFilter: Prisma.CounterpartyIdentifierWhereInput = options.identifierTypes
+      ? { type: { in: options.identifierTypes } }
+      : {}
+
+    // Union-find over counterparties joined by each shared identifier
+    const parent = new Map<string, string>()
+    const find = (id: string): string => {
+      let root = id
+      while (parent.has(root) && parent.get(root) !== root) root = parent.get(root)!
+      parent.set(id, root)
+      return root
+    }
+
+    const sharedCounts = new Map<string, number>()
+    // One holder of each shared identifier, to count them per group at the end
+    const shared: string[] = []
+    for await (const ids of this.sharedIdentifierHolders(typeFilter, maxFanout)) {
+      shared.push(ids[0])
+      ids.forEach(id => parent.set(id, parent.get(id) ?? id))
+      ids.slice(1).forEach(id => parent.set(find(id), find(ids[0])))
+    }
+    shared.forEach(id => {
+      const root = find(id)
+      sharedCounts.set(root, (sharedCounts.get(root) ?? 0) + 1)
+    })
+
+    const groups = new Map<string, string[]>()
+    parent.forEach((_, id) => {
+      const root = find(id)
+      groups.set(root, [...(groups.get(root) ?? []), id])
+    })
+
+    const candidates = Array.from(groups.entries()).filter(([, ids]) => ids.length >= minSize)
+    const flags = await this.findFlags(candidates.flatMap(([, ids]) => ids))
+
+    return candidates
+      .map(([root, ids]) => ({
+        counterpartyIds: ids.sort(),
+        flaggedCounterpartyIds: ids.filter(id => flags.has(id)),
+        sharedIdentifiers: sharedCounts.get(root) ?? 0
+      }))
+      .sort((a, b) =>
+        b.flaggedCounterpartyIds.length - a.flaggedCounterpartyIds.length ||
+        b.counterpartyIds.length - a.counterpartyIds.length
+      )
+      .slice(0, options.limit ?? 100)
+  }
+
+  /**
+   * Holders of each identifier shared by two to maxFanout counterparties,
+   * paged over the grouped (type, value) index
+   */
+  private async *sharedIdentifierHolders(
+    typeFilter: Prisma.CounterpartyIdentifierWhereInput,
+    maxFanout: number
+  ): AsyncGenerator<string[]> {
+    for (let skip = 0; ; skip += CLUSTER_PAGE_SIZE) {
+      const page = await prisma.counterpartyIdentifier.groupBy({
+        by: ['type', 'value'],
+        where: typeFilter,
+        having: { counterpartyId: { _count: { gte: 2, lte: maxFanout } } },
+        orderBy: [{ type: 'asc' }, { value: 'asc' }],
+        skip,
+        take: CLUSTER_PAGE_SIZE
+      })
+      if (page.length === 0) return
+
+      const keys = new Set(page.map(group => `${group.type}:${group.value}`))
+      const rows = await prisma.counterpartyIdentifier.findMany({
+        where: { value: { in: Array.from(new Set(page.map(group => group.value))) }, ...typeFilter },
+        select: { counterpartyId: true, type: true, value: true }
+      })
+
+      const holders = new Map<string, string[]>()
+      for (const row of rows) {
+        const key = `${row.type}:${row.value}`
+        if (keys.has(key)) holders.set(key, [...(holders.get(key) ?? []), row.counterpartyId])
+      }
+      yield* Array.from(holders.values())
+
+      if (page.length < CLUSTER_PAGE_SIZE) return
+    }
+  }
+
+  /**
+   * Disputed orders and rejected KYC per counterparty
+   */
+  private async findFlags(counterpartyIds: string[]) {
+    const flags = new Map<string, { reasons: FlagReason[]; orderIds: string[] }>()
+    if (counterpartyIds.length === 0) return flags
+
+    const [disputed, rejected] = await Promise.all([
+      prisma.p2POrder.findMany({
+        where: {
+          counterpartyId: { in: counterpartyIds },
+          OR: [{ status: 'DISPUTED' }, { disputeCases: { some: {} } }]
+        },
+        select: { id: true, counterpartyId: true }
+      }),
+      prisma.p2POrder.findMany({
+        where: { counterpartyId: { in: counterpartyIds }, kycVerification: { status: 'REJECTED' } },
+        select: { id: true, counterpartyId: true }
+      })
+    ])
+
+    const flag = (order: { id: string; counterpartyId: string }, reason: FlagReason) => {
+      const entry = flags.get(order.counterpartyId) ?? { reasons: [], orderIds: [] }
+      if (!entry.reasons.includes(reason)) entry.reasons.push(reason)
+      if (!entry.orderIds.includes(order.id)) entry.orderIds.push(order.id)
+      flags.set(order.counterpartyId, entry)
+    }
+    disputed.forEach(order => flag(order, 'DISPUTES'))
+    rejected.forEach(order => flag(order, 'KYC_REJECTED'))
+
+    return flags
+  }
+
+  private addEdge(edges: Map<string, LinkEdge>, a: string, b: string, identifier: { type: IdentifierType; value: string }) {
+    const [from, to] = a < b ? [a, b] : [b, a]
+    const key = `${from}|${to}`
+    const edge = edges.get(key) ?? { from, to, identifiers: [] }
+
+    if (!edge.identifiers.some(i => i.type === identifier.type && i.value === identifier.value)) {
+      edge.identifiers.push({ type: identifier.type, value: identifier.value })
+    }
+    edges.set(key, edge)
+  }
+
+  /**
+   * Identifiers from structured KYC data, whichever extractor produced it
+   */
+  private fromRecord(data: unknown, source: IdentifierSource, sourceRef: string): FoundIdentifier[] {
+    if (!data || typeof data !== 'object') return []
+
+    const found: FoundIdentifier[] = []
+    const fields: Array<[IdentifierType, string[]]> = [
+      ['PERSON_NAME', ['fullName', 'name']],
+      ['ID_DOCUMENT', ['documentNumber', 'idNumber', 'passportNumber']],
+      ['PHONE', ['phone', 'phoneNumber', 'mobile']],
+      ['EMAIL', ['email']],
+      ['BANK_ACCOUNT', ['accountNumber', 'bankAccount']],
+      ['UPI_ID', ['upiId', 'vpa']]
+    ]
+
+    for (const [type, keys] of fields) {
+      for (const key of keys) {
+        const value = (data as Record<string, unknown>)[key]
+        if (typeof value === 'string') this.push(found, type, value, source, sourceRef)
+      }
+    }
+
+    return found
+  }
+
+  /**
+   * Identifiers mentioned in free text (chat messages, OCR text)
+   */
+  private fromText(text: string, source: IdentifierSource, sourceRef: string): FoundIdentifier[] {
+    const found: FoundIdentifier[] = []
+    let rest = text
+
+    // Take emails out first so their local part is not read as a UPI handle
+    for (const match of rest.match(EMAIL_PATTERN) ?? []) this.push(found, 'EMAIL', match, source, sourceRef)
+    rest = rest.replace(EMAIL_PATTERN, ' ')
+
+    for (const match of rest.match(UPI_PATTERN) ?? []) this.push(found, 'UPI_ID', match, source, sourceRef)
+    rest = rest.replace(ACCOUNT_PATTERN, (_, digits: string) => {
+      this.push(found, 'BANK_ACCOUNT', digits, source, sourceRef)
+      return ' '
+    })
+
+    for (const match of rest.match(INTERNATIONAL_PHONE_PATTERN) ?? []) this.push(found, 'PHONE', match, source, sourceRef)
+    rest = rest.replace(INTERNATIONAL_PHONE_PATTERN, ' ')
+    for (const match of rest.match(INDIAN_PHONE_PATTERN) ?? []) this.push(found, 'PHONE', match, source, sourceRef)
+
+    return found
+  }
+
+  private push(found: FoundIdentifier[], type: IdentifierType, raw: string, source: IdentifierSource, sourceRef: string) {
+    const value = this.normalize(type, raw)
+    if (value) found.push({ type, value, source, sourceRef })
+  }
+
+  private normalize(type: IdentifierType, raw: string): string | null {
+    switch (type) {
+      case 'PHONE': {
+        const digits = raw.replace(/\D/g, '')
+        // Bare 10-digit numbers are Indian mobiles
+        const international = digits.length === 10 ? `91${digits}` : digits
+        return international.length >= 10 ? `+${international}` : null
+      }
+      case 'EMAIL':
+        return raw.trim().toLowerCase() || null
+      case 'UPI_ID':
+        return normalizePaymentAccount(raw)
+      case 'BANK_ACCOUNT': {
+        const digits = raw.replace(/\D/g, '')
+        return digits.length >= 6 ? digits : null
+      }
+      case 'PERSON_NAME': {
+        const name = raw.toUpperCase().replace(/[^A-Z\s]/g, ' ').replace(/\s+/g, ' ').trim()
+        return name.length >= 3 ? name : null
+      }
+      case 'ID_DOCUMENT': {
+        const number = raw.toUpperCase().replace(/[^A-Z0-9]/g, '')
+        // A masked Aadhaar number keeps only its last four digits, too few to link on
+        if (/^X{8}\d{4}$/.test(number)) return null
+        return number.length >= 5 ? number : null
+      }
+    }
+  }
+}
+
+export const linkAnalysisService = new LinkAnalysisService()
@@ -5,8 +5,32 @@
  * Integrates with multiple OCR providers for redundancy
  */
 
+import { Prisma } from '@prisma/client'
+import { INDIAN_ID_FILE_TYPES, findDocumentProfile, redactAadhaarNumbers } from '@/lib/indianDocuments'
+import { parseMrz } from '@/lib/mrz'
 import { prisma } from '@/lib/prisma'
 
+// Key of the parsed machine-readable zone in extractPatterns results
+export const MRZ_FIELD = 'MRZ'
+
+// Document types that carry an ICAO machine-readable zone
+const MRZ_DOCUMENT_TYPES = ['PASSPORT', 'ID_CARD']
+
+// Key of the Aadhaar/PAN/voter ID profile result in extractPatterns results
+// and stored KYC extractions
+export const DOCUMENT_PROFILE_FIELD = 'documentProfile'
+
+// Printed dates: 15/08/1990, 15-08-90, 1990-08-15, 15 AUG 1990, 15 AUG/AOUT 1990
+const PRINTED_DATE = '(\\d{4}-\\d{2}-\\d{2}|\\d{1,2}[\\/\\-. ]\\s*(?:\\d{1,2}|[A-Z]{3,9})(?:\\s*\\/\\s*[A-Z]{3,9})?[\\/\\-. ]\\s*\\d{2,4})'
+const BIRTH_DATE_PATTERN = new RegExp(`(?:DATE\\s*OF\\s*BIRTH|DOB)\\s*:?\\s*${PRINTED_DATE}`, 'i')
+const ISSUE_DATE_PATTERN = new RegExp(`(?:DATE\\s*OF\\s*ISSUE|ISSUE\\s*DATE|ISSUED\\s*ON)\\s*:?\\s*${PRINTED_DATE}`, 'i')
+const EXPIRY_DATE_PATTERN = new RegExp(`(?:DATE\\s*OF\\s*EXPIRY|EXPIRY\\s*DATE|EXPIRES|VALID\\s*(?:UNTIL|TILL|UPTO|THRU))[^:\\d]{0,12}:?\\s*${PRINTED_DATE}`, 'i')
+// The label and up to two continuation lines that carry no label of their own
+const ADDRESS_PATTERN = /(?:ADDRESS|ADDR\.?)\s*:?[ \t]*\n?([^\n:]+(?:\n(?![^\n]*:)[^\n]+){0,2})/i
+
+// Uploads that identify the holder
+export const ID_DOCUMENT_TYPES = ['ID_CARD', 'PASSPORT', 'DRIVERS_LICENSE', ...INDIAN_ID_FILE_TYPES]
+
 export interface OCRResult {
   text: string
   confidence: number
@@ -58,6 +82,23 @@ export class OCRService {
         }
       }
 
+      // Profiles read the raw text, since the Aadhaar checksum needs the
+      // full number; nothing unmasked is stored or returned
+      const profile = findDocumentProfile(result.text, document.fileType)
+      if (profile) {
+        const profileResult = profile.extract(result.text)
+        const extractedData = {
+          ...profileResult.fields,
+          [DOCUMENT_PROFILE_FIELD]: profileResult
+        } as unknown as Prisma.InputJsonValue
+        await prisma.kycExtraction.upsert({
+          where: { documentId },
+          update: { extractedData, confidence: result.confidence },
+          create: { documentId, extractedData, confidence: result.confidence }
+        })
+      }
+      result = this.redact(result, profile?.type === 'AADHAAR')
+
       // Store OCR results
       await prisma.document.update({
         where: { id: documentId },
@@ -80,6 +121,20 @@ export class OCRService {
     }
   }
 
+  /**
+   * Mask Aadhaar numbers in the text and bounding boxes of an OCR result
+   */
+  private redact(result: OCRResult, isAadhaarDocument: boolean): OCRResult {
+    return {
+      ...result,
+      text: redactAadhaarNumbers(result.text, isAadhaarDocument),
+      boundingBoxes: result.boundingBoxes.map(box => ({
+        ...box,
+        text: redactAadhaarNumbers(box.text, isAadhaarDocument)
+      }))
+    }
+  }
+
   /**
    * Perform OCR using specified provider
    */
@@ -107,13 +162,27 @@ export class OCRService {
       ID_CARD: [
         /ID\s*(?:NO|NUMBER)?\s*:?\s*([A-Z0-9]+)/i,
         /NAME\s*:?\s*([A-Z\s]+)/i,
-        /DOB\s*:?\s*(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})/i
+        /DOB\s*:?\s*(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})/i,
+        ISSUE_DATE_PATTERN,
+        EXPIRY_DATE_PATTERN,
+        ADDRESS_PATTERN
       ],
       PASSPORT: [
         /PASSPORT\s*(?:NO|NUMBER)?\s*:?\s*([A-Z0-9]+)/i,
         /SURNAME\s*:?\s*([A-Z\s]+)/i,
-        /GIVEN\s*NAMES?\s*:?\s*([A-Z\s]+)/i
+        /GIVEN\s*NAMES?\s*:?\s*([A-Z\s]+)/i,
+        BIRTH_DATE_PATTERN,
+        ISSUE_DATE_PATTERN,
+        EXPIRY_DATE_PATTERN
       ],
+      DRIVERS_LICENSE: [
+        BIRTH_DATE_PATTERN,
+        ISSUE_DATE_PATTERN,
+        EXPIRY_DATE_PATTERN,
+        ADDRESS_PATTERN
+      ],
+      AADHAAR: [ADDRESS_PATTERN],
+      VOTER_ID: [ADDRESS_PATTERN],
       BANK_STATEMENT: [
         /ACCOUNT\s*(?:NO|NUMBER)?\s*:?\s*([0-9\-]+)/i,
         /BALANCE\s*:?\s*([0-9,\.]+)/i
@@ -130,6 +199,15 @@ export class OCRService {
       }
     }
 
+    // The MRZ is the most reliable data on the page when present
+    if (MRZ_DOCUMENT_TYPES.includes(documentType)) {
+      const mrz = parseMrz(text)
+      if (mrz) extracted[MRZ_FIELD] = mrz
+    }
+
+    const profile = findDocumentProfile(text, documentType)
+    if (profile) extracted[DOCUMENT_PROFILE_FIELD] = profile.extract(text)
+
     return extracted
   }
 }
@@ -0,0 +1,342 @@
+/**
+ * Order Export Service
+ *
+ * Streams filtered orders joined with their KYC verification, risk
+ * assessment and audit trail as CSV, XLSX or JSON Lines for auditors.
+ * Rows are read in cursor batches so large exports never sit in memory,
+ * and every export is written to the audit log before its first byte and
+ * completed with the row count when the stream ends.
+ */
+
+import { PassThrough } from 'stream'
+import ExcelJS from 'exceljs'
+import { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { formatCsvRow } from '@/lib/csv'
+import { maskDate, maskIdentifier, maskName } from '@/lib/masking'
+import { auditService } from './auditService'
+import { orderQueryService, OrderQuery } from './orderQueryService'
+
+export type ExportFormat = 'csv' | 'xlsx' | 'jsonl'
+
+type ExportValue = string | number | boolean | Date | null
+
+const EXPORT_INCLUDE = {
+  operator: { select: { id: true, name: true } },
+  kycVerification: true,
+  riskAssessment: true,
+  auditLogs: {
+    select: { action: true, operatorId: true, timestamp: true },
+    orderBy: { timestamp: 'asc' as const }
+  }
+} satisfies Prisma.P2POrderInclude
+
+type ExportOrder = Prisma.P2POrderGetPayload<{ include: typeof EXPORT_INCLUDE }>
+
+interface ExportColumn {
+  header: string
+  // How the value is masked when PII masking is requested
+  pii?: 'name' | 'identifier' | 'date'
+  value: (order: ExportOrder) => ExportValue
+}
+
+const kycData = (order: ExportOrder): Record<string, any> =>
+  ((order.kycVerification?.verificationData as Record<string, any> | undefined)?.extractedData) ?? {}
+
+const EXPORT_COLUMNS = {
+  orderId: { header: 'Order ID', value: o => o.id },
+  binanceOrderId: { header: 'Binance Order No.', value: o => o.binanceOrderId },
+  orderType: { header: 'Type', value: o => o.orderType },
+  status: { header: 'Status', value: o => o.status },
+  amount: { header: 'Amount', value: o => o.amount.toNumber() },
+  price: { header: 'Price', value: o => o.price.toNumber() },
+  currency: { header: 'Currency', value: o => o.currency },
+  paymentMethod: { header: 'Payment Method', value: o => o.paymentMethod },
+  paymentAccount: { header: 'Payment Account', pii: 'identifier', value: o => o.paymentAccount },
+  counterpartyId: { header: 'Counterparty ID', pii: 'identifier', value: o => o.counterpartyId },
+  counterpartyName: { header: 'Counterparty Name', pii: 'name', value: o => o.counterpartyName },
+  operator: { header: 'Operator', value: o => o.operator?.name ?? null },
+  createdAt: { header: 'Created At', value: o => o.createdAt },
+  updatedAt: { header: 'Updated At', value: o => o.updatedAt },
+  kycStatus: { header: 'KYC Status', value: o => o.kycVerification?.status ?? null },
+  kycScore: { header: 'KYC Score', value: o => o.kycVerification?.riskScore ?? null },
+  kycVerifiedAt: { header: 'KYC Verified At', value: o => o.kycVerification?.verifiedAt ?? null },
+  kycVerifiedBy: { header: 'KYC Verified By', value: o => o.kycVerification?.verifiedBy ?? null },
+  kycFullName: { header: 'KYC Full Name', pii: 'name', value: o => kycData(o).fullName ?? null },
+  kycDocumentNumber: { header: 'KYC Document Number', pii: 'identifier', value: o => kycData(o).documentNumber ?? null },
+  kycDateOfBirth: { header: 'KYC Date of Birth', pii: 'date', value: o => kycData(o).dateOfBirth ?? null },
+  riskScore: { header: 'Risk Score', value: o => o.riskAssessment?.overallScore ?? null },
+  riskLevel: { header: 'Risk Level', value: o => o.riskAssessment?.recommendation ?? null },
+  riskFactors: {
+    header: 'Risk Factors',
+    value: o => {
+      const factors = o.riskAssessment?.riskFactors
+      return Array.isArray(factors) ? factors.map(f => (f as Record<string, any>)?.type).join('; ') : null
+    }
+  },
+  riskReviewRequired: { header: 'Review Required', value: o => o.riskAssessment?.reviewRequired ?? null },
+  riskAutoApproved: { header: 'Auto Approved', value: o => o.riskAssessment?.autoApproved ?? null },
+  riskAssessedAt: { header: 'Risk Assessed At', value: o => o.riskAssessment?.assessedAt ?? null },
+  actionCount: { header: 'Audit Actions', value: o => o.auditLogs.length },
+  operatorActions: {
+    header: 'Audit Trail',
+    value: o => o.auditLogs
+      .map(log => `${log.timestamp.toISOString()} ${log.action}${log.operatorId ? ` by ${log.operatorId}` : ''}`)
+      .join(' | ')
+  },
+  lastActionAt: { header: 'Last Action At', value: o => o.auditLogs[o.auditLogs.length - 1]?.timestamp ?? null }
+} satisfies Record<string, ExportColumn>
+
+export type ExportColumnId = keyof typeof EXPORT_COLUMNS
+
+export const EXPORT_COLUMN_IDS = Object.keys(EXPORT_COLUMNS) as ExportColumnId[]
+
+const EXPORT_BATCH_SIZE = 500
+
+// Export-only parameters; everything else is an order list filter
+const exportOptionsSchema = z.object({
+  format: z.enum(['csv', 'xlsx', 'jsonl']).default('csv'),
+  columns: z.string()
+    .transform(value => value.split(',').map(v => v.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(EXPORT_COLUMN_IDS as [ExportColumnId, ...ExportColumnId[]])).min(1))
+    .optional(),
+  maskPii: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+  requestedBy: z.string().min(1)
+})
+
+const EXPORT_OPTION_KEYS = ['format', 'columns', 'maskPii', 'requestedBy']
+
+export type ExportOptions = z.infer<typeof exportOptionsSchema>
+
+export interface ExportRequest {
+  filters: OrderQuery
+  options: ExportOptions
+  ipAddress?: string | null
+  userAgent?: string | null
+}
+
+export class OrderExportError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message)
+    this.name = 'OrderExportError'
+  }
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  jsonl: 'application/x-ndjson; charset=utf-8'
+}
+
+export class OrderExportService {
+  /**
+   * Split query params into order filters and export options and validate both
+   */
+  parseRequest(searchParams: URLSearchParams) {
+    const options: Record<string, string> = {}
+    const filterParams = new URLSearchParams()
+    searchParams.forEach((value, key) => {
+      if (EXPORT_OPTION_KEYS.includes(key)) {
+        if (value !== '') options[key] = value
+      } else {
+        filterParams.append(key, value)
+      }
+    })
+
+    const parsedOptions = exportOptionsSchema.safeParse(options)
+    const parsedFilters = orderQueryService.parseQuery(filterParams)
+
+    if (!parsedOptions.success || !parsedFilters.success) {
+      return {
+        success: false as const,
+        issues: {
+          ...(parsedOptions.success ? {} : parsedOptions.error.flatten().fieldErrors),
+          ...(parsedFilters.success ? {} : parsedFilters.error.flatten().fieldErrors)
+        }
+      }
+    }
+
+    return { success: true as const, filters: parsedFilters.data, options: parsedOptions.data }
+  }
+
+  /**
+   * Start an export and return its body as a stream. The requesting operator
+   * must be active; the audit entry is written before any data leaves and is
+   * completed once the stream finishes, fails or is cancelled.
+   */
+  async createExport(
+    request: ExportRequest
+  ): Promise<{ fileName: string; contentType: string; body: ReadableStream<Uint8Array> }> {
+    const { filters, options } = request
+
+    const operator = await prisma.operator.findUnique({ where: { id: options.requestedBy } })
+    if (!operator || !operator.isActive) {
+      throw new OrderExportError('Requesting operator not found or inactive', 403)
+    }
+
+    const columns = options.columns ?? EXPORT_COLUMN_IDS
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+    const details = {
+      format: options.format,
+      columns,
+      maskPii: options.maskPii,
+      filters: JSON.parse(JSON.stringify(filters))
+    }
+
+    const auditLog = await auditService.log({
+      action: 'COMPLIANCE_EXPORT',
+      operatorId: operator.id,
+      details: { ...details, rowCount: null, completed: false, error: null },
+      ipAddress: request.ipAddress,
+      userAgent: request.userAgent
+    })
+
+    const progress = { rowCount: 0 }
+    const rows = this.exportRows(filters, columns, options.maskPii, progress)
+
+    const chunks = options.format === 'xlsx'
+      ? this.xlsxChunks(columns, rows)
+      : options.format === 'jsonl'
+        ? this.jsonlChunks(columns, rows)
+        : this.csvChunks(columns, rows)
+
+    const onFinish = async (error?: unknown) => {
+      await auditService.updateDetails(auditLog.id, {
+        ...details,
+        rowCount: progress.rowCount,
+        completed: !error,
+        error: error ? String(error instanceof Error ? error.message : error) : null
+      })
+    }
+
+    return {
+      fileName: `orders-export-${stamp}.${options.format}`,
+      contentType: CONTENT_TYPES[options.format],
+      body: this.toWebStream(chunks, onFinish)
+    }
+  }
+
+  /**
+   * Read matching orders in stable cursor batches
+   */
+  private async *iterateOrders(filters: OrderQuery): AsyncGenerator<ExportOrder> {
+    const where = orderQueryService.buildWhere(filters)
+    const orderBy = orderQueryService.buildOrderBy(filters)
+    let cursor: string | undefined
+
+    while (true) {
+      const batch = await prisma.p2POrder.findMany({
+        where,
+        orderBy,
+        include: EXPORT_INCLUDE,
+        take: EXPORT_BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+      })
+
+      yield* batch
+      if (batch.length < EXPORT_BATCH_SIZE) return
+      cursor = batch[batch.length - 1].id
+    }
+  }
+
+  private async *exportRows(
+    filters: OrderQuery,
+    columns: ExportColumnId[],
+    maskPii: boolean,
+    progress: { rowCount: number }
+  ): AsyncGenerator<ExportValue[]> {
+    for await (const order of this.iterateOrders(filters)) {
+      progress.rowCount++
+      yield this.buildRow(order, columns, maskPii)
+    }
+  }
+
+  private buildRow(order: ExportOrder, columns: ExportColumnId[], maskPii: boolean): ExportValue[] {
+    return columns.map(id => {
+      const column: ExportColumn = EXPORT_COLUMNS[id]
+      const value = column.value(order)
+      if (!maskPii || !column.pii || value === null || value === '') return value
+
+      if (column.pii === 'date') return maskDate(value as Date | string)
+      return column.pii === 'name' ? maskName(String(value)) : maskIdentifier(String(value))
+    })
+  }
+
+  private async *csvChunks(columns: ExportColumnId[], rows: AsyncIterable<ExportValue[]>): AsyncGenerator<string> {
+    // Byte order mark so spreadsheet apps detect UTF-8
+    yield '\ufeff' + formatCsvRow(columns.map(id => EXPORT_COLUMNS[id].header))
+    for await (const row of rows) {
+      yield formatCsvRow(row.map(value => this.csvValue(value)))
+    }
+  }
+
+  private async *jsonlChunks(columns: ExportColumnId[], rows: AsyncIterable<ExportValue[]>): AsyncGenerator<string> {
+    for await (const row of rows) {
+      yield JSON.stringify(Object.fromEntries(columns.map((id, i) => [id, row[i]]))) + '\n'
+    }
+  }
+
+  private async *xlsxChunks(columns: ExportColumnId[], rows: AsyncIterable<ExportValue[]>): AsyncGenerator<Uint8Array> {
+    const output = new PassThrough()
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useSharedStrings: false })
+    const sheet = workbook.addWorksheet('Orders')
+    sheet.columns = columns.map(id => ({ header: EXPORT_COLUMNS[id].header, key: id, width: 20 }))
+
+    // The writer fills the pass-through while this generator drains it
+    const writing = (async () => {
+      for await (const row of rows) {
+        sheet.addRow(row).commit()
+      }
+      sheet.commit()
+      await workbook.commit()
+    })().catch(error => {
+      output.destroy(error)
+    })
+
+    for await (const chunk of output) {
+      yield chunk as Uint8Array
+    }
+    await writing
+  }
+
+  /**
+   * Neutralize values a spreadsheet would evaluate as a formula
+   */
+  private csvValue(value: ExportValue): string | number | boolean | null {
+    if (value instanceof Date) return value.toISOString()
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(value)) return `'${value}`
+    return value
+  }
+
+  private toWebStream(
+    chunks: AsyncIterable<string | Uint8Array>,
+    onFinish: (error?: unknown) => Promise<void>
+  ): ReadableStream<Uint8Array> {
+    const iterator = chunks[Symbol.asyncIterator]()
+    const encoder = new TextEncoder()
+
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { value, done } = await iterator.next()
+          if (done) {
+            controller.close()
+            await onFinish()
+            return
+          }
+          controller.enqueue(typeof value === 'string' ? encoder.encode(value) : value)
+        } catch (error) {
+          controller.error(error)
+          await onFinish(error)
+        }
+      },
+      async cancel() {
+        await iterator.return?.(undefined)
+        await onFinish(new Error('Export cancelled by client'))
+      }
+    })
+  }
+}
+
+export const orderExportService = new OrderExportService()
@@ -0,0 +1,418 @@
+/**
+ * Order Import Service
+ *
+ * Imports historical Binance P2P order exports (CSV or XLSX) into P2POrder.
+ * Rows are upserted on binanceOrderId so re-importing the same file is safe,
+ * and every row is reported as created, updated, unchanged or rejected.
+ */
+
+import ExcelJS from 'exceljs'
+import { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { parseCsv } from '@/lib/csv'
+import { normalizePaymentAccount } from '@/lib/paymentAccount'
+import { OrderStatus } from '@/types'
+import { auditService } from './auditService'
+import { counterpartyService } from './counterpartyService'
+import { ledgerService } from './ledgerService'
+
+export type ImportRowAction = 'CREATED' | 'UPDATED' | 'UNCHANGED' | 'REJECTED'
+
+export interface ImportRowResult {
+  row: number
+  binanceOrderId?: string
+  action: ImportRowAction
+  changes?: string[]
+  errors?: string[]
+}
+
+export interface ImportReport {
+  fileName: string
+  dryRun: boolean
+  totals: Record<ImportRowAction, number>
+  rows: ImportRowResult[]
+}
+
+export interface ImportOptions {
+  fileName: string
+  dryRun?: boolean
+  operatorId?: string | null
+  ipAddress?: string | null
+  userAgent?: string | null
+}
+
+type ImportField =
+  | 'binanceOrderId'
+  | 'orderType'
+  | 'amount'
+  | 'price'
+  | 'quantity'
+  | 'currency'
+  | 'paymentMethod'
+  | 'paymentAccount'
+  | 'counterpartyId'
+  | 'counterpartyName'
+  | 'status'
+  | 'createdAt'
+
+// Header aliases seen across Binance export versions, compared after normalizeHeader
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  binanceOrderId: ['ordernumber', 'orderno', 'orderid', 'binanceorderid'],
+  orderType: ['ordertype', 'type', 'tradetype', 'side'],
+  amount: ['totalprice', 'total', 'fiatamount', 'amount'],
+  price: ['price', 'unitprice'],
+  quantity: ['quantity', 'qty', 'cryptoamount'],
+  currency: ['fiattype', 'fiat', 'currency'],
+  paymentMethod: ['paymentmethod', 'payment', 'paytype'],
+  paymentAccount: ['paymentaccount', 'accountnumber', 'accountno', 'upiid', 'upi'],
+  counterpartyId: ['counterpartyid', 'counterpartyuserid', 'userid'],
+  // Binance exports spell this column "Couterparty"
+  counterpartyName: ['couterparty', 'counterparty', 'counterpartyname', 'nickname'],
+  status: ['status', 'orderstatus'],
+  createdAt: ['createdtime', 'createtime', 'createdat', 'ordertime', 'date']
+}
+
+const STATUS_MAP: Record<string, OrderStatus> = {
+  completed: 'COMPLETED',
+  cancelled: 'CANCELLED',
+  canceled: 'CANCELLED',
+  cancelledbysystem: 'CANCELLED',
+  expired: 'CANCELLED',
+  appeal: 'DISPUTED',
+  inappeal: 'DISPUTED',
+  appealing: 'DISPUTED',
+  disputed: 'DISPUTED',
+  pending: 'PENDING',
+  processing: 'IN_PROGRESS',
+  inprogress: 'IN_PROGRESS',
+  unpaid: 'PAYMENT_PENDING',
+  pendingpayment: 'PAYMENT_PENDING',
+  topay: 'PAYMENT_PENDING',
+  paid: 'PAYMENT_CONFIRMED',
+  paymentconfirmed: 'PAYMENT_CONFIRMED',
+  torelease: 'PAYMENT_CONFIRMED',
+  releasing: 'PAYMENT_CONFIRMED'
+}
+
+const MAX_IMPORT_ROWS = 50000
+const WRITE_CHUNK_SIZE = 200
+
+const importedOrderSchema = z.object({
+  binanceOrderId: z.string().min(1, 'Order number is required'),
+  orderType: z.enum(['BUY', 'SELL'], { errorMap: () => ({ message: 'Order type must be Buy or Sell' }) }),
+  amount: z.number({ invalid_type_error: 'Total price must be a number' }).positive('Total price must be positive'),
+  price: z.number({ invalid_type_error: 'Price must be a number' }).positive('Price must be positive'),
+  currency: z.string().min(1, 'Fiat currency is required'),
+  paymentMethod: z.string().min(1),
+  // Absent from standard exports; left untouched on existing orders when missing
+  paymentAccount: z.string().min(1).optional(),
+  counterpartyId: z.string().min(1, 'Counterparty is required'),
+  counterpartyName: z.string().min(1, 'Counterparty is required'),
+  status: z.enum([
+    'PENDING',
+    'IN_PROGRESS',
+    'PAYMENT_PENDING',
+    'PAYMENT_CONFIRMED',
+    'COMPLETED',
+    'CANCELLED',
+    'DISPUTED'
+  ], { errorMap: () => ({ message: 'Unrecognised order status' }) }),
+  createdAt: z.date({ invalid_type_error: 'Created time is not a valid date' })
+})
+
+type ImportedOrder = z.infer<typeof importedOrderSchema>
+
+const COMPARED_FIELDS: (keyof ImportedOrder)[] = [
+  'orderType',
+  'amount',
+  'price',
+  'currency',
+  'paymentMethod',
+  'paymentAccount',
+  'counterpartyId',
+  'counterpartyName',
+  'status',
+  'createdAt'
+]
+
+export class OrderImportService {
+  /**
+   * Parse an export file and upsert its orders, or preview the result in dry-run mode
+   */
+  async importFile(content: ArrayBuffer, options: ImportOptions): Promise<ImportReport> {
+    const table = await this.readTable(content, options.fileName)
+    if (table.length === 0) {
+      throw new Error('Import file is empty')
+    }
+
+    const [header, ...dataRows] = table
+    if (dataRows.length > MAX_IMPORT_ROWS) {
+      throw new Error(`Import file exceeds ${MAX_IMPORT_ROWS} rows`)
+    }
+
+    const columns = this.mapColumns(header)
+    const missing = (['binanceOrderId', 'orderType', 'price', 'currency', 'status', 'createdAt'] as ImportField[])
+      .filter(field => columns[field] === undefined)
+    if (columns.amount === undefined && columns.quantity === undefined) missing.push('amount')
+    if (columns.counterpartyId === undefined && columns.counterpartyName === undefined) missing.push('counterpartyName')
+
+    if (missing.length > 0) {
+      throw new Error(`Import file is missing required columns: ${missing.join(', ')}`)
+    }
+
+    const results: ImportRowResult[] = []
+    const valid: Array<{ result: ImportRowResult; order: ImportedOrder }> = []
+    const seen = new Set<string>()
+
+    dataRows.forEach((cells, index) => {
+      // Row numbers are 1-based and count the header row, matching spreadsheet views
+      const rowNumber = index + 2
+      const parsed = importedOrderSchema.safeParse(this.mapRow(cells, columns))
+
+      if (!parsed.success) {
+        results.push({
+          row: rowNumber,
+          binanceOrderId: this.cell(cells, columns.binanceOrderId) || undefined,
+          action: 'REJECTED',
+          errors: parsed.error.issues.map(issue => issue.message)
+        })
+        return
+      }
+
+      if (seen.has(parsed.data.binanceOrderId)) {
+        results.push({
+          row: rowNumber,
+          binanceOrderId: parsed.data.binanceOrderId,
+          action: 'REJECTED',
+          errors: ['Duplicate order number in file']
+        })
+        return
+      }
+
+      seen.add(parsed.data.binanceOrderId)
+      const result: ImportRowResult = { row: rowNumber, binanceOrderId: parsed.data.binanceOrderId, action: 'CREATED' }
+      results.push(result)
+      valid.push({ result, order: parsed.data })
+    })
+
+    for (let i = 0; i < valid.length; i += WRITE_CHUNK_SIZE) {
+      await this.processChunk(valid.slice(i, i + WRITE_CHUNK_SIZE), options)
+    }
+
+    if (!options.dryRun) {
+      const touched = new Set(
+        valid.filter(v => v.result.action !== 'UNCHANGED').map(v => v.order.counterpartyId)
+      )
+      for (const counterpartyId of Array.from(touched)) {
+        await counterpartyService.syncProfile(counterpartyId)
+      }
+
+      // Replay written orders into the ledger in completion order so FIFO lots line up
+      const written = await prisma.p2POrder.findMany({
+        where: {
+          binanceOrderId: {
+            in: valid.filter(v => v.result.action !== 'UNCHANGED').map(v => v.order.binanceOrderId)
+          }
+        },
+        select: { id: true },
+        orderBy: [{ statusChangedAt: 'asc' }, { id: 'asc' }]
+      })
+      for (const { id } of written) {
+        await ledgerService.syncOrder(id)
+      }
+    }
+
+    results.sort((a, b) => a.row - b.row)
+    const report: ImportReport = {
+      fileName: options.fileName,
+      dryRun: options.dryRun ?? false,
+      totals: { CREATED: 0, UPDATED: 0, UNCHANGED: 0, REJECTED: 0 },
+      rows: results
+    }
+    results.forEach(r => { report.totals[r.action]++ })
+
+    if (!report.dryRun) {
+      await auditService.log({
+        action: 'ORDERS_IMPORTED',
+        operatorId: options.operatorId,
+        details: { fileName: options.fileName, totals: report.totals },
+        ipAddress: options.ipAddress,
+        userAgent: options.userAgent
+      })
+    }
+
+    return report
+  }
+
+  /**
+   * Classify a chunk of rows against existing orders and write them unless dry-running
+   */
+  private async processChunk(
+    chunk: Array<{ result: ImportRowResult; order: ImportedOrder }>,
+    options: ImportOptions
+  ): Promise<void> {
+    const existingOrders = await prisma.p2POrder.findMany({
+      where: { binanceOrderId: { in: chunk.map(c => c.order.binanceOrderId) } }
+    })
+    const existingById = new Map(existingOrders.map(o => [o.binanceOrderId, o]))
+
+    for (const { result, order } of chunk) {
+      const existing = existingById.get(order.binanceOrderId)
+      if (!existing) continue
+
+      const changes = COMPARED_FIELDS.filter(field =>
+        order[field] !== undefined && !this.fieldEquals(existing[field], order[field])
+      )
+      result.action = changes.length > 0 ? 'UPDATED' : 'UNCHANGED'
+      if (changes.length > 0) result.changes = changes
+    }
+
+    if (options.dryRun) return
+
+    const writes = chunk.filter(c => c.result.action !== 'UNCHANGED')
+    if (writes.length === 0) return
+
+    await prisma.$transaction(async (tx) => {
+      for (const { result, order } of writes) {
+        const { binanceOrderId, ...fields } = order
+        const saved = await tx.p2POrder.upsert({
+          where: { binanceOrderId },
+          create: { binanceOrderId, ...fields, statusChangedAt: fields.createdAt },
+          update: fields
+        })
+
+        // Imports mirror the exchange record, so status is written directly
+        // rather than through the lifecycle state machine; audit the overwrite
+        if (result.action === 'UPDATED') {
+          await auditService.log({
+            action: 'ORDER_IMPORT_UPDATED',
+            orderId: saved.id,
+            operatorId: options.operatorId,
+            details: { fileName: options.fileName, changedFields: result.changes ?? [] }
+          }, tx)
+        }
+      }
+    })
+  }
+
+  /**
+   * Read the first sheet of an XLSX workbook or a CSV file into a table of strings
+   */
+  private async readTable(content: ArrayBuffer, fileName: string): Promise<string[][]> {
+    const extension = fileName.toLowerCase().split('.').pop()
+
+    if (extension === 'csv' || extension === 'txt') {
+      return parseCsv(new TextDecoder('utf-8').decode(content))
+    }
+
+    if (extension === 'xlsx') {
+      const workbook = new ExcelJS.Workbook()
+      await workbook.xlsx.load(content)
+      const sheet = workbook.worksheets[0]
+      if (!sheet) return []
+
+      const table: string[][] = []
+      sheet.eachRow(row => {
+        const values: string[] = []
+        row.eachCell({ includeEmpty: true }, (cell, column) => {
+          values[column - 1] = this.cellText(cell.value)
+        })
+        table.push(Array.from(values, v => v ?? ''))
+      })
+      return table
+    }
+
+    throw new Error('Unsupported import file type, expected .csv or .xlsx')
+  }
+
+  private cellText(value: ExcelJS.CellValue): string {
+    if (value === null || value === undefined) return ''
+    if (value instanceof Date) return value.toISOString()
+    if (typeof value === 'object') {
+      if ('richText' in value) return value.richText.map(part => part.text).join('')
+      if ('text' in value) return String(value.text)
+      if ('result' in value) return value.result === undefined ? '' : this.cellText(value.result as ExcelJS.CellValue)
+      return ''
+    }
+    return String(value)
+  }
+
+  private normalizeHeader(header: string): string {
+    return header.toLowerCase().replace(/[^a-z0-9]/g, '')
+  }
+
+  private mapColumns(header: string[]): Partial<Record<ImportField, number>> {
+    const normalized = header.map(h => this.normalizeHeader(h))
+    const columns: Partial<Record<ImportField, number>> = {}
+
+    for (const [field, aliases] of Object.entries(COLUMN_ALIASES) as [ImportField, string[]][]) {
+      for (const alias of aliases) {
+        const index = normalized.indexOf(alias)
+        if (index !== -1) {
+          columns[field] = index
+          break
+        }
+      }
+    }
+
+    return columns
+  }
+
+  private cell(cells: string[], index?: number): string {
+    return index === undefined ? '' : (cells[index] ?? '').trim()
+  }
+
+  private mapRow(cells: string[], columns: Partial<Record<ImportField, number>>): Record<string, unknown> {
+    const price = this.parseNumber(this.cell(cells, columns.price))
+    const quantity = this.parseNumber(this.cell(cells, columns.quantity))
+    const totalPrice = this.parseNumber(this.cell(cells, columns.amount))
+    const counterpartyName = this.cell(cells, columns.counterpartyName)
+    const rawType = this.cell(cells, columns.orderType).toUpperCase()
+
+    return {
+      binanceOrderId: this.cell(cells, columns.binanceOrderId),
+      orderType: rawType,
+      amount: totalPrice ?? (quantity !== undefined && price !== undefined ? quantity * price : undefined),
+      price,
+      currency: this.cell(cells, columns.currency).toUpperCase(),
+      paymentMethod: this.cell(cells, columns.paymentMethod) || 'UNKNOWN',
+      paymentAccount: normalizePaymentAccount(this.cell(cells, columns.paymentAccount)) ?? undefined,
+      // Exports only carry the nickname; fall back to it as the counterparty key
+      counterpartyId: this.cell(cells, columns.counterpartyId) || counterpartyName,
+      counterpartyName: counterpartyName || this.cell(cells, columns.counterpartyId),
+      status: STATUS_MAP[this.normalizeHeader(this.cell(cells, columns.status))],
+      createdAt: this.parseDate(this.cell(cells, columns.createdAt))
+    }
+  }
+
+  private parseNumber(value: string): number | undefined {
+    if (!value) return undefined
+    const cleaned = value.replace(/,/g, '').replace(/[^0-9.\-]/g, '')
+    const parsed = parseFloat(cleaned)
+    return Number.isFinite(parsed) ? parsed : NaN
+  }
+
+  private parseDate(value: string): Date | undefined {
+    if (!value) return undefined
+    // Binance exports use "YYYY-MM-DD HH:mm:ss" in UTC without an offset
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?$/)
+    if (match) {
+      const [, year, month, day, hour, minute, second] = match
+      return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +(second ?? 0)))
+    }
+    return new Date(value)
+  }
+
+  private fieldEquals(current: unknown, incoming: unknown): boolean {
+    if (current instanceof Date && incoming instanceof Date) {
+      return current.getTime() === incoming.getTime()
+    }
+    if (current instanceof Prisma.Decimal) {
+      return current.equals(incoming as number)
+    }
+    return current === incoming
+  }
+}
+
+export const orderImportService = new OrderImportService()
@@ -0,0 +1,176 @@
+/**
+ * Order Lifecycle Service
+ *
+ * Enforces the P2P order state machine. Every status change goes through
+ * transitionOrder, which rejects illegal moves and audits accepted ones.
+ */
+
+import { OrderStatus as OrderStatusEnum, Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { OrderStatus } from '@/types'
+import { alertService } from './alertService'
+import { auditService } from './auditService'
+import { counterpartyService } from './counterpartyService'
+import { ledgerService } from './ledgerService'
+import { riskReassessmentService } from './riskReassessmentService'
+import { SLA_ALERT_TYPES } from './slaService'
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: ['IN_PROGRESS', 'CANCELLED'],
+  IN_PROGRESS: ['PAYMENT_PENDING', 'CANCELLED', 'DISPUTED'],
+  PAYMENT_PENDING: ['PAYMENT_CONFIRMED', 'CANCELLED', 'DISPUTED'],
+  PAYMENT_CONFIRMED: ['COMPLETED', 'DISPUTED'],
+  COMPLETED: ['DISPUTED'],
+  CANCELLED: [],
+  DISPUTED: ['COMPLETED', 'CANCELLED']
+}
+
+export const ACTIVE_ORDER_STATUSES: OrderStatus[] = [
+  'PENDING',
+  'IN_PROGRESS',
+  'PAYMENT_PENDING',
+  'PAYMENT_CONFIRMED',
+  'DISPUTED'
+]
+
+// PATCH /api/orders/[id] body: a status change, a reassignment, or both
+export const orderUpdateSchema = z.object({
+  status: z.nativeEnum(OrderStatusEnum).optional(),
+  operatorId: z.string().min(1).optional(),
+  changedBy: z.string().min(1).nullish(),
+  reason: z.string().optional()
+})
+
+export class OrderTransitionError extends Error {
+  constructor(
+    public readonly orderId: string,
+    public readonly fromStatus: OrderStatus,
+    public readonly toStatus: OrderStatus,
+    message?: string
+  ) {
+    super(message ?? `Cannot transition order from ${fromStatus} to ${toStatus}`)
+    this.name = 'OrderTransitionError'
+  }
+}
+
+export interface TransitionOptions {
+  operatorId?: string | null
+  reason?: string
+  ipAddress?: string | null
+  userAgent?: string | null
+  // Further writes that must commit or roll back together with the status change
+  within?: (tx: Prisma.TransactionClient) => Promise<void>
+}
+
+export interface TransitionResult {
+  orderId: string
+  previousStatus: OrderStatus
+  status: OrderStatus
+}
+
+export class OrderLifecycleService {
+  /**
+   * Check whether a status change is allowed by the state machine
+   */
+  canTransition(from: OrderStatus, to: OrderStatus): boolean {
+    return ORDER_TRANSITIONS[from]?.includes(to) ?? false
+  }
+
+  /**
+   * List the statuses an order may move to next
+   */
+  getAllowedTransitions(from: OrderStatus): OrderStatus[] {
+    return ORDER_TRANSITIONS[from] ?? []
+  }
+
+  /**
+   * Move an order to a new status, auditing the change
+   */
+  async transitionOrder(
+    orderId: string,
+    toStatus: OrderStatus,
+    options: TransitionOptions = {}
+  ): Promise<TransitionResult> {
+    if (!(toStatus in ORDER_TRANSITIONS)) {
+      throw new Error(`Unknown order status: ${toStatus}`)
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const order = await tx.p2POrder.findUnique({
+        where: { id: orderId },
+        select: { id: true, status: true, operatorId: true, counterpartyId: true }
+      })
+
+      if (!order) {
+        throw new Error('Order not found')
+      }
+
+      const fromStatus = order.status as OrderStatus
+      if (!this.canTransition(fromStatus, toStatus)) {
+        throw new OrderTransitionError(orderId, fromStatus, toStatus)
+      }
+
+      // Guard on the current status so concurrent updates cannot both win
+      const updated = await tx.p2POrder.updateMany({
+        where: { id: orderId, status: fromStatus },
+        data: {
+          status: toStatus,
+          updatedAt: new Date(),
+          // Each status starts a fresh SLA window
+          statusChangedAt: new Date(),
+          slaStatus: 'ON_TRACK',
+          slaEscalatedAt: null
+        }
+      })
+
+      if (updated.count === 0) {
+        throw new OrderTransitionError(
+          orderId,
+          fromStatus,
+          toStatus,
+          'Order status changed concurrently, reload and retry'
+        )
+      }
+
+      await alertService.resolveForOrder(orderId, SLA_ALERT_TYPES, tx)
+
+      await auditService.log({
+        action: 'ORDER_STATUS_CHANGED',
+        orderId,
+        operatorId: options.operatorId ?? order.operatorId,
+        details: {
+          previousStatus: fromStatus,
+          newStatus: toStatus,
+          reason: options.reason ?? null
+        },
+        ipAddress: options.ipAddress,
+        userAgent: options.userAgent
+      }, tx)
+
+      await options.within?.(tx)
+
+      return {
+        transition: { orderId, previousStatus: fromStatus, status: toStatus },
+        counterpartyId: order.counterpartyId
+      }
+    })
+
+    await counterpartyService.syncProfile(result.counterpartyId)
+
+    // Completing posts a ledger trade; leaving COMPLETED reverses it
+    if (toStatus === 'COMPLETED' || result.transition.previousStatus === 'COMPLETED') {
+      await ledgerService.syncOrder(orderId)
+    }
+
+    await riskReassessmentService.schedule(orderId, {
+      type: 'STATUS_CHANGED',
+      ref: toStatus,
+      operatorId: options.operatorId
+    })
+
+    return result.transition
+  }
+}
+
+export const orderLifecycleService = new OrderLifecycleService()
@@ -0,0 +1,193 @@
+/**
+ * Order Query Service
+ *
+ * Parses order list filters from query strings and turns them into
+ * Prisma queries with stable, cursor-based pagination.
+ */
+
+import { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+
+export const ORDER_SORT_FIELDS = [
+  'createdAt',
+  'updatedAt',
+  'amount',
+  'price',
+  'currency',
+  'paymentMethod',
+  'status',
+  'orderType',
+  'counterpartyName'
+] as const
+
+export const DEFAULT_PAGE_SIZE = 50
+export const MAX_PAGE_SIZE = 200
+
+const ORDER_STATUSES = [
+  'PENDING',
+  'IN_PROGRESS',
+  'PAYMENT_PENDING',
+  'PAYMENT_CONFIRMED',
+  'COMPLETED',
+  'CANCELLED',
+  'DISPUTED'
+] as const
+
+const RISK_LEVELS = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'] as const
+const KYC_FILTER_STATUSES = ['NONE', 'PENDING', 'IN_PROGRESS', 'APPROVED', 'REJECTED', 'REQUIRES_REVIEW'] as const
+
+// Comma-separated query values, e.g. ?status=PENDING,IN_PROGRESS
+const csvList = <T extends [string, ...string[]]>(values: T) =>
+  z.string()
+    .transform(value => value.split(',').map(v => v.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(values)).min(1))
+
+const csvStrings = z.string()
+  .transform(value => value.split(',').map(v => v.trim()).filter(Boolean))
+
+const orderQuerySchema = z.object({
+  status: csvList([...ORDER_STATUSES]).optional(),
+  operatorId: z.string().min(1).optional(),
+  orderType: z.enum(['BUY', 'SELL']).optional(),
+  currency: csvStrings.optional(),
+  paymentMethod: csvStrings.optional(),
+  counterpartyId: z.string().min(1).optional(),
+  counterparty: z.string().min(1).optional(),
+  minAmount: z.coerce.number().nonnegative().optional(),
+  maxAmount: z.coerce.number().nonnegative().optional(),
+  riskLevel: csvList([...RISK_LEVELS]).optional(),
+  kycStatus: csvList([...KYC_FILTER_STATUSES]).optional(),
+  createdFrom: z.coerce.date().optional(),
+  createdTo: z.coerce.date().optional(),
+  sortBy: z.enum(ORDER_SORT_FIELDS).default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  cursor: z.string().min(1).optional()
+}).refine(
+  query => query.minAmount === undefined || query.maxAmount === undefined || query.minAmount <= query.maxAmount,
+  { message: 'minAmount must not exceed maxAmount', path: ['minAmount'] }
+).refine(
+  query => !query.createdFrom || !query.createdTo || query.createdFrom <= query.createdTo,
+  { message: 'createdFrom must not be after createdTo', path: ['createdFrom'] }
+)
+
+export type OrderQuery = z.infer<typeof orderQuerySchema>
+
+export interface OrderPage<T> {
+  orders: T[]
+  totalCount: number
+  pageInfo: {
+    nextCursor: string | null
+    hasMore: boolean
+    limit: number
+  }
+}
+
+export class OrderQueryService {
+  /**
+   * Parse and validate list filters from URL search params
+   */
+  parseQuery(searchParams: URLSearchParams): z.SafeParseReturnType<unknown, OrderQuery> {
+    const raw: Record<string, string> = {}
+    searchParams.forEach((value, key) => {
+      if (value !== '') raw[key] = value
+    })
+    return orderQuerySchema.safeParse(raw)
+  }
+
+  /**
+   * Build the Prisma where clause for a parsed query
+   */
+  buildWhere(query: OrderQuery): Prisma.P2POrderWhereInput {
+    const conditions: Prisma.P2POrderWhereInput[] = []
+
+    if (query.status) conditions.push({ status: { in: query.status } })
+    if (query.operatorId) conditions.push({ operatorId: query.operatorId })
+    if (query.orderType) conditions.push({ orderType: query.orderType })
+    if (query.currency) conditions.push({ currency: { in: query.currency } })
+    if (query.paymentMethod) conditions.push({ paymentMethod: { in: query.paymentMethod } })
+    if (query.counterpartyId) conditions.push({ counterpartyId: query.counterpartyId })
+
+    if (query.counterparty) {
+      conditions.push({
+        OR: [
+          { counterpartyId: query.counterparty },
+          { counterpartyName: { contains: query.counterparty, mode: 'insensitive' } }
+        ]
+      })
+    }
+
+    if (query.minAmount !== undefined || query.maxAmount !== undefined) {
+      conditions.push({ amount: { gte: query.minAmount, lte: query.maxAmount } })
+    }
+
+    if (query.createdFrom || query.createdTo) {
+      conditions.push({ createdAt: { gte: query.createdFrom, lte: query.createdTo } })
+    }
+
+    if (query.riskLevel) {
+      conditions.push({ riskAssessment: { is: { recommendation: { in: query.riskLevel } } } })
+    }
+
+    if (query.kycStatus) {
+      const statuses = query.kycStatus.filter(s => s !== 'NONE') as Exclude<typeof query.kycStatus[number], 'NONE'>[]
+      const kycConditions: Prisma.P2POrderWhereInput[] = []
+      if (statuses.length > 0) {
+        kycConditions.push({ kycVerification: { is: { status: { in: statuses } } } })
+      }
+      if (query.kycStatus.includes('NONE')) {
+        kycConditions.push({ kycVerification: { is: null } })
+      }
+      conditions.push({ OR: kycConditions })
+    }
+
+    return conditions.length > 0 ? { AND: conditions } : {}
+  }
+
+  /**
+   * Sort on the requested column with the id as a tiebreaker so cursors stay stable
+   */
+  buildOrderBy(query: OrderQuery): Prisma.P2POrderOrderByWithRelationInput[] {
+    return [
+      { [query.sortBy]: query.sortOrder },
+      { id: query.sortOrder }
+    ]
+  }
+
+  /**
+   * Fetch one page of orders along with the total matching count
+   */
+  async listOrders<T extends Prisma.P2POrderInclude>(
+    query: OrderQuery,
+    include: T
+  ): Promise<OrderPage<Prisma.P2POrderGetPayload<{ include: T }>>> {
+    const where = this.buildWhere(query)
+
+    const [rows, totalCount] = await Promise.all([
+      prisma.p2POrder.findMany({
+        where,
+        include,
+        orderBy: this.buildOrderBy(query),
+        take: query.limit + 1,
+        ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {})
+      }),
+      prisma.p2POrder.count({ where })
+    ])
+
+    const hasMore = rows.length > query.limit
+    const orders = hasMore ? rows.slice(0, query.limit) : rows
+
+    return {
+      orders: orders as Prisma.P2POrderGetPayload<{ include: T }>[],
+      totalCount,
+      pageInfo: {
+        nextCursor: hasMore ? orders[orders.length - 1].id : null,
+        hasMore,
+        limit: query.limit
+      }
+    }
+  }
+}
+
+export const orderQueryService = new OrderQueryService()
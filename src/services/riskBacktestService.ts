@@ -0,0 +1,416 @@
+/**
+ * Risk Backtest Service
+ *
+ * Replays historical orders through RiskService under a candidate policy,
+ * using each order's messages, documents and KYC as they stood just before
+ * its outcome, and measures how well the recommendations predicted that
+ * outcome. Results are stored so the report can be attached to a policy change.
+ * Runs are synchronous, so the sample is capped; inputs whose history is not
+ * kept are listed in each report.
+ */
+
+import { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { auditService } from './auditService'
+import { RiskPolicyValidationError, riskPolicyService } from './riskPolicyService'
+import { DEFAULT_RISK_POLICY, RiskPolicy, riskRulesEngine } from './riskRulesEngine'
+import { RiskAssessmentResult, riskService } from './riskService'
+
+// COMPLETED orders are good outcomes; the others count as bad
+const OUTCOME_STATUSES = ['COMPLETED', 'CANCELLED', 'DISPUTED'] as const
+const MISCLASSIFIED_SAMPLE_SIZE = 50
+
+// Every order is evaluated twice within the request, so samples stay small
+export const MAX_BACKTEST_ORDERS = 500
+
+// Inputs replayed as they are now rather than as they stood at each order's outcome
+export const BACKTEST_INPUTS_NOT_AS_OF = [
+  'Chat phrase library: the current library is applied to historical messages',
+  'Document OCR results: as currently stored',
+  'FX rates: rates effective on each order\'s date, including ones entered since',
+  'KYC: the verification is left out when it was re-run or reviewed after the outcome',
+  'Link analysis: left out, since the identifier index only reflects current state'
+]
+
+export const backtestRequestSchema = z.object({
+  // Candidate policy: an unsaved draft or a saved version (neither = active policy)
+  policy: z.unknown().optional(),
+  policyVersion: z.number().int().min(0).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.number().int().min(1).max(MAX_BACKTEST_ORDERS).default(200),
+  createdBy: z.string().min(1),
+  comment: z.string().optional()
+}).refine(
+  request => request.policy === undefined || request.policyVersion === undefined,
+  { message: 'Provide either policy or policyVersion, not both', path: ['policy'] }
+).refine(
+  request => !request.from || !request.to || request.from <= request.to,
+  { message: 'from must not be after to', path: ['from'] }
+)
+
+export type BacktestRequest = z.infer<typeof backtestRequestSchema>
+
+export class BacktestError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message)
+    this.name = 'BacktestError'
+  }
+}
+
+type Outcome = 'GOOD' | 'BAD'
+
+interface BacktestSample {
+  orderId: string
+  binanceOrderId: string
+  status: string
+  outcome: Outcome
+  candidate: RiskAssessmentResult
+  baseline: RiskAssessmentResult
+}
+
+export interface BacktestMetrics {
+  // Positive = flagged (not auto-approved); actual positive = bad outcome
+  confusionMatrix: { truePositive: number; falsePositive: number; trueNegative: number; falseNegative: number }
+  byRecommendation: Record<string, { good: number; bad: number }>
+  precision: number | null
+  recall: number | null
+  falsePositiveRate: number | null
+  accuracy: number | null
+  f1: number | null
+  factorHitRates: Array<{
+    type: string
+    fired: number
+    firedOnBad: number
+    firedOnGood: number
+    hitRate: number | null
+    coverage: number | null
+  }>
+}
+
+export interface BacktestReport {
+  sample: { total: number; good: number; bad: number; skipped: number }
+  // BACKTEST_INPUTS_NOT_AS_OF at the time of the run; absent on older reports
+  inputsNotAsOf?: string[]
+  candidate: BacktestMetrics
+  baseline: BacktestMetrics
+  changedRecommendations: number
+  misclassified: {
+    falseNegatives: Array<{ orderId: string; binanceOrderId: string; status: string; recommendation: string; score: number }>
+    falsePositives: Array<{ orderId: string; binanceOrderId: string; status: string; recommendation: string; score: number }>
+  }
+}
+
+export class RiskBacktestService {
+  /**
+   * Run a backtest and store its report
+   */
+  async run(request: BacktestRequest) {
+    const candidate = await this.resolveCandidate(request)
+    const active = await riskPolicyService.getActivePolicy()
+
+    const orders = await prisma.p2POrder.findMany({
+      where: {
+        status: { in: [...OUTCOME_STATUSES] },
+        createdAt: { gte: request.from, lte: request.to }
+      },
+      select: { id: true, binanceOrderId: true, status: true, statusChangedAt: true },
+      orderBy: { createdAt: 'desc' },
+      take: request.limit
+    })
+
+    const outcomeTimes = await this.findOutcomeTimes(orders)
+    const samples: BacktestSample[] = []
+    let skipped = 0
+
+    for (const order of orders) {
+      // Assess with what was known just before the outcome
+      const asOf = new Date((outcomeTimes.get(order.id) ?? order.statusChangedAt).getTime() - 1)
+
+      try {
+        samples.push({
+          orderId: order.id,
+          binanceOrderId: order.binanceOrderId,
+          status: order.status,
+          outcome: order.status === 'COMPLETED' ? 'GOOD' : 'BAD',
+          candidate: await riskService.evaluateOrder(order.id, candidate.policy, candidate.version ?? active.version, asOf),
+          baseline: await riskService.evaluateOrder(order.id, active.policy, active.version, asOf)
+        })
+      } catch (error) {
+        console.error(`Backtest skipped order ${order.id}:`, error)
+        skipped++
+      }
+    }
+
+    const report = this.buildReport(samples, skipped)
+
+    const backtest = await prisma.riskBacktest.create({
+      data: {
+        candidateVersion: candidate.version,
+        candidatePolicy: candidate.policy as unknown as Prisma.InputJsonValue,
+        baselineVersion: active.version,
+        periodFrom: request.from,
+        periodTo: request.to,
+        orderCount: samples.length,
+        report: report as unknown as Prisma.InputJsonValue,
+        comment: request.comment,
+        createdBy: request.createdBy
+      }
+    })
+
+    await auditService.log({
+      action: 'RISK_BACKTEST_RUN',
+      operatorId: request.createdBy,
+      details: {
+        backtestId: backtest.id,
+        candidateVersion: candidate.version,
+        baselineVersion: active.version,
+        orderCount: samples.length,
+        precision: report.candidate.precision,
+        recall: report.candidate.recall
+      }
+    })
+
+    return backtest
+  }
+
+  async getBacktest(id: string) {
+    return await prisma.riskBacktest.findUnique({ where: { id } })
+  }
+
+  /**
+   * List recent runs without their full reports
+   */
+  async listBacktests(limit = 50) {
+    return await prisma.riskBacktest.findMany({
+      select: {
+        id: true,
+        candidateVersion: true,
+        baselineVersion: true,
+        periodFrom: true,
+        periodTo: true,
+        orderCount: true,
+        comment: true,
+        createdBy: true,
+        createdAt: true
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    })
+  }
+
+  /**
+   * Render a stored backtest as a Markdown report for a policy change request
+   */
+  renderMarkdown(backtest: NonNullable<Awaited<ReturnType<RiskBacktestService['getBacktest']>>>): string {
+    const report = backtest.report as unknown as BacktestReport
+    const pct = (value: number | null) => (value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`)
+    const candidateLabel = backtest.candidateVersion !== null ? `v${backtest.candidateVersion}` : 'draft'
+    const period = `${backtest.periodFrom?.toISOString().slice(0, 10) ?? 'start'} to ${backtest.periodTo?.toISOString().slice(0, 10) ?? 'now'}`
+
+    const metricRow = (label: string, key: 'precision' | 'recall' | 'falsePositiveRate' | 'accuracy' | 'f1') =>
+      `| ${label} | ${pct(report.baseline[key])} | ${pct(report.candidate[key])} |`
+
+    const matrix = (metrics: BacktestMetrics) => [
+      '| | Bad outcome | Good outcome |',
+      '|---|---|---|',
+      `| Flagged | ${metrics.confusionMatrix.truePositive} | ${metrics.confusionMatrix.falsePositive} |`,
+      `| Auto-approved | ${metrics.confusionMatrix.falseNegative} | ${metrics.confusionMatrix.trueNegative} |`
+    ]
+
+    const misclassified = (rows: BacktestReport['misclassified']['falseNegatives']) =>
+      rows.length === 0
+        ? ['None.']
+        : rows.map(r => `- ${r.binanceOrderId} (${r.status}): ${r.recommendation}, score ${r.score.toFixed(3)}`)
+
+    return [
+      `# Risk policy backtest ${backtest.id}`,
+      '',
+      `- Candidate policy: ${candidateLabel}`,
+      `- Baseline policy: v${backtest.baselineVersion}`,
+      `- Orders created: ${period}`,
+      `- Sample: ${report.sample.total} orders (${report.sample.bad} disputed/cancelled, ${report.sample.good} completed, ${report.sample.skipped} skipped)`,
+      `- Recommendations changed: ${report.changedRecommendations}`,
+      `- Run by ${backtest.createdBy} on ${backtest.createdAt.toISOString()}`,
+      ...(backtest.comment ? ['', backtest.comment] : []),
+      ...(report.inputsNotAsOf?.length
+        ? ['', '## Inputs not replayed as of each outcome', '', ...report.inputsNotAsOf.map(input => `- ${input}`)]
+        : []),
+      '',
+      '## Metrics',
+      '',
+      `| Metric | Baseline (v${backtest.baselineVersion}) | Candidate (${candidateLabel}) |`,
+      '|---|---|---|',
+      metricRow('Precision', 'precision'),
+      metricRow('Recall', 'recall'),
+      metricRow('False positive rate', 'falsePositiveRate'),
+      metricRow('Accuracy', 'accuracy'),
+      metricRow('F1', 'f1'),
+      '',
+      '## Confusion matrix (candidate)',
+      '',
+      ...matrix(report.candidate),
+      '',
+      '## Confusion matrix (baseline)',
+      '',
+      ...matrix(report.baseline),
+      '',
+      '## Factor hit rates (candidate)',
+      '',
+      '| Factor | Fired | On bad | On good | Hit rate | Coverage |',
+      '|---|---|---|---|---|---|',
+      ...report.candidate.factorHitRates.map(f =>
+        `| ${f.type} | ${f.fired} | ${f.firedOnBad} | ${f.firedOnGood} | ${pct(f.hitRate)} | ${pct(f.coverage)} |`
+      ),
+      '',
+      '## Missed bad outcomes (auto-approved)',
+      '',
+      ...misclassified(report.misclassified.falseNegatives),
+      '',
+      '## Good orders flagged',
+      '',
+      ...misclassified(report.misclassified.falsePositives),
+      ''
+    ].join('\n')
+  }
+
+  private async resolveCandidate(request: BacktestRequest): Promise<{ version: number | null; policy: RiskPolicy }> {
+    if (request.policy !== undefined) {
+      const parsed = riskRulesEngine.validate(request.policy)
+      if (!parsed.success) {
+        throw new RiskPolicyValidationError(parsed.error.issues)
+      }
+      return { version: null, policy: parsed.data }
+    }
+
+    if (request.policyVersion === undefined) {
+      return await riskPolicyService.getActivePolicy()
+    }
+
+    if (request.policyVersion === 0) {
+      return { version: 0, policy: DEFAULT_RISK_POLICY }
+    }
+
+    const saved = await riskPolicyService.getVersion(request.policyVersion)
+    if (!saved) {
+      throw new BacktestError(`Risk policy version ${request.policyVersion} not found`, 404)
+    }
+    const parsed = riskRulesEngine.validateStored(saved.policy)
+    if (!parsed.success) {
+      throw new RiskPolicyValidationError(parsed.error.issues)
+    }
+    return { version: saved.version, policy: parsed.data }
+  }
+
+  /**
+   * When each order first reached an outcome status, from the audit trail
+   */
+  private async findOutcomeTimes(orders: Array<{ id: string }>): Promise<Map<string, Date>> {
+    const changes = await prisma.auditLog.findMany({
+      where: { orderId: { in: orders.map(o => o.id) }, action: 'ORDER_STATUS_CHANGED' },
+      select: { orderId: true, details: true, timestamp: true },
+      orderBy: { timestamp: 'asc' }
+    })
+
+    const times = new Map<string, Date>()
+    for (const change of changes) {
+      const newStatus = (change.details as Record<string, any>)?.newStatus
+      if (change.orderId && !times.has(change.orderId) && OUTCOME_STATUSES.includes(newStatus)) {
+        times.set(change.orderId, change.timestamp)
+      }
+    }
+    return times
+  }
+
+  private buildReport(samples: BacktestSample[], skipped: number): BacktestReport {
+    const flagged = (result: RiskAssessmentResult) => result.recommendation !== 'AUTO_APPROVE'
+    const summarize = (sample: BacktestSample) => ({
+      orderId: sample.orderId,
+      binanceOrderId: sample.binanceOrderId,
+      status: sample.status,
+      recommendation: sample.candidate.recommendation,
+      score: sample.candidate.overallScore
+    })
+
+    return {
+      sample: {
+        total: samples.length,
+        good: samples.filter(s => s.outcome === 'GOOD').length,
+        bad: samples.filter(s => s.outcome === 'BAD').length,
+        skipped
+      },
+      inputsNotAsOf: BACKTEST_INPUTS_NOT_AS_OF,
+      candidate: this.computeMetrics(samples.map(s => ({ outcome: s.outcome, result: s.candidate }))),
+      baseline: this.computeMetrics(samples.map(s => ({ outcome: s.outcome, result: s.baseline }))),
+      changedRecommendations: samples.filter(s => s.candidate.recommendation !== s.baseline.recommendation).length,
+      misclassified: {
+        falseNegatives: samples
+          .filter(s => s.outcome === 'BAD' && !flagged(s.candidate))
+          .slice(0, MISCLASSIFIED_SAMPLE_SIZE)
+          .map(summarize),
+        falsePositives: samples
+          .filter(s => s.outcome === 'GOOD' && flagged(s.candidate))
+          .slice(0, MISCLASSIFIED_SAMPLE_SIZE)
+          .map(summarize)
+      }
+    }
+  }
+
+  private computeMetrics(samples: Array<{ outcome: Outcome; result: RiskAssessmentResult }>): BacktestMetrics {
+    const ratio = (numerator: number, denominator: number) => (denominator > 0 ? numerator / denominator : null)
+    const matrix = { truePositive: 0, falsePositive: 0, trueNegative: 0, falseNegative: 0 }
+    const byRecommendation: BacktestMetrics['byRecommendation'] = {
+      AUTO_APPROVE: { good: 0, bad: 0 },
+      MANUAL_REVIEW: { good: 0, bad: 0 },
+      REJECT: { good: 0, bad: 0 }
+    }
+    const factors = new Map<string, { fired: number; firedOnBad: number; firedOnGood: number }>()
+
+    for (const { outcome, result } of samples) {
+      const bad = outcome === 'BAD'
+      const flagged = result.recommendation !== 'AUTO_APPROVE'
+
+      if (flagged && bad) matrix.truePositive++
+      else if (flagged) matrix.falsePositive++
+      else if (bad) matrix.falseNegative++
+      else matrix.trueNegative++
+
+      byRecommendation[result.recommendation][bad ? 'bad' : 'good']++
+
+      for (const factor of result.factors) {
+        const stats = factors.get(factor.type) ?? { fired: 0, firedOnBad: 0, firedOnGood: 0 }
+        stats.fired++
+        if (bad) stats.firedOnBad++
+        else stats.firedOnGood++
+        factors.set(factor.type, stats)
+      }
+    }
+
+    const totalBad = matrix.truePositive + matrix.falseNegative
+    const precision = ratio(matrix.truePositive, matrix.truePositive + matrix.falsePositive)
+    const recall = ratio(matrix.truePositive, totalBad)
+
+    return {
+      confusionMatrix: matrix,
+      byRecommendation,
+      precision,
+      recall,
+      falsePositiveRate: ratio(matrix.falsePositive, matrix.falsePositive + matrix.trueNegative),
+      accuracy: ratio(matrix.truePositive + matrix.trueNegative, samples.length),
+      f1: precision !== null && recall !== null && precision + recall > 0
+        ? 2 * precision * recall / (precision + recall)
+        : null,
+      factorHitRates: Array.from(factors.entries())
+        .map(([type, stats]) => ({
+          type,
+          ...stats,
+          hitRate: ratio(stats.firedOnBad, stats.fired),
+          coverage: ratio(stats.firedOnBad, totalBad)
+        }))
+        .sort((a, b) => b.fired - a.fired)
+    }
+  }
+}
+
+export const riskBacktestService = new RiskBacktestService()
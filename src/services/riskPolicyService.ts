@@ -0,0 +1,173 @@
+/**
+ * Risk Policy Service
+ *
+ * Loads and saves the versioned risk policy. The active policy is kept in
+ * SystemConfig under "risk_policy"; every saved revision is also written
+ * to RiskPolicyVersion so assessments can be traced back to their rules.
+ */
+
+import { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { alertService } from './alertService'
+import { auditService } from './auditService'
+import { DEFAULT_RISK_POLICY, RiskPolicy, riskRulesEngine } from './riskRulesEngine'
+import { systemConfigService } from './systemConfigService'
+
+export const RISK_POLICY_CONFIG_KEY = 'risk_policy'
+
+// Raised while the stored active policy fails validation
+export const INVALID_RISK_POLICY_ALERT = 'RISK_POLICY_INVALID'
+
+export interface ActiveRiskPolicy {
+  // 0 means no valid policy has been saved and the built-in default applies
+  version: number
+  policy: RiskPolicy
+}
+
+export interface SavePolicyOptions {
+  updatedBy: string
+  comment?: string
+  ipAddress?: string | null
+  userAgent?: string | null
+}
+
+export class RiskPolicyValidationError extends Error {
+  constructor(public readonly issues: z.ZodIssue[]) {
+    super('Risk policy is invalid')
+    this.name = 'RiskPolicyValidationError'
+  }
+}
+
+export class RiskPolicyService {
+  /**
+   * Return the active policy, falling back to the default if none is stored.
+   * A stored policy that fails validation is replaced by the newest saved
+   * version that passes, and an alert says so until a valid policy is saved.
+   */
+  async getActivePolicy(): Promise<ActiveRiskPolicy> {
+    const stored = await systemConfigService.getRaw<{ version: number; policy: unknown }>(RISK_POLICY_CONFIG_KEY)
+    if (!stored) {
+      return { version: 0, policy: DEFAULT_RISK_POLICY }
+    }
+
+    // The config row can be edited directly, so never trust it unvalidated
+    const parsed = riskRulesEngine.validateStored(stored.policy)
+    if (!parsed.success) {
+      const fallback = await this.lastValidVersion()
+      console.error(`Stored risk policy v${stored.version} is invalid, using v${fallback.version}:`, parsed.error.issues)
+      await this.alertInvalidPolicy(stored.version, fallback.version, parsed.error.issues)
+      return fallback
+    }
+
+    return { version: stored.version, policy: parsed.data }
+  }
+
+  /**
+   * The newest saved version that still validates, else the built-in default
+   */
+  private async lastValidVersion(): Promise<ActiveRiskPolicy> {
+    const versions = await prisma.riskPolicyVersion.findMany({
+      select: { version: true, policy: true },
+      orderBy: { version: 'desc' }
+    })
+
+    for (const saved of versions) {
+      const parsed = riskRulesEngine.validateStored(saved.policy)
+      if (parsed.success) return { version: saved.version, policy: parsed.data }
+    }
+    return { version: 0, policy: DEFAULT_RISK_POLICY }
+  }
+
+  /**
+   * Raise one alert per invalid stored version rather than one per assessment
+   */
+  private async alertInvalidPolicy(version: number, fallbackVersion: number, issues: z.ZodIssue[]): Promise<void> {
+    const open = await prisma.riskAlert.findFirst({
+      where: {
+        type: INVALID_RISK_POLICY_ALERT,
+        status: { not: 'RESOLVED' },
+        details: { path: ['invalidVersion'], equals: version }
+      }
+    })
+    if (open) return
+
+    await alertService.raise({
+      type: INVALID_RISK_POLICY_ALERT,
+      severity: 'CRITICAL',
+      message: `Active risk policy v${version} is invalid; orders are assessed with v${fallbackVersion} until a valid policy is saved`,
+      details: { invalidVersion: version, fallbackVersion, issues }
+    })
+  }
+
+  /**
+   * Validate a policy and activate it as the next version
+   */
+  async savePolicy(policy: unknown, options: SavePolicyOptions): Promise<ActiveRiskPolicy> {
+    const parsed = riskRulesEngine.validate(policy)
+    if (!parsed.success) {
+      throw new RiskPolicyValidationError(parsed.error.issues)
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      const latest = await tx.riskPolicyVersion.findFirst({ orderBy: { version: 'desc' } })
+      const version = (latest?.version ?? 0) + 1
+
+      await tx.riskPolicyVersion.create({
+        data: {
+          version,
+          policy: parsed.data as unknown as Prisma.InputJsonValue,
+          comment: options.comment,
+          createdBy: options.updatedBy
+        }
+      })
+
+      await systemConfigService.set(
+        RISK_POLICY_CONFIG_KEY,
+        { version, policy: parsed.data },
+        options.updatedBy,
+        'Active risk rules policy',
+        tx
+      )
+
+      await auditService.log({
+        action: 'RISK_POLICY_UPDATED',
+        operatorId: options.updatedBy,
+        details: {
+          previousVersion: latest?.version ?? 0,
+          version,
+          comment: options.comment ?? null,
+          ruleCount: parsed.data.rules.length
+        },
+        ipAddress: options.ipAddress,
+        userAgent: options.userAgent
+      }, tx)
+
+      await tx.riskAlert.updateMany({
+        where: { type: INVALID_RISK_POLICY_ALERT, status: { not: 'RESOLVED' } },
+        data: { status: 'RESOLVED', resolvedAt: new Date() }
+      })
+
+      return { version, policy: parsed.data }
+    })
+  }
+
+  /**
+   * List saved versions, newest first, without their policy bodies
+   */
+  async listVersions() {
+    return await prisma.riskPolicyVersion.findMany({
+      select: { id: true, version: true, comment: true, createdBy: true, createdAt: true },
+      orderBy: { version: 'desc' }
+    })
+  }
+
+  /**
+   * Fetch one saved version, or null if it does not exist
+   */
+  async getVersion(version: number) {
+    return await prisma.riskPolicyVersion.findUnique({ where: { version } })
+  }
+}
+
+export const riskPolicyService = new RiskPolicyService()
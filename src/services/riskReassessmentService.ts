@@ -0,0 +1,207 @@
+/**
+ * Risk Reassessment Service
+ *
+ * Re-runs risk assessment when an order's evidence changes: new chat
+ * messages, document processing, KYC results and status changes. Requests
+ * are debounced per order so a burst of messages produces one re-score, with
+ * a maximum wait so a steady trickle cannot postpone it indefinitely. Pending
+ * requests are stored in the database and run by the scheduled jobs, so a
+ * restart only delays them.
+ */
+
+import { PendingReassessment, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { AssessmentTrigger } from '@/types'
+import { alertService } from './alertService'
+import { AssessmentTriggerInfo, riskService } from './riskService'
+import { systemConfigService } from './systemConfigService'
+
+export interface ReassessmentConfig {
+  enabled: boolean
+  // Quiet period after the latest change before re-scoring
+  debounceSeconds: number
+  // Longest a re-score may be deferred after the first pending change
+  maxWaitSeconds: number
+}
+
+const CONFIG_KEY = 'risk_reassessment'
+
+export const DEFAULT_REASSESSMENT_CONFIG: ReassessmentConfig = {
+  enabled: true,
+  debounceSeconds: 30,
+  maxWaitSeconds: 120
+}
+
+export const RECOMMENDATION_WORSENED_ALERT = 'RISK_RECOMMENDATION_WORSENED'
+
+const RECOMMENDATION_RANK: Record<string, number> = {
+  AUTO_APPROVE: 0,
+  MANUAL_REVIEW: 1,
+  REJECT: 2
+}
+
+// Due re-assessments run per scheduled tick; the rest wait for the next one
+const DUE_BATCH_SIZE = 50
+
+// A failed run is retried after this, doubling per attempt up to the maximum
+const RETRY_BASE_SECONDS = 60
+const RETRY_MAX_SECONDS = 30 * 60
+
+export class RiskReassessmentService {
+  async getConfig(): Promise<ReassessmentConfig> {
+    return await systemConfigService.get(CONFIG_KEY, DEFAULT_REASSESSMENT_CONFIG)
+  }
+
+  /**
+   * Request a re-assessment of an order; never throws into the caller's flow
+   */
+  async schedule(orderId: string, trigger: AssessmentTriggerInfo): Promise<void> {
+    try {
+      const config = await this.getConfig()
+      if (!config.enabled) return
+
+      const now = Date.now()
+      const existing = await prisma.pendingReassessment.findUnique({ where: { orderId } })
+
+      const firstRequestedAt = existing?.firstRequestedAt.getTime() ?? now
+      const untilMaxWait = firstRequestedAt + config.maxWaitSeconds * 1000 - now
+      const dueAt = new Date(now + Math.max(0, Math.min(config.debounceSeconds * 1000, untilMaxWait)))
+      const triggers = [
+        ...((existing?.triggers as unknown as AssessmentTriggerInfo[] | undefined) ?? []),
+        trigger
+      ] as unknown as Prisma.InputJsonValue
+
+      await prisma.pendingReassessment.upsert({
+        where: { orderId },
+        update: { dueAt, triggers },
+        create: { orderId, dueAt, firstRequestedAt: new Date(firstRequestedAt), triggers }
+      })
+    } catch (error) {
+      console.error(`Failed to schedule risk reassessment for order ${orderId}:`, error)
+    }
+  }
+
+  /**
+   * Schedule a re-assessment for the order a document belongs to; like
+   * schedule, never throws into the caller's flow
+   */
+  async scheduleForDocument(documentId: string, type: AssessmentTrigger): Promise<void> {
+    try {
+      const document = await prisma.document.findUnique({
+        where: { id: documentId },
+        select: { orderId: true }
+      })
+      if (document) await this.schedule(document.orderId, { type, ref: documentId })
+    } catch (error) {
+      console.error(`Failed to schedule risk reassessment for document ${documentId}:`, error)
+    }
+  }
+
+  /**
+   * Run the re-assessments whose debounce window has passed, including any
+   * that fell due while the server was down. Returns how many ran.
+   */
+  async processDue(): Promise<number> {
+    const due = await prisma.pendingReassessment.findMany({
+      where: { dueAt: { lte: new Date() } },
+      orderBy: { dueAt: 'asc' },
+      take: DUE_BATCH_SIZE
+    })
+
+    let processed = 0
+    for (const entry of due) {
+      // Claim the entry; a change since it was read pushed it back, and
+      // another process may have taken it. Changes arriving during the run
+      // queue a new entry.
+      const claimed = await prisma.pendingReassessment.deleteMany({
+        where: { orderId: entry.orderId, updatedAt: entry.updatedAt }
+      })
+      if (claimed.count === 0) continue
+
+      try {
+        await this.reassess(entry.orderId, entry.triggers as unknown as AssessmentTriggerInfo[])
+        processed++
+      } catch (error) {
+        console.error(`Risk reassessment failed for order ${entry.orderId}:`, error)
+        await this.retry(entry, error)
+      }
+    }
+
+    return processed
+  }
+
+  /**
+   * Put a failed run back in the queue with backoff. Changes that arrived
+   * during the run already queued an entry; the failed triggers join it.
+   */
+  private async retry(entry: PendingReassessment, error: unknown): Promise<void> {
+    const attempts = entry.attempts + 1
+    const backoffSeconds = Math.min(RETRY_BASE_SECONDS * 2 ** (attempts - 1), RETRY_MAX_SECONDS)
+    const lastError = error instanceof Error ? error.message : String(error)
+
+    try {
+      const queued = await prisma.pendingReassessment.findUnique({ where: { orderId: entry.orderId } })
+      const triggers = [
+        ...(entry.triggers as unknown as AssessmentTriggerInfo[]),
+        ...((queued?.triggers as unknown as AssessmentTriggerInfo[] | undefined) ?? [])
+      ] as unknown as Prisma.InputJsonValue
+
+      await prisma.pendingReassessment.upsert({
+        where: { orderId: entry.orderId },
+        update: { triggers, attempts, lastError },
+        create: {
+          orderId: entry.orderId,
+          dueAt: new Date(Date.now() + backoffSeconds * 1000),
+          firstRequestedAt: entry.firstRequestedAt,
+          triggers,
+          attempts,
+          lastError
+        }
+      })
+    } catch (retryError) {
+      console.error(`Failed to re-queue risk reassessment for order ${entry.orderId}:`, retryError)
+    }
+  }
+
+  /**
+   * Re-score the order and alert when its recommendation got worse
+   */
+  private async reassess(orderId: string, triggers: AssessmentTriggerInfo[]): Promise<void> {
+    const previous = await prisma.riskAssessmentSnapshot.findFirst({
+      where: { orderId },
+      orderBy: [{ assessedAt: 'desc' }, { id: 'desc' }],
+      select: { recommendation: true, overallScore: true, riskFactors: true }
+    })
+
+    // The snapshot records the latest change; the rest are listed in the alert
+    const latest = triggers[triggers.length - 1]
+    const result = await riskService.assessOrder(orderId, latest)
+
+    if (!previous) return
+    if ((RECOMMENDATION_RANK[result.recommendation] ?? 0) <= (RECOMMENDATION_RANK[previous.recommendation] ?? 0)) {
+      return
+    }
+
+    const previousTypes = new Set(
+      (previous.riskFactors as Array<{ type?: string }> | null ?? []).map(factor => factor?.type)
+    )
+
+    await alertService.raise({
+      orderId,
+      type: RECOMMENDATION_WORSENED_ALERT,
+      severity: result.recommendation === 'REJECT' ? 'CRITICAL' : 'HIGH',
+      message: `Risk recommendation changed from ${previous.recommendation} to ${result.recommendation}`,
+      details: {
+        from: previous.recommendation,
+        to: result.recommendation,
+        previousScore: previous.overallScore,
+        score: result.overallScore,
+        newFactors: result.factors.filter(f => !previousTypes.has(f.type)).map(f => f.type),
+        triggers: triggers.map(t => ({ type: t.type, ref: t.ref ?? null })),
+        snapshotId: result.snapshotId ?? null
+      }
+    })
+  }
+}
+
+export const riskReassessmentService = new RiskReassessmentService()
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_RISK_POLICY,
+  RiskFacts,
+  RiskPolicy,
+  RISK_FACTS,
+  riskRulesEngine,
+  ScoredFactor
+} from './riskRulesEngine'
+
+const NO_FACTS = Object.fromEntries(Object.keys(RISK_FACTS).map(fact => [fact, null])) as RiskFacts
+
+function facts(values: Partial<RiskFacts>): RiskFacts {
+  return { ...NO_FACTS, ...values }
+}
+
+function policy(overrides: Partial<RiskPolicy> = {}): RiskPolicy {
+  return { ...DEFAULT_RISK_POLICY, ...overrides }
+}
+
+describe('validate', () => {
+  it('accepts the default policy', () => {
+    expect(riskRulesEngine.validate(DEFAULT_RISK_POLICY).success).toBe(true)
+  })
+
+  it('rejects thresholds out of order', () => {
+    const thresholds = { ...DEFAULT_RISK_POLICY.thresholds, autoApprove: 0.9, manualReview: 0.5 }
+    expect(riskRulesEngine.validate(policy({ thresholds })).success).toBe(false)
+  })
+})
+
+describe('matches', () => {
+  it('treats comparisons against missing facts as false', () => {
+    expect(riskRulesEngine.matches({ fact: 'amount', op: 'gt', value: 10 }, NO_FACTS)).toBe(false)
+    expect(riskRulesEngine.matches({ fact: 'amount', op: 'notExists' }, NO_FACTS)).toBe(true)
+  })
+
+  it('evaluates all, any and not', () => {
+    const condition = {
+      all: [
+        { fact: 'amount' as const, op: 'gte' as const, value: 100 },
+        { not: { fact: 'currency' as const, op: 'in' as const, value: ['INR', 'USD'] } }
+      ]
+    }
+    expect(riskRulesEngine.matches(condition, facts({ amount: 100, currency: 'EUR' }))).toBe(true)
+    expect(riskRulesEngine.matches(condition, facts({ amount: 100, currency: 'INR' }))).toBe(false)
+    expect(riskRulesEngine.matches({ any: [condition, { fact: 'amount', op: 'lt', value: 5 }] }, facts({ amount: 1 })))
+      .toBe(true)
+  })
+})
+
+describe('evaluate', () => {
+  const rule = {
+    description: 'Amount above threshold',
+    severity: 'HIGH' as const,
+    enabled: true,
+    detailFacts: ['amount' as const],
+    details: {}
+  }
+  const tiered = policy({
+    rules: [
+      { ...rule, id: 'AMOUNT_HIGH', score: 0.8, group: 'amount', condition: { fact: 'amount', op: 'gt', value: 1000 } },
+      { ...rule, id: 'AMOUNT_MEDIUM', score: 0.4, group: 'amount', condition: { fact: 'amount', op: 'gt', value: 100 } },
+      { ...rule, id: 'DISABLED', score: 1, enabled: false, condition: { fact: 'amount', op: 'exists' } }
+    ]
+  })
+
+  it('fires only the first matching rule of a group and skips disabled rules', () => {
+    expect(riskRulesEngine.evaluate(tiered, facts({ amount: 5000 })).map(m => m.rule.id)).toEqual(['AMOUNT_HIGH'])
+    expect(riskRulesEngine.evaluate(tiered, facts({ amount: 500 })).map(m => m.rule.id)).toEqual(['AMOUNT_MEDIUM'])
+    expect(riskRulesEngine.evaluate(tiered, facts({ amount: 50 }))).toEqual([])
+  })
+
+  it('reports detail facts and the evidence behind matched facts', () => {
+    const [match] = riskRulesEngine.evaluate(tiered, facts({ amount: 5000 }), { amount: ['order-1', 'order-1'] })
+    expect(match.details).toEqual({ amount: 5000 })
+    expect(match.evidenceOrderIds).toEqual(['order-1'])
+  })
+})
+
+describe('score', () => {
+  const noisyOr = policy({ scoringMethod: 'NOISY_OR' })
+  const weightedAverage = policy({ scoringMethod: 'WEIGHTED_AVERAGE' })
+
+  it('is zero without factors', () => {
+    expect(riskRulesEngine.score([], noisyOr)).toBe(0)
+    expect(riskRulesEngine.score([], weightedAverage)).toBe(0)
+  })
+
+  it('combines factors as a noisy-OR that only rises', () => {
+    const factors: ScoredFactor[] = [{ severity: 'HIGH', score: 0.5 }, { severity: 'LOW', score: 0.5 }]
+    expect(riskRulesEngine.score(factors, noisyOr)).toBeCloseTo(0.75)
+
+    const withLow: ScoredFactor[] = [...factors, { severity: 'LOW', score: 0.1 }]
+    expect(riskRulesEngine.score(withLow, noisyOr)).toBeGreaterThan(0.75)
+  })
+
+  it('attributes the noisy-OR score so contributions sum to it', () => {
+    const factors: ScoredFactor[] = [{ severity: 'HIGH', score: 0.6 }, { severity: 'MEDIUM', score: 0.3 }]
+    const score = riskRulesEngine.score(factors, noisyOr)
+
+    expect(factors[0].contribution! + factors[1].contribution!).toBeCloseTo(score)
+    expect(factors[0].contribution!).toBeGreaterThan(factors[1].contribution!)
+  })
+
+  it('gives the whole noisy-OR score to certain factors', () => {
+    const factors: ScoredFactor[] = [{ severity: 'CRITICAL', score: 1 }, { severity: 'LOW', score: 0.2 }]
+    expect(riskRulesEngine.score(factors, noisyOr)).toBe(1)
+    expect(factors.map(f => f.contribution)).toEqual([1, 0])
+  })
+
+  it('averages by severity weight', () => {
+    const factors: ScoredFactor[] = [{ severity: 'HIGH', score: 0.8 }, { severity: 'LOW', score: 0.2 }]
+    const score = riskRulesEngine.score(factors, weightedAverage)
+
+    // (0.8 * 0.6 + 0.2 * 0.1) / 0.7
+    expect(score).toBeCloseTo(0.5 / 0.7)
+    expect(factors[0].contribution! + factors[1].contribution!).toBeCloseTo(score)
+  })
+})
+
+describe('scoring method', () => {
+  it('defaults to the weighted average the thresholds were tuned for', () => {
+    const { scoringMethod: _omitted, ...draft } = DEFAULT_RISK_POLICY
+    const parsed = riskRulesEngine.validate(draft)
+    expect(parsed.success && parsed.data.scoringMethod).toBe('WEIGHTED_AVERAGE')
+    expect(DEFAULT_RISK_POLICY.scoringMethod).toBe('WEIGHTED_AVERAGE')
+  })
+
+  it('keeps the weighted average for stored policies saved without a method', () => {
+    const { scoringMethod: _omitted, ...stored } = policy({ scoringMethod: 'NOISY_OR' })
+    const parsed = riskRulesEngine.validateStored(stored)
+    expect(parsed.success && parsed.data.scoringMethod).toBe('WEIGHTED_AVERAGE')
+  })
+})
+
+describe('hash', () => {
+  it('depends on content, not key order', () => {
+    const reordered = Object.fromEntries(Object.entries(DEFAULT_RISK_POLICY).reverse()) as RiskPolicy
+    expect(riskRulesEngine.hash(reordered)).toBe(riskRulesEngine.hash(DEFAULT_RISK_POLICY))
+    expect(riskRulesEngine.hash(policy({ severityWeights: { LOW: 0, MEDIUM: 0.3, HIGH: 0.6, CRITICAL: 1 } })))
+      .not.toBe(riskRulesEngine.hash(DEFAULT_RISK_POLICY))
+  })
+})
@@ -0,0 +1,818 @@
+/**
+ * Risk Rules Engine
+ *
+ * Declarative risk policy: each rule is a condition over order facts with
+ * a severity, score and description. Policies are plain JSON so the risk
+ * team can edit them through SystemConfig; this module validates them and
+ * evaluates them against the facts RiskService gathers for an order.
+ */
+
+import { createHash } from 'crypto'
+import { IdentifierType } from '@prisma/client'
+import { z } from 'zod'
+
+export type RiskSeverity = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL'
+
+/**
+ * Facts available to rule conditions, with their value type
+ */
+export const RISK_FACTS = {
+  amount: 'number',
+  currency: 'string',
+  paymentMethod: 'string',
+  orderType: 'string',
+  orderHour: 'number',
+  averageAmount: 'number',
+  amountDeviation: 'number',
+  normalizedAmount: 'number',
+  baseCurrency: 'string',
+  fxRate: 'number',
+  averageNormalizedAmount: 'number',
+  counterpartyId: 'string',
+  counterpartyPriorOrders: 'number',
+  counterpartyTotalOrders: 'number',
+  counterpartyCompletionRate: 'number',
+  counterpartyDisputeCount: 'number',
+  counterpartyDisputesLost: 'number',
+  counterpartyLastDisputeAt: 'string',
+  daysSinceLastDispute: 'number',
+  documentCount: 'number',
+  lowConfidenceDocumentCount: 'number',
+  failedDocumentCount: 'number',
+  messageCount: 'number',
+  userMessageCount: 'number',
+  urgentMessageCount: 'number',
+  offPlatformMessageCount: 'number',
+  thirdPartyPaymentMessageCount: 'number',
+  releasePressureMessageCount: 'number',
+  refundScamMessageCount: 'number',
+  kycStatus: 'string',
+  kycScore: 'number',
+  recentOrderCount: 'number',
+  paymentAccount: 'string',
+  counterpartyOrders1h: 'number',
+  counterpartyOrders24h: 'number',
+  counterpartyOrders7d: 'number',
+  counterpartyVolume1h: 'number',
+  counterpartyVolume24h: 'number',
+  counterpartyVolume7d: 'number',
+  paymentAccountOrders1h: 'number',
+  paymentAccountOrders24h: 'number',
+  paymentAccountOrders7d: 'number',
+  paymentAccountVolume1h: 'number',
+  paymentAccountVolume24h: 'number',
+  paymentAccountVolume7d: 'number',
+  paymentAccountCounterparties: 'number',
+  structuringOrderCount: 'number',
+  structuringVolume: 'number',
+  structuringThreshold: 'number',
+  volumeCurrency: 'string',
+  linkedCounterpartyCount: 'number',
+  linkedFlaggedCount: 'number',
+  linkedFlaggedDepth: 'number'
+} as const
+
+export type RiskFactName = keyof typeof RISK_FACTS
+
+export type RiskFacts = { [K in RiskFactName]: (typeof RISK_FACTS)[K] extends 'number' ? number | null : string | null }
+
+// Order IDs behind aggregate facts, reported on the factors that use them
+export type RiskFactEvidence = Partial<Record<RiskFactName, string[]>>
+
+// Supporting detail for a fact (e.g. matched chat phrases), merged into the
+// details of factors whose condition it satisfied
+export type RiskFactDetails = Partial<Record<RiskFactName, Record<string, unknown[]>>>
+
+const FACT_NAMES = Object.keys(RISK_FACTS) as [RiskFactName, ...RiskFactName[]]
+const SEVERITIES = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'] as const
+
+const scalar = z.union([z.string(), z.number(), z.boolean(), z.null()])
+
+const comparisonSchema = z.object({
+  fact: z.enum(FACT_NAMES),
+  op: z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'notIn', 'exists', 'notExists']),
+  value: z.union([scalar, z.array(scalar)]).optional()
+}).superRefine((condition, ctx) => {
+  const needsList = condition.op === 'in' || condition.op === 'notIn'
+  const needsNumber = ['gt', 'gte', 'lt', 'lte'].includes(condition.op)
+  const isPresence = condition.op === 'exists' || condition.op === 'notExists'
+
+  if (needsList && !Array.isArray(condition.value)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${condition.op} on ${condition.fact} needs an array value` })
+  }
+  if (needsNumber && (typeof condition.value !== 'number' || RISK_FACTS[condition.fact] !== 'number')) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${condition.op} needs a numeric fact and value, got ${condition.fact}` })
+  }
+  if (!needsList && !isPresence && condition.value === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${condition.op} on ${condition.fact} needs a value` })
+  }
+})
+
+export type RiskComparison = z.infer<typeof comparisonSchema>
+
+export type RiskCondition =
+  | RiskComparison
+  | { all: RiskCondition[] }
+  | { any: RiskCondition[] }
+  | { not: RiskCondition }
+
+// Dispatch on the node's shape instead of a plain union so validation
+// errors point at the offending field rather than reading "Invalid input"
+const conditionSchema: z.ZodType<RiskCondition, z.ZodTypeDef, unknown> = z.lazy(() =>
+  z.unknown().transform((value, ctx) => {
+    const node = typeof value === 'object' && value !== null ? value : {}
+    const schema: z.ZodTypeAny = 'all' in node
+      ? z.object({ all: z.array(conditionSchema).min(1) }).strict()
+      : 'any' in node
+        ? z.object({ any: z.array(conditionSchema).min(1) }).strict()
+        : 'not' in node
+          ? z.object({ not: conditionSchema }).strict()
+          : comparisonSchema
+
+    const parsed = schema.safeParse(value)
+    if (!parsed.success) {
+      parsed.error.issues.forEach(issue => ctx.addIssue(issue))
+      return z.NEVER
+    }
+    return parsed.data as RiskCondition
+  })
+)
+
+const ruleSchema = z.object({
+  id: z.string().regex(/^[A-Z][A-Z0-9_]*$/, 'Rule ids are UPPER_SNAKE_CASE factor types'),
+  description: z.string().min(1),
+  severity: z.enum(SEVERITIES),
+  score: z.number().min(0).max(1),
+  condition: conditionSchema,
+  // Rules sharing a group are tiers: only the first matching rule fires
+  group: z.string().min(1).optional(),
+  // Facts copied into the factor details, plus fixed detail values
+  detailFacts: z.array(z.enum(FACT_NAMES)).default([]),
+  details: z.record(scalar).default({}),
+  enabled: z.boolean().default(true)
+})
+
+export type RiskRule = z.infer<typeof ruleSchema>
+
+const velocityParametersSchema = z.object({
+  // Base-currency amounts within the margin below one of these count towards structuring
+  structuringThresholds: z.array(z.number().positive()).min(1),
+  structuringMargin: z.number().gt(0).lt(1),
+  structuringWindowHours: z.number().positive()
+})
+
+export type VelocityParameters = z.infer<typeof velocityParametersSchema>
+
+export const DEFAULT_VELOCITY_PARAMETERS: VelocityParameters = {
+  structuringThresholds: [5000, 10000],
+  structuringMargin: 0.1,
+  structuringWindowHours: 168
+}
+
+const linkAnalysisParametersSchema = z.object({
+  maxDepth: z.number().int().min(1).max(4),
+  // Names alone are too common to link on by default
+  identifierTypes: z.array(z.nativeEnum(IdentifierType)).min(1),
+  maxIdentifierFanout: z.number().int().min(2)
+})
+
+export type LinkAnalysisParameters = z.infer<typeof linkAnalysisParametersSchema>
+
+export const DEFAULT_LINK_ANALYSIS_PARAMETERS: LinkAnalysisParameters = {
+  maxDepth: 2,
+  identifierTypes: ['BANK_ACCOUNT', 'UPI_ID', 'PHONE', 'EMAIL', 'ID_DOCUMENT'],
+  maxIdentifierFanout: 25
+}
+
+export const SCORING_METHODS = ['NOISY_OR', 'WEIGHTED_AVERAGE'] as const
+
+export type ScoringMethod = (typeof SCORING_METHODS)[number]
+
+// How policies stored before the scoring method was configurable were scored
+export const LEGACY_SCORING_METHOD: ScoringMethod = 'WEIGHTED_AVERAGE'
+
+export const riskPolicySchema = z.object({
+  rules: z.array(ruleSchema).min(1),
+  // The thresholds are tuned for the weighted average; noisy-OR scores run
+  // higher and need their own thresholds, so it is opt-in per policy
+  scoringMethod: z.enum(SCORING_METHODS).default(LEGACY_SCORING_METHOD),
+  severityWeights: z.object({
+    LOW: z.number().min(0),
+    MEDIUM: z.number().min(0),
+    HIGH: z.number().min(0),
+    CRITICAL: z.number().min(0)
+  }),
+  thresholds: z.object({
+    autoApprove: z.number().min(0).max(1),
+    manualReview: z.number().min(0).max(1),
+    riskLevels: z.object({
+      MEDIUM: z.number().min(0),
+      HIGH: z.number().min(0),
+      CRITICAL: z.number().min(0)
+    })
+  }),
+  // Inputs used while gathering facts rather than in conditions
+  parameters: z.object({
+    // Extra urgency words on top of the chat phrase library
+    urgencyKeywords: z.array(z.string().min(1)).default([]),
+    lowOcrConfidence: z.number().min(0).max(1),
+    historyWindowHours: z.number().positive(),
+    recentOrderWindowHours: z.number().positive(),
+    velocity: velocityParametersSchema.default(DEFAULT_VELOCITY_PARAMETERS),
+    linkAnalysis: linkAnalysisParametersSchema.default(DEFAULT_LINK_ANALYSIS_PARAMETERS)
+  })
+}).superRefine((policy, ctx) => {
+  const seen = new Set<string>()
+  policy.rules.forEach((rule, index) => {
+    if (seen.has(rule.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rules', index, 'id'], message: `Duplicate rule id ${rule.id}` })
+    }
+    seen.add(rule.id)
+  })
+
+  const { autoApprove, manualReview, riskLevels } = policy.thresholds
+  if (autoApprove > manualReview) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['thresholds'], message: 'autoApprove must not exceed manualReview' })
+  }
+  if (riskLevels.MEDIUM > riskLevels.HIGH || riskLevels.HIGH > riskLevels.CRITICAL) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['thresholds', 'riskLevels'], message: 'Risk level thresholds must be ascending' })
+  }
+})
+
+export type RiskPolicy = z.infer<typeof riskPolicySchema>
+
+// What scoring needs from a risk factor; the score sets its contribution
+export interface ScoredFactor {
+  severity: RiskSeverity
+  score: number
+  // Share of the overall score attributed to this factor; contributions sum to the score
+  contribution?: number
+}
+
+export interface RuleMatch {
+  rule: RiskRule
+  details: Record<string, unknown>
+  // Order IDs behind the facts that made the condition true
+  evidenceOrderIds: string[]
+}
+
+// Raw and base-currency amounts reported on value factors
+const AMOUNT_DETAIL_FACTS: RiskFactName[] = ['amount', 'currency', 'normalizedAmount', 'baseCurrency', 'fxRate']
+
+/**
+ * Base-currency amount above a threshold; orders in a currency without an FX
+ * rate fall back to comparing the raw amount
+ */
+function normalizedAmountAbove(threshold: number): RiskCondition {
+  return {
+    any: [
+      { fact: 'normalizedAmount', op: 'gt', value: threshold },
+      {
+        all: [
+          { fact: 'normalizedAmount', op: 'notExists' },
+          { fact: 'amount', op: 'gt', value: threshold }
+        ]
+      }
+    ]
+  }
+}
+
+/**
+ * Built-in policy, equivalent to the rules RiskService used to hard-code
+ */
+export const DEFAULT_RISK_POLICY: RiskPolicy = {
+  rules: [
+    {
+      id: 'HIGH_VALUE_ORDER',
+      description: 'Order amount exceeds high-value threshold',
+      severity: 'HIGH',
+      score: 0.8,
+      group: 'ORDER_VALUE',
+      condition: normalizedAmountAbove(10000),
+      detailFacts: AMOUNT_DETAIL_FACTS,
+      details: { threshold: 10000 },
+      enabled: true
+    },
+    {
+      id: 'MEDIUM_VALUE_ORDER',
+      description: 'Order amount is in medium-value range',
+      severity: 'MEDIUM',
+      score: 0.4,
+      group: 'ORDER_VALUE',
+      condition: normalizedAmountAbove(5000),
+      detailFacts: AMOUNT_DETAIL_FACTS,
+      details: { threshold: 5000 },
+      enabled: true
+    },
+    {
+      id: 'UNUSUAL_AMOUNT_PATTERN',
+      description: 'Order amount significantly deviates from historical pattern',
+      severity: 'MEDIUM',
+      score: 0.5,
+      condition: { fact: 'amountDeviation', op: 'gt', value: 2.0 },
+      detailFacts: [...AMOUNT_DETAIL_FACTS, 'averageNormalizedAmount', 'averageAmount', 'amountDeviation'],
+      details: {},
+      enabled: true
+    },
+    {
+      id: 'NEW_COUNTERPARTY',
+      description: 'First-time counterparty with no transaction history',
+      severity: 'MEDIUM',
+      score: 0.4,
+      condition: { fact: 'counterpartyPriorOrders', op: 'lte', value: 0 },
+      detailFacts: ['counterpartyId'],
+      details: {},
+      enabled: true
+    },
+    {
+      id: 'RECENT_DISPUTES',
+      description: 'Counterparty has recent disputed transactions',
+      severity: 'HIGH',
+      score: 0.7,
+      condition: {
+        all: [
+          { fact: 'counterpartyDisputeCount', op: 'gt', value: 0 },
+          { fact: 'daysSinceLastDispute', op: 'lte', value: 30 }
+        ]
+      },
+      detailFacts: ['counterpartyDisputeCount', 'counterpartyDisputesLost', 'counterpartyLastDisputeAt'],
+      details: { period: '30 days' },
+      enabled: true
+    },
+    {
+      id: 'LOW_COMPLETION_RATE',
+      description: 'Counterparty has low order completion rate',
+      severity: 'MEDIUM',
+      score: 0.5,
+      condition: {
+        all: [
+          { fact: 'counterpartyCompletionRate', op: 'lt', value: 0.8 },
+          { fact: 'counterpartyTotalOrders', op: 'gte', value: 5 }
+        ]
+      },
+      detailFacts: ['counterpartyCompletionRate', 'counterpartyTotalOrders'],
+      details: {},
+      enabled: true
+    },
+    {
+      id: 'HIGH_RISK_PAYMENT_METHOD',
+      description: 'Payment method has high fraud risk',
+      severity: 'HIGH',
+      score: 0.6,
+      group: 'PAYMENT_METHOD',
+      condition: { fact: 'paymentMethod', op: 'in', value: ['CASH', 'GIFT_CARDS', 'PREPAID_CARDS'] },
+      detailFacts: ['paymentMethod'],
+      details: {},
+      enabled: true
+    },
+    {
+      id: 'MEDIUM_RISK_PAYMENT_METHOD',
+      description: 'Payment method has moderate fraud risk',
+      severity: 'MEDIUM',
+      score: 0.3,
+      group: 'PAYMENT_METHOD',
+      condition: { fact: 'paymentMethod', op: 'in', value: ['PAYPAL', 'VENMO', 'CASHAPP'] },
+      detailFacts: ['paymentMethod'],
+      details: {},
+      enabled: true
+    },
+    {
+      id: 'NO_DOCUMENTS',
+      description: 'No identity documents provided',
+      severity: 'HIGH',
+      score: 0.8,
+      condition: { fact: 'documentCount', op: 'eq', value: 0 },
+      detailFacts: ['documentCount'],
+      details: {},
+      enabled: true
+    },
+    {
+      id: 'LOW_DOCUMENT_QUALITY',
+      description: 'Some documents have low OCR confidence',
+      severity: 'MEDIUM',
+      score: 0.4,
+      condition: { fact: 'lowConfidenceDocumentCount', op: 'gt', value: 0 },
+      detailFacts: ['lowConfidenceDocumentCount', 'documentCount'],
+      details: {},
+      enabled: true
+    },
+    {
+      id: 'DOCUMENT_PROCESSING_FAILED',
+      description: 'Some documents failed to process',
+      severity: 'HIGH',
+      score: 0.7,
+      condition: { fact: 'failedDocumentCount', op: 'gt', value: 0 },
+      detailFacts: ['failedDocumentCount'],
+      details: {},
+      enabled: true
+    },
+    {
+      id: 'NO_COMMUNICATION',
+      description: 'No communication from counterparty',
+      severity: 'MEDIUM',
+      score: 0.3,
+      condition: { fact: 'messageCount', op: 'eq', value: 0 },
+      detailFacts: ['messageCount'],
+      details: {},
+      enabled: true
+    },
+    {
+      id: 'SUSPICIOUS_COMMUNICATION',
+      description: 'Communication contains urgency indicators',
+      severity: 'MEDIUM',
+      score: 0.4,
+      condition: { fact: 'urgentMessageCount', op: 'gt', value: 0 },
+      detailFacts: ['urgentMessageCount', 'userMessageCount'],
+      details: {},
+      enabled: true
+    },
+    {
+      id: 'OFF_PLATFORM_REQUEST',
+      description: 'Counterparty asks to move the conversation or deal off-platform',
+      severity: 'HIGH',
+      score: 0.7,
+      condition: { fact: 'offPlatformMessageCount', op: 'gt', value: 0 },
+      detailFacts: ['offPlatformMessageCount'],
+      details: {},
+      enabled: true
+    },
+    {
+      id: 'THIRD_PARTY_PAYMENT',
+      description: 'Counterparty indicates payment will come from a third party',
+      severity: 'HIGH',
+      score: 0.7,
+      condition: { fact: 'thirdPartyPaymentMessageCount', op: 'gt', value: 0 },
+      detailFacts: ['thirdPartyPaymentMessageCount'],
+      details: {},
+      enabled: true
+    },
+    {
+      id: 'RELEASE_PRESSURE',
+      description: 'Counterparty claims payment is done and pushes for release',
+      severity: 'MEDIUM',
+      score: 0.5,
+      condition: { fact: 'releasePressureMessageCount', op: 'gt', value: 0 },
+      detailFacts: ['releasePressureMessageCount'],
+      details: {},
+      enabled: true
+    },
+    {
+      id: 'REFUND_SCAM_PATTERN',
+      description: 'Counterparty claims an overpayment and asks for money back',
+      severity: 'HIGH',
+      score: 0.8,
+      condition: { fact: 'refundScamMessageCount', op: 'gt', value: 0 },
+      detailFacts: ['refundScamMessageCount'],
+      details: {},
+      enabled: true
+    },
+    {
+      id: 'EXCESSIVE_MESSAGING',
+      description: 'Unusually high number of messages',
+      severity: 'LOW',
+      score: 0.2,
+      condition: { fact: 'userMessageCount', op: 'gt', value: 20 },
+      detailFacts: ['userMessageCount'],
+      details: {},
+      enabled: true
+    },
+    {
+      id: 'NO_KYC_VERIFICATION',
+      description: 'KYC verification not completed',
+      severity: 'HIGH',
+      score: 0.9,
+      group: 'KYC',
+      condition: { fact: 'kycStatus', op: 'eq', value: 'NONE' },
+      detailFacts: ['kycStatus'],
+      details: {},
+      enabled: true
+    },
+    {
+      id: 'KYC_REJECTED',
+      description: 'KYC verification was rejected',
+      severity: 'CRITICAL',
+      score: 1.0,
+      group: 'KYC',
+      condition: { fact: 'kycStatus', op: 'eq', value: 'REJECTED' },
+      detailFacts: ['kycStatus'],
+      details: {},
+      enabled: true
+    },
+    {
+      id: 'KYC_REQUIRES_REVIEW',
+      description: 'KYC verification requires manual review',
+      severity: 'HIGH',
+      score: 0.7,
+      group: 'KYC',
+      condition: { fact: 'kycStatus', op: 'eq', value: 'REQUIRES_REVIEW' },
+      detailFacts: ['kycStatus'],
+      details: {},
+      enabled: true
+    },
+    {
+      id: 'LOW_KYC_SCORE',
+      description: 'KYC verification score is below threshold',
+      severity: 'MEDIUM',
+      score: 0.5,
+      group: 'KYC',
+      condition: {
+        all: [
+          { fact: 'kycScore', op: 'gt', value: 0 },
+          { fact: 'kycScore', op: 'lt', value: 0.6 }
+        ]
+      },
+      detailFacts: ['kycScore'],
+      details: { threshold: 0.6 },
+      enabled: true
+    },
+    {
+      id: 'UNUSUAL_TIMING',
+      description: 'Order created during unusual hours',
+      severity: 'LOW',
+      score: 0.1,
+      condition: {
+        any: [
+          { fact: 'orderHour', op: 'lt', value: 6 },
+          { fact: 'orderHour', op: 'gt', value: 22 }
+        ]
+      },
+      detailFacts: ['orderHour'],
+      details: { timeZone: 'UTC' },
+      enabled: true
+    },
+    {
+      id: 'RAPID_ORDERS',
+      description: 'Multiple orders in short time period',
+      severity: 'MEDIUM',
+      score: 0.4,
+      condition: { fact: 'recentOrderCount', op: 'gt', value: 3 },
+      detailFacts: ['recentOrderCount'],
+      details: { period: '24 hours' },
+      enabled: true
+    },
+    {
+      id: 'COUNTERPARTY_ORDER_BURST',
+      description: 'Burst of orders from counterparty within one hour',
+      severity: 'HIGH',
+      score: 0.6,
+      group: 'COUNTERPARTY_VELOCITY',
+      condition: { fact: 'counterpartyOrders1h', op: 'gte', value: 4 },
+      detailFacts: ['counterpartyOrders1h', 'counterpartyVolume1h', 'volumeCurrency'],
+      details: { window: '1 hour' },
+      enabled: true
+    },
+    {
+      id: 'COUNTERPARTY_HIGH_VELOCITY',
+      description: 'High order count or volume from counterparty',
+      severity: 'MEDIUM',
+      score: 0.4,
+      group: 'COUNTERPARTY_VELOCITY',
+      condition: {
+        any: [
+          { fact: 'counterpartyOrders24h', op: 'gt', value: 10 },
+          { fact: 'counterpartyVolume24h', op: 'gt', value: 25000 },
+          { fact: 'counterpartyVolume7d', op: 'gt', value: 100000 }
+        ]
+      },
+      detailFacts: ['counterpartyOrders24h', 'counterpartyVolume24h', 'counterpartyOrders7d', 'counterpartyVolume7d', 'volumeCurrency'],
+      details: {},
+      enabled: true
+    },
+    {
+      id: 'PAYMENT_ACCOUNT_HIGH_VELOCITY',
+      description: 'High order count or volume through the payment account',
+      severity: 'MEDIUM',
+      score: 0.4,
+      condition: {
+        any: [
+          { fact: 'paymentAccountOrders1h', op: 'gte', value: 4 },
+          { fact: 'paymentAccountOrders24h', op: 'gt', value: 10 },
+          { fact: 'paymentAccountVolume24h', op: 'gt', value: 25000 }
+        ]
+      },
+      detailFacts: ['paymentAccountOrders1h', 'paymentAccountOrders24h', 'paymentAccountVolume24h', 'volumeCurrency'],
+      details: {},
+      enabled: true
+    },
+    {
+      id: 'SHARED_PAYMENT_ACCOUNT',
+      description: 'Payment account is used by several counterparties',
+      severity: 'HIGH',
+      score: 0.7,
+      condition: { fact: 'paymentAccountCounterparties', op: 'gte', value: 2 },
+      detailFacts: ['paymentAccountCounterparties'],
+      details: { window: '7 days' },
+      enabled: true
+    },
+    {
+      id: 'STRUCTURING_PATTERN',
+      description: 'Repeated amounts just under a review threshold',
+      severity: 'HIGH',
+      score: 0.7,
+      condition: { fact: 'structuringOrderCount', op: 'gte', value: 3 },
+      detailFacts: ['structuringOrderCount', 'structuringVolume', 'structuringThreshold', 'volumeCurrency'],
+      details: {},
+      enabled: true
+    },
+    {
+      id: 'LINKED_TO_FLAGGED_COUNTERPARTY',
+      description: 'Counterparty shares identifiers with a counterparty that has disputes or rejected KYC',
+      severity: 'HIGH',
+      score: 0.7,
+      condition: { fact: 'linkedFlaggedCount', op: 'gt', value: 0 },
+      detailFacts: ['linkedFlaggedCount', 'linkedFlaggedDepth', 'linkedCounterpartyCount'],
+      details: {},
+      enabled: true
+    }
+  ],
+  scoringMethod: LEGACY_SCORING_METHOD,
+  severityWeights: { LOW: 0.1, MEDIUM: 0.3, HIGH: 0.6, CRITICAL: 1.0 },
+  thresholds: {
+    autoApprove: 0.2,
+    manualReview: 0.7,
+    riskLevels: { MEDIUM: 0.6, HIGH: 0.8, CRITICAL: 1.0 }
+  },
+  parameters: {
+    urgencyKeywords: [],
+    lowOcrConfidence: 0.7,
+    historyWindowHours: 720,
+    recentOrderWindowHours: 24,
+    velocity: DEFAULT_VELOCITY_PARAMETERS,
+    linkAnalysis: DEFAULT_LINK_ANALYSIS_PARAMETERS
+  }
+}
+
+/**
+ * JSON with object keys sorted, so equal policies serialise identically
+ * whatever order their keys were stored in
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+export class RiskRulesEngine {
+  /**
+   * Validate a policy document, returning zod issues on failure
+   */
+  validate(policy: unknown) {
+    return riskPolicySchema.safeParse(policy)
+  }
+
+  /**
+   * Validate a policy read back from storage. One saved without a scoring
+   * method was scored with the legacy weighted average and keeps it.
+   */
+  validateStored(policy: unknown) {
+    const legacy = !!policy && typeof policy === 'object' && !('scoringMethod' in policy)
+    return riskPolicySchema.safeParse(legacy ? { ...policy, scoringMethod: LEGACY_SCORING_METHOD } : policy)
+  }
+
+  /**
+   * SHA-256 of a policy's content, recorded with every assessment so the
+   * exact rules behind a score can be identified whatever its version number
+   */
+  hash(policy: RiskPolicy): string {
+    return createHash('sha256').update(canonicalJson(policy)).digest('hex')
+  }
+
+  /**
+   * Calculate overall risk score from individual factors, recording each
+   * factor's contribution on the factor itself
+   */
+  score(factors: ScoredFactor[], policy: RiskPolicy): number {
+    if (factors.length === 0) return 0
+
+    if (policy.scoringMethod === 'NOISY_OR') {
+      // Probability that at least one factor is a real risk: every factor can
+      // only raise the score, unlike an average that a LOW factor drags down
+      const overallScore = 1 - factors.reduce((product, f) => product * (1 - f.score), 1)
+
+      // Attribute the score in proportion to each factor's log-odds weight;
+      // certain factors (score 1) take the whole score between them
+      const certain = factors.filter(f => f.score >= 1)
+      const logWeights = factors.map(f => (f.score >= 1 ? 0 : -Math.log(1 - f.score)))
+      const totalLog = logWeights.reduce((sum, w) => sum + w, 0)
+
+      factors.forEach((factor, i) => {
+        factor.contribution = certain.length > 0
+          ? (factor.score >= 1 ? overallScore / certain.length : 0)
+          : totalLog > 0 ? overallScore * logWeights[i] / totalLog : 0
+      })
+
+      return overallScore
+    }
+
+    // Weight factors by severity
+    const weights = policy.severityWeights
+
+    let totalWeightedScore = 0
+    let totalWeight = 0
+
+    factors.forEach(factor => {
+      const weight = weights[factor.severity]
+      totalWeightedScore += factor.score * weight
+      totalWeight += weight
+    })
+
+    factors.forEach(factor => {
+      factor.contribution = totalWeight > 0 ? factor.score * weights[factor.severity] / totalWeight : 0
+    })
+
+    return totalWeight > 0 ? totalWeightedScore / totalWeight : 0
+  }
+
+  /**
+   * Evaluate every enabled rule against the facts, honouring tier groups
+   */
+  evaluate(
+    policy: RiskPolicy,
+    facts: RiskFacts,
+    evidence: RiskFactEvidence = {},
+    factDetails: RiskFactDetails = {}
+  ): RuleMatch[] {
+    const matches: RuleMatch[] = []
+    const firedGroups = new Set<string>()
+
+    for (const rule of policy.rules) {
+      if (!rule.enabled) continue
+      if (rule.group && firedGroups.has(rule.group)) continue
+      if (!this.matches(rule.condition, facts)) continue
+
+      if (rule.group) firedGroups.add(rule.group)
+      const matchedFacts = Array.from(new Set(this.matchedFacts(rule.condition, facts)))
+
+      const supporting: Record<string, unknown[]> = {}
+      for (const fact of matchedFacts) {
+        for (const [key, values] of Object.entries(factDetails[fact] ?? {})) {
+          supporting[key] = [...(supporting[key] ?? []), ...values]
+        }
+      }
+
+      matches.push({
+        rule,
+        details: {
+          ...Object.fromEntries(rule.detailFacts.map(fact => [fact, facts[fact]])),
+          ...supporting,
+          ...rule.details
+        },
+        evidenceOrderIds: Array.from(new Set(matchedFacts.flatMap(fact => evidence[fact] ?? [])))
+      })
+    }
+
+    return matches
+  }
+
+  /**
+   * Facts whose comparisons hold within a condition, for evidence.
+   * Negated branches contribute nothing.
+   */
+  matchedFacts(condition: RiskCondition, facts: RiskFacts): RiskFactName[] {
+    if (!this.matches(condition, facts)) return []
+    if ('all' in condition || 'any' in condition) {
+      const children = 'all' in condition ? condition.all : condition.any
+      return children.flatMap(c => this.matchedFacts(c, facts))
+    }
+    if ('not' in condition) return []
+
+    return [condition.fact]
+  }
+
+  /**
+   * Evaluate a condition tree. Comparisons against a missing (null) fact are false.
+   */
+  matches(condition: RiskCondition, facts: RiskFacts): boolean {
+    if ('all' in condition) return condition.all.every(c => this.matches(c, facts))
+    if ('any' in condition) return condition.any.some(c => this.matches(c, facts))
+    if ('not' in condition) return !this.matches(condition.not, facts)
+
+    const actual = facts[condition.fact]
+    const expected = condition.value
+
+    switch (condition.op) {
+      case 'exists': return actual !== null && actual !== undefined
+      case 'notExists': return actual === null || actual === undefined
+      case 'eq': return actual === expected
+      case 'neq': return actual !== expected
+      case 'in': return Array.isArray(expected) && expected.includes(actual)
+      case 'notIn': return Array.isArray(expected) && !expected.includes(actual)
+    }
+
+    if (typeof actual !== 'number' || typeof expected !== 'number') return false
+
+    switch (condition.op) {
+      case 'gt': return actual > expected
+      case 'gte': return actual >= expected
+      case 'lt': return actual < expected
+      case 'lte': return actual <= expected
+    }
+  }
+}
+
+export const riskRulesEngine = new RiskRulesEngine()
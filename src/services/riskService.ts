@@ -2,10 +2,32 @@
  * Risk Assessment Service
  * 
  * Evaluates risk factors for P2P orders and provides recommendations
- * for automated approval, manual review, or rejection.
+ * for automated approval, manual review, or rejection. The rules and
+ * thresholds come from the active risk policy (see riskPolicyService).
  */
 
+import { Prisma } from '@prisma/client'
+import { z } from 'zod'
 import { prisma } from '@/lib/prisma'
+import { AssessmentTrigger } from '@/types'
+import { chatAnalysisService, ChatFinding, ChatScamCategory } from './chatAnalysisService'
+import { counterpartyService } from './counterpartyService'
+import { fxRateService } from './fxRateService'
+import { linkAnalysisService } from './linkAnalysisService'
+import { riskPolicyService } from './riskPolicyService'
+import {
+  RiskFactDetails,
+  RiskFactEvidence,
+  RiskFactName,
+  RiskFacts,
+  RiskPolicy,
+  riskRulesEngine,
+  ScoringMethod
+} from './riskRulesEngine'
+import { velocityService } from './velocityService'
+
+type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL'
+type Recommendation = 'AUTO_APPROVE' | 'MANUAL_REVIEW' | 'REJECT'
 
 export interface RiskFactor {
   type: string
@@ -13,422 +35,595 @@ export interface RiskFactor {
   score: number
   description: string
   details?: any
+  // Orders behind aggregate factors such as velocity and structuring
+  evidence?: { orderIds: string[] }
+  // Share of the overall score attributed to this factor; contributions sum to the score
+  contribution?: number
+}
+
+export interface RiskDecision {
+  scoringMethod: ScoringMethod
+  reason:
+    | 'CRITICAL_FACTOR'
+    | 'HIGH_SEVERITY_FACTOR'
+    | 'ABOVE_MANUAL_REVIEW_THRESHOLD'
+    | 'WITHIN_AUTO_APPROVE_THRESHOLD'
+    | 'BETWEEN_THRESHOLDS'
+  // Factors that force review or rejection whatever the score
+  blockingFactors: string[]
+  thresholds: { autoApprove: number; manualReview: number }
+  // Score reduction needed to reach auto-approval (0 when already within it)
+  distanceToAutoApprove: number
+  // Score increase that would cross into manual review (0 when already at or above it)
+  distanceToManualReview: number
+  nextRiskLevel: { level: RiskLevel; distance: number } | null
 }
 
 export interface RiskAssessmentResult {
   orderId: string
   overallScore: number
-  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL'
-  recommendation: 'AUTO_APPROVE' | 'MANUAL_REVIEW' | 'REJECT'
+  riskLevel: RiskLevel
+  recommendation: Recommendation
   factors: RiskFactor[]
+  decision: RiskDecision
   autoApproved: boolean
   reviewRequired: boolean
   notes?: string
+  policyVersion: number
+  // Content hash of the policy, which tells apart policies sharing a version number
+  policyHash: string
+  snapshotId?: string
 }
 
-export class RiskService {
-  private readonly RISK_THRESHOLDS = {
-    LOW: 0.3,
-    MEDIUM: 0.6,
-    HIGH: 0.8,
-    CRITICAL: 1.0
-  }
+export interface AssessmentTriggerInfo {
+  type: AssessmentTrigger
+  // ID of the document, message, verification, etc. that caused the run
+  ref?: string | null
+  operatorId?: string | null
+}
 
-  private readonly AUTO_APPROVE_THRESHOLD = 0.2
-  private readonly MANUAL_REVIEW_THRESHOLD = 0.7
+export interface FactorChange {
+  type: string
+  before: Pick<RiskFactor, 'severity' | 'score'>
+  after: Pick<RiskFactor, 'severity' | 'score'>
+}
 
-  /**
-   * Perform comprehensive risk assessment for a P2P order
-   */
-  async assessOrder(orderId: string): Promise<RiskAssessmentResult> {
-    const order = await prisma.p2POrder.findUnique({
-      where: { id: orderId },
-      include: {
-        documents: true,
-        chatMessages: true,
-        kycVerification: true
-      }
-    })
+export interface AssessmentChanges {
+  scoreDelta: number
+  riskLevel: { from: string; to: string } | null
+  recommendation: { from: string; to: string } | null
+  // null stands for an unsaved draft policy
+  policyVersion: { from: number | null; to: number | null } | null
+  added: RiskFactor[]
+  removed: RiskFactor[]
+  changed: FactorChange[]
+}
 
-    if (!order) {
-      throw new Error('Order not found')
-    }
+interface AssessmentSummary {
+  overallScore: number
+  riskLevel: string
+  recommendation: string
+  policyVersion: number | null
+  factors: RiskFactor[]
+}
 
-    const factors: RiskFactor[] = []
+/**
+ * Hypothetical changes for what-if simulation. The named fields cover the
+ * common questions ("what if KYC were approved?"); `facts` overrides any
+ * rule fact directly.
+ */
+export const riskScenarioSchema = z.object({
+  kycStatus: z.enum(['NONE', 'PENDING', 'IN_PROGRESS', 'APPROVED', 'REJECTED', 'REQUIRES_REVIEW']).optional(),
+  kycScore: z.number().min(0).max(1).optional(),
+  documentsAdded: z.number().int().min(1).optional(),
+  failedDocumentsResolved: z.boolean().optional(),
+  messagesAdded: z.number().int().min(1).optional(),
+  amount: z.number().positive().optional(),
+  paymentMethod: z.string().min(1).optional(),
+  facts: z.record(z.union([z.string(), z.number(), z.null()])).optional()
+})
+
+export type RiskScenario = z.infer<typeof riskScenarioSchema>
+
+const ASSESSMENT_INCLUDE = {
+  documents: true,
+  chatMessages: true,
+  kycVerification: true
+} satisfies Prisma.P2POrderInclude
+
+type AssessedOrder = Prisma.P2POrderGetPayload<{ include: typeof ASSESSMENT_INCLUDE }>
+
+interface FactContext {
+  evidence?: RiskFactEvidence
+  details?: RiskFactDetails
+}
 
-    // Assess various risk factors
-    await this.assessOrderAmount(order, factors)
-    await this.assessCounterpartyRisk(order, factors)
-    await this.assessPaymentMethodRisk(order, factors)
-    await this.assessDocumentRisk(order, factors)
-    await this.assessCommunicationRisk(order, factors)
-    await this.assessKYCRisk(order, factors)
-    await this.assessBehavioralRisk(order, factors)
+interface GatheredFacts extends FactContext {
+  facts: RiskFacts
+}
 
-    // Calculate overall risk score
-    const overallScore = this.calculateOverallScore(factors)
-    const riskLevel = this.determineRiskLevel(overallScore)
-    const recommendation = this.determineRecommendation(overallScore, factors)
+// Chat scam categories and the message-count facts they feed
+const CHAT_CATEGORY_FACTS: Record<ChatScamCategory, RiskFactName> = {
+  URGENCY: 'urgentMessageCount',
+  OFF_PLATFORM: 'offPlatformMessageCount',
+  THIRD_PARTY_PAYMENT: 'thirdPartyPaymentMessageCount',
+  RELEASE_PRESSURE: 'releasePressureMessageCount',
+  REFUND_SCAM: 'refundScamMessageCount'
+}
 
-    const result: RiskAssessmentResult = {
-      orderId,
-      overallScore,
-      riskLevel,
-      recommendation,
-      factors,
-      autoApproved: recommendation === 'AUTO_APPROVE',
-      reviewRequired: recommendation === 'MANUAL_REVIEW',
-      notes: this.generateRiskNotes(factors)
-    }
+export class RiskAssessmentError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message)
+    this.name = 'RiskAssessmentError'
+  }
+}
+
+export class RiskService {
+  /**
+   * Perform comprehensive risk assessment for a P2P order
+   */
+  async assessOrder(
+    orderId: string,
+    trigger: AssessmentTriggerInfo = { type: 'MANUAL' }
+  ): Promise<RiskAssessmentResult> {
+    const order = await this.loadOrder(orderId)
+    const { version, policy } = await riskPolicyService.getActivePolicy()
+
+    // Gather order facts and evaluate the policy rules against them
+    const { facts, ...context } = await this.gatherFacts(order, policy)
+    const result = this.scoreFacts(orderId, facts, policy, version, context)
 
     // Store assessment in database
-    await this.storeAssessment(result)
+    result.snapshotId = await this.storeAssessment(result, trigger)
 
     return result
   }
 
   /**
-   * Assess risk based on order amount
+   * Re-score an order under hypothetical changes without persisting anything.
+   * A draft policy can be supplied to preview a policy change on the order;
+   * the baseline always uses the active policy and facts gathered under it.
    */
-  private async assessOrderAmount(order: any, factors: RiskFactor[]): Promise<void> {
-    const amount = parseFloat(order.amount.toString())
-    
-    if (amount > 10000) {
-      factors.push({
-        type: 'HIGH_VALUE_ORDER',
-        severity: 'HIGH',
-        score: 0.8,
-        description: 'Order amount exceeds high-value threshold',
-        details: { amount, threshold: 10000 }
-      })
-    } else if (amount > 5000) {
-      factors.push({
-        type: 'MEDIUM_VALUE_ORDER',
-        severity: 'MEDIUM',
-        score: 0.4,
-        description: 'Order amount is in medium-value range',
-        details: { amount, threshold: 5000 }
-      })
+  async simulate(orderId: string, scenario: RiskScenario, draftPolicy?: RiskPolicy) {
+    const order = await this.loadOrder(orderId)
+    const active = await riskPolicyService.getActivePolicy()
+
+    // Policy parameters shape fact gathering, so each policy gets its own facts
+    const { facts, ...context } = await this.gatherFacts(order, active.policy)
+    const draft = draftPolicy ? await this.gatherFacts(order, draftPolicy) : null
+    const policy = draftPolicy ?? active.policy
+    const scenarioBase = draft?.facts ?? facts
+    const simulatedFacts = this.applyScenario(scenarioBase, scenario)
+
+    const baseline = this.scoreFacts(orderId, facts, active.policy, active.version, context)
+    const simulated = {
+      ...this.scoreFacts(orderId, simulatedFacts, policy, active.version, draft ?? context),
+      // A draft has no version yet
+      policyVersion: draftPolicy ? null : active.version
     }
 
-    // Check for unusual amount patterns
-    const recentOrders = await this.getRecentOrdersByCounterparty(order.counterpartyId)
-    if (recentOrders.length > 0) {
-      const avgAmount = recentOrders.reduce((sum, o) => sum + parseFloat(o.amount.toString()), 0) / recentOrders.length
-      const deviation = Math.abs(amount - avgAmount) / avgAmount
-
-      if (deviation > 2.0) {
-        factors.push({
-          type: 'UNUSUAL_AMOUNT_PATTERN',
-          severity: 'MEDIUM',
-          score: 0.5,
-          description: 'Order amount significantly deviates from historical pattern',
-          details: { currentAmount: amount, averageAmount: avgAmount, deviation }
-        })
-      }
+    const changedFacts = (Object.keys(simulatedFacts) as (keyof RiskFacts)[])
+      .filter(fact => simulatedFacts[fact] !== scenarioBase[fact])
+      .map(fact => ({ fact, from: scenarioBase[fact], to: simulatedFacts[fact] }))
+
+    return {
+      orderId,
+      draftPolicy: !!draftPolicy,
+      scenario,
+      changedFacts,
+      baseline,
+      simulated,
+      changes: this.diffAssessments(baseline, simulated)
     }
   }
 
   /**
-   * Assess counterparty-related risks
+   * Return every assessment run for an order, oldest first, each with the
+   * changes relative to the run before it
    */
-  private async assessCounterpartyRisk(order: any, factors: RiskFactor[]): Promise<void> {
-    // Check counterparty history
-    const counterpartyOrders = await this.getCounterpartyOrderHistory(order.counterpartyId)
-    
-    if (counterpartyOrders.length === 0) {
-      factors.push({
-        type: 'NEW_COUNTERPARTY',
-        severity: 'MEDIUM',
-        score: 0.4,
-        description: 'First-time counterparty with no transaction history',
-        details: { counterpartyId: order.counterpartyId }
-      })
-    }
+  async getAssessmentHistory(orderId: string) {
+    const snapshots = await prisma.riskAssessmentSnapshot.findMany({
+      where: { orderId },
+      orderBy: [{ assessedAt: 'asc' }, { id: 'asc' }]
+    })
 
-    // Check for recent disputes
-    const recentDisputes = counterpartyOrders.filter(o => 
-      o.status === 'DISPUTED' && 
-      new Date(o.createdAt) > new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
-    )
+    const summaries: AssessmentSummary[] = snapshots.map(snapshot => ({
+      ...snapshot,
+      factors: snapshot.riskFactors as unknown as RiskFactor[]
+    }))
 
-    if (recentDisputes.length > 0) {
-      factors.push({
-        type: 'RECENT_DISPUTES',
-        severity: 'HIGH',
-        score: 0.7,
-        description: 'Counterparty has recent disputed transactions',
-        details: { disputeCount: recentDisputes.length, period: '30 days' }
-      })
-    }
+    return snapshots.map((snapshot, index) => ({
+      ...snapshot,
+      changes: index > 0 ? this.diffAssessments(summaries[index - 1], summaries[index]) : null
+    }))
+  }
 
-    // Check completion rate
-    const completedOrders = counterpartyOrders.filter(o => o.status === 'COMPLETED')
-    const completionRate = counterpartyOrders.length > 0 ? completedOrders.length / counterpartyOrders.length : 0
-
-    if (completionRate < 0.8 && counterpartyOrders.length >= 5) {
-      factors.push({
-        type: 'LOW_COMPLETION_RATE',
-        severity: 'MEDIUM',
-        score: 0.5,
-        description: 'Counterparty has low order completion rate',
-        details: { completionRate, totalOrders: counterpartyOrders.length }
-      })
+  /**
+   * Compare two assessments factor by factor
+   */
+  private diffAssessments(previous: AssessmentSummary, current: AssessmentSummary): AssessmentChanges {
+    const before = new Map(previous.factors.map(f => [f.type, f]))
+    const after = new Map(current.factors.map(f => [f.type, f]))
+
+    const changed: FactorChange[] = []
+    after.forEach((factor, type) => {
+      const old = before.get(type)
+      if (old && (old.severity !== factor.severity || old.score !== factor.score)) {
+        changed.push({
+          type,
+          before: { severity: old.severity, score: old.score },
+          after: { severity: factor.severity, score: factor.score }
+        })
+      }
+    })
+
+    return {
+      scoreDelta: current.overallScore - previous.overallScore,
+      riskLevel: previous.riskLevel !== current.riskLevel
+        ? { from: previous.riskLevel, to: current.riskLevel }
+        : null,
+      recommendation: previous.recommendation !== current.recommendation
+        ? { from: previous.recommendation, to: current.recommendation }
+        : null,
+      policyVersion: previous.policyVersion !== current.policyVersion
+        ? { from: previous.policyVersion, to: current.policyVersion }
+        : null,
+      added: Array.from(after.values()).filter(f => !before.has(f.type)),
+      removed: Array.from(before.values()).filter(f => !after.has(f.type)),
+      changed
     }
   }
 
   /**
-   * Assess payment method risks
+   * Score an order under a given policy without storing the result. With
+   * `asOf`, only messages, documents and KYC that existed at that moment
+   * are considered, so historical orders can be replayed for backtesting.
    */
-  private async assessPaymentMethodRisk(order: any, factors: RiskFactor[]): Promise<void> {
-    const highRiskMethods = ['CASH', 'GIFT_CARDS', 'PREPAID_CARDS']
-    const mediumRiskMethods = ['PAYPAL', 'VENMO', 'CASHAPP']
-
-    if (highRiskMethods.includes(order.paymentMethod)) {
-      factors.push({
-        type: 'HIGH_RISK_PAYMENT_METHOD',
-        severity: 'HIGH',
-        score: 0.6,
-        description: 'Payment method has high fraud risk',
-        details: { paymentMethod: order.paymentMethod }
-      })
-    } else if (mediumRiskMethods.includes(order.paymentMethod)) {
-      factors.push({
-        type: 'MEDIUM_RISK_PAYMENT_METHOD',
-        severity: 'MEDIUM',
-        score: 0.3,
-        description: 'Payment method has moderate fraud risk',
-        details: { paymentMethod: order.paymentMethod }
-      })
-    }
+  async evaluateOrder(
+    orderId: string,
+    policy: RiskPolicy,
+    policyVersion: number,
+    asOf?: Date
+  ): Promise<RiskAssessmentResult> {
+    const loaded = await this.loadOrder(orderId)
+    const order = asOf ? this.orderAsOf(loaded, asOf) : loaded
+    const { facts, ...context } = await this.gatherFacts(order, policy, asOf)
+
+    return this.scoreFacts(orderId, facts, policy, policyVersion, context)
   }
 
   /**
-   * Assess document-related risks
+   * Drop related records created after a point in time. Document OCR
+   * results are as currently stored; their history is not kept. The KYC
+   * verification only holds its latest run, so one changed after the point
+   * in time is dropped rather than leaking a later result.
    */
-  private async assessDocumentRisk(order: any, factors: RiskFactor[]): Promise<void> {
-    if (order.documents.length === 0) {
-      factors.push({
-        type: 'NO_DOCUMENTS',
-        severity: 'HIGH',
-        score: 0.8,
-        description: 'No identity documents provided',
-        details: { documentCount: 0 }
-      })
-      return
+  private orderAsOf(order: AssessedOrder, asOf: Date): AssessedOrder {
+    const kycUpdatedAt = order.kycVerification?.updatedAt
+
+    return {
+      ...order,
+      chatMessages: order.chatMessages.filter(msg => msg.timestamp <= asOf),
+      documents: order.documents.filter(doc => doc.uploadedAt <= asOf),
+      kycVerification: kycUpdatedAt && kycUpdatedAt <= asOf ? order.kycVerification : null
     }
+  }
 
-    // Check document quality and OCR confidence
-    const lowConfidenceDocs = order.documents.filter((doc: any) => 
-      doc.ocrConfidence && doc.ocrConfidence < 0.7
-    )
+  private async loadOrder(orderId: string): Promise<AssessedOrder> {
+    const order = await prisma.p2POrder.findUnique({
+      where: { id: orderId },
+      include: ASSESSMENT_INCLUDE
+    })
 
-    if (lowConfidenceDocs.length > 0) {
-      factors.push({
-        type: 'LOW_DOCUMENT_QUALITY',
-        severity: 'MEDIUM',
-        score: 0.4,
-        description: 'Some documents have low OCR confidence',
-        details: { 
-          lowConfidenceCount: lowConfidenceDocs.length,
-          totalDocuments: order.documents.length 
-        }
-      })
+    if (!order) {
+      throw new RiskAssessmentError('Order not found', 404)
     }
 
-    // Check for document processing failures
-    const failedDocs = order.documents.filter((doc: any) => doc.status === 'FAILED')
-    if (failedDocs.length > 0) {
-      factors.push({
-        type: 'DOCUMENT_PROCESSING_FAILED',
-        severity: 'HIGH',
-        score: 0.7,
-        description: 'Some documents failed to process',
-        details: { failedCount: failedDocs.length }
-      })
-    }
+    return order
   }
 
   /**
-   * Assess communication pattern risks
+   * Evaluate the policy against a set of facts and explain the outcome
    */
-  private async assessCommunicationRisk(order: any, factors: RiskFactor[]): Promise<void> {
-    if (order.chatMessages.length === 0) {
-      factors.push({
-        type: 'NO_COMMUNICATION',
-        severity: 'MEDIUM',
-        score: 0.3,
-        description: 'No communication from counterparty',
-        details: { messageCount: 0 }
-      })
-      return
-    }
+  private scoreFacts(
+    orderId: string,
+    facts: RiskFacts,
+    policy: RiskPolicy,
+    policyVersion: number,
+    context: FactContext = {}
+  ): RiskAssessmentResult {
+    const matches = riskRulesEngine.evaluate(policy, facts, context.evidence, context.details)
+    const factors: RiskFactor[] = matches.map(({ rule, details, evidenceOrderIds }) => ({
+      type: rule.id,
+      severity: rule.severity,
+      score: rule.score,
+      description: rule.description,
+      details,
+      ...(evidenceOrderIds.length > 0 && { evidence: { orderIds: evidenceOrderIds } })
+    }))
 
-    // Check for suspicious communication patterns
-    const userMessages = order.chatMessages.filter((msg: any) => msg.isFromUser)
-    const suspiciousKeywords = ['urgent', 'hurry', 'quick', 'fast', 'emergency', 'problem']
-    
-    const suspiciousMessages = userMessages.filter((msg: any) =>
-      suspiciousKeywords.some(keyword => 
-        msg.content.toLowerCase().includes(keyword)
-      )
-    )
-
-    if (suspiciousMessages.length > 0) {
-      factors.push({
-        type: 'SUSPICIOUS_COMMUNICATION',
-        severity: 'MEDIUM',
-        score: 0.4,
-        description: 'Communication contains urgency indicators',
-        details: { 
-          suspiciousCount: suspiciousMessages.length,
-          totalMessages: userMessages.length 
-        }
-      })
-    }
+    // Calculate overall risk score
+    const overallScore = riskRulesEngine.score(factors, policy)
+    const riskLevel = this.determineRiskLevel(overallScore, policy)
+    const decision = this.explainDecision(overallScore, riskLevel, factors, policy)
+    const recommendation = this.determineRecommendation(decision)
 
-    // Check message frequency
-    if (userMessages.length > 20) {
-      factors.push({
-        type: 'EXCESSIVE_MESSAGING',
-        severity: 'LOW',
-        score: 0.2,
-        description: 'Unusually high number of messages',
-        details: { messageCount: userMessages.length }
-      })
+    return {
+      orderId,
+      overallScore,
+      riskLevel,
+      recommendation,
+      factors,
+      decision,
+      autoApproved: recommendation === 'AUTO_APPROVE',
+      reviewRequired: recommendation === 'MANUAL_REVIEW',
+      notes: this.generateRiskNotes(factors),
+      policyVersion,
+      policyHash: riskRulesEngine.hash(policy)
     }
   }
 
   /**
-   * Assess KYC-related risks
+   * Apply a what-if scenario to gathered facts
    */
-  private async assessKYCRisk(order: any, factors: RiskFactor[]): Promise<void> {
-    if (!order.kycVerification) {
-      factors.push({
-        type: 'NO_KYC_VERIFICATION',
-        severity: 'HIGH',
-        score: 0.9,
-        description: 'KYC verification not completed',
-        details: { kycStatus: 'NOT_STARTED' }
-      })
-      return
+  private applyScenario(facts: RiskFacts, scenario: RiskScenario): RiskFacts {
+    const next: RiskFacts = { ...facts }
+
+    if (scenario.kycStatus !== undefined) {
+      next.kycStatus = scenario.kycStatus
+      // A fresh KYC outcome without an explicit score is assumed clean
+      if (scenario.kycScore === undefined) next.kycScore = scenario.kycStatus === 'NONE' ? null : 1
+    }
+    if (scenario.kycScore !== undefined) next.kycScore = scenario.kycScore
+    if (scenario.documentsAdded) next.documentCount = (next.documentCount ?? 0) + scenario.documentsAdded
+    if (scenario.failedDocumentsResolved) next.failedDocumentCount = 0
+    if (scenario.messagesAdded) {
+      next.messageCount = (next.messageCount ?? 0) + scenario.messagesAdded
+      next.userMessageCount = (next.userMessageCount ?? 0) + scenario.messagesAdded
+    }
+    if (scenario.paymentMethod) next.paymentMethod = scenario.paymentMethod
+    if (scenario.amount !== undefined) {
+      next.amount = scenario.amount
+      next.normalizedAmount = next.fxRate !== null ? scenario.amount * next.fxRate : null
+      next.amountDeviation = this.amountDeviation(next)
     }
 
-    const kyc = order.kycVerification
-    
-    if (kyc.status === 'REJECTED') {
-      factors.push({
-        type: 'KYC_REJECTED',
-        severity: 'CRITICAL',
-        score: 1.0,
-        description: 'KYC verification was rejected',
-        details: { kycStatus: kyc.status }
-      })
-    } else if (kyc.status === 'REQUIRES_REVIEW') {
-      factors.push({
-        type: 'KYC_REQUIRES_REVIEW',
-        severity: 'HIGH',
-        score: 0.7,
-        description: 'KYC verification requires manual review',
-        details: { kycStatus: kyc.status }
-      })
-    } else if (kyc.riskScore && kyc.riskScore < 0.6) {
-      factors.push({
-        type: 'LOW_KYC_SCORE',
-        severity: 'MEDIUM',
-        score: 0.5,
-        description: 'KYC verification score is below threshold',
-        details: { kycScore: kyc.riskScore, threshold: 0.6 }
-      })
+    for (const [fact, value] of Object.entries(scenario.facts ?? {})) {
+      if (fact in next) (next as Record<string, string | number | null>)[fact] = value
     }
+
+    return next
   }
 
   /**
-   * Assess behavioral risk patterns
+   * Collect the facts rule conditions are evaluated against
    */
-  private async assessBehavioralRisk(order: any, factors: RiskFactor[]): Promise<void> {
-    // Check order timing patterns
-    const orderHour = new Date(order.createdAt).getHours()
-    if (orderHour < 6 || orderHour > 22) {
-      factors.push({
-        type: 'UNUSUAL_TIMING',
-        severity: 'LOW',
-        score: 0.1,
-        description: 'Order created during unusual hours',
-        details: { orderHour, timeZone: 'UTC' }
-      })
+  private async gatherFacts(order: AssessedOrder, policy: RiskPolicy, asOf?: Date): Promise<GatheredFacts> {
+    const { parameters } = policy
+    const amount = order.amount.toNumber()
+    const now = asOf ?? new Date()
+    const fx = await fxRateService.getConverter()
+    const conversion = fx.convert(amount, order.currency, order.createdAt)
+
+    // Amount history over the longer window, raw in the order's currency and
+    // normalised across every currency with a rate
+    const historyOrders = await this.getRecentOrdersByCounterparty(order.counterpartyId, parameters.historyWindowHours, now)
+    const averageAmount = this.average(historyOrders
+      .filter(o => o.currency === order.currency)
+      .map(o => o.amount.toNumber()))
+    const averageNormalizedAmount = this.average(historyOrders
+      .map(o => fx.convert(o.amount.toNumber(), o.currency, o.createdAt)?.amount)
+      .filter((value): value is number => value !== undefined))
+
+    // Aggregated history is maintained on the counterparty profile; past
+    // points in time are rebuilt from the order history instead
+    const profile = asOf
+      ? await counterpartyService.getHistoryAsOf(order.counterpartyId, asOf)
+      : await counterpartyService.getOrRefreshProfile(order.counterpartyId)
+    const recentOrders = await this.getRecentOrdersByCounterparty(order.counterpartyId, parameters.recentOrderWindowHours, now)
+
+    const userMessages = order.chatMessages.filter(msg => msg.isFromUser)
+    const chatFindings = chatAnalysisService.analyze(
+      order.chatMessages,
+      await chatAnalysisService.getLibrary(),
+      parameters.urgencyKeywords
+    )
+
+    const velocity = await velocityService.analyze(order, parameters.velocity, fx)
+    // The identifier index and flags are current state, so links are left
+    // out of point-in-time replays rather than leaking later outcomes
+    const links = asOf ? null : await linkAnalysisService.findFlaggedLinks(order.counterpartyId, parameters.linkAnalysis)
+
+    const facts: RiskFacts = {
+      amount,
+      currency: order.currency,
+      paymentMethod: order.paymentMethod,
+      orderType: order.orderType,
+      orderHour: order.createdAt.getUTCHours(),
+      averageAmount,
+      amountDeviation: null,
+      normalizedAmount: conversion?.amount ?? null,
+      baseCurrency: fx.baseCurrency,
+      fxRate: conversion?.rate ?? null,
+      averageNormalizedAmount,
+      counterpartyId: order.counterpartyId,
+      counterpartyPriorOrders: profile ? profile.totalOrders - 1 : 0,
+      counterpartyTotalOrders: profile?.totalOrders ?? null,
+      counterpartyCompletionRate: profile?.completionRate ?? null,
+      counterpartyDisputeCount: profile?.disputeCount ?? null,
+      counterpartyDisputesLost: profile?.disputesLost ?? null,
+      counterpartyLastDisputeAt: profile?.lastDisputeAt?.toISOString() ?? null,
+      daysSinceLastDispute: profile?.lastDisputeAt
+        ? (now.getTime() - profile.lastDisputeAt.getTime()) / (24 * 60 * 60 * 1000)
+        : null,
+      documentCount: order.documents.length,
+      lowConfidenceDocumentCount: order.documents.filter(doc =>
+        doc.ocrConfidence && doc.ocrConfidence < parameters.lowOcrConfidence
+      ).length,
+      failedDocumentCount: order.documents.filter(doc => doc.status === 'FAILED').length,
+      messageCount: order.chatMessages.length,
+      userMessageCount: userMessages.length,
+      urgentMessageCount: chatAnalysisService.countMessages(chatFindings, 'URGENCY'),
+      offPlatformMessageCount: chatAnalysisService.countMessages(chatFindings, 'OFF_PLATFORM'),
+      thirdPartyPaymentMessageCount: chatAnalysisService.countMessages(chatFindings, 'THIRD_PARTY_PAYMENT'),
+      releasePressureMessageCount: chatAnalysisService.countMessages(chatFindings, 'RELEASE_PRESSURE'),
+      refundScamMessageCount: chatAnalysisService.countMessages(chatFindings, 'REFUND_SCAM'),
+      kycStatus: order.kycVerification?.status ?? 'NONE',
+      kycScore: order.kycVerification?.riskScore ?? null,
+      recentOrderCount: recentOrders.length,
+      paymentAccount: order.paymentAccount,
+      counterpartyOrders1h: velocity.counterparty['1h'].count,
+      counterpartyOrders24h: velocity.counterparty['24h'].count,
+      counterpartyOrders7d: velocity.counterparty['7d'].count,
+      counterpartyVolume1h: velocity.counterparty['1h'].volume,
+      counterpartyVolume24h: velocity.counterparty['24h'].volume,
+      counterpartyVolume7d: velocity.counterparty['7d'].volume,
+      paymentAccountOrders1h: velocity.paymentAccount?.['1h'].count ?? null,
+      paymentAccountOrders24h: velocity.paymentAccount?.['24h'].count ?? null,
+      paymentAccountOrders7d: velocity.paymentAccount?.['7d'].count ?? null,
+      paymentAccountVolume1h: velocity.paymentAccount?.['1h'].volume ?? null,
+      paymentAccountVolume24h: velocity.paymentAccount?.['24h'].volume ?? null,
+      paymentAccountVolume7d: velocity.paymentAccount?.['7d'].volume ?? null,
+      paymentAccountCounterparties: velocity.sharedAccount?.counterpartyIds.length ?? null,
+      structuringOrderCount: velocity.structuring.count,
+      structuringVolume: velocity.structuring.volume,
+      structuringThreshold: velocity.structuring.threshold,
+      volumeCurrency: velocity.volumeCurrency,
+      linkedCounterpartyCount: links?.linkedCount ?? null,
+      linkedFlaggedCount: links?.flagged.length ?? null,
+      linkedFlaggedDepth: links?.nearestFlaggedDepth ?? null
     }
 
-    // Check for rapid successive orders
-    const recentOrders = await this.getRecentOrdersByCounterparty(order.counterpartyId, 24)
-    if (recentOrders.length > 3) {
-      factors.push({
-        type: 'RAPID_ORDERS',
-        severity: 'MEDIUM',
-        score: 0.4,
-        description: 'Multiple orders in short time period',
-        details: { orderCount: recentOrders.length, period: '24 hours' }
-      })
+    facts.amountDeviation = this.amountDeviation(facts)
+
+    const evidence: RiskFactEvidence = {
+      recentOrderCount: recentOrders.map(o => o.id),
+      counterpartyOrders1h: velocity.counterparty['1h'].orderIds,
+      counterpartyOrders24h: velocity.counterparty['24h'].orderIds,
+      counterpartyOrders7d: velocity.counterparty['7d'].orderIds,
+      counterpartyVolume1h: velocity.counterparty['1h'].orderIds,
+      counterpartyVolume24h: velocity.counterparty['24h'].orderIds,
+      counterpartyVolume7d: velocity.counterparty['7d'].orderIds,
+      paymentAccountOrders1h: velocity.paymentAccount?.['1h'].orderIds,
+      paymentAccountOrders24h: velocity.paymentAccount?.['24h'].orderIds,
+      paymentAccountOrders7d: velocity.paymentAccount?.['7d'].orderIds,
+      paymentAccountVolume1h: velocity.paymentAccount?.['1h'].orderIds,
+      paymentAccountVolume24h: velocity.paymentAccount?.['24h'].orderIds,
+      paymentAccountVolume7d: velocity.paymentAccount?.['7d'].orderIds,
+      paymentAccountCounterparties: velocity.sharedAccount?.orderIds,
+      structuringOrderCount: velocity.structuring.orderIds,
+      structuringVolume: velocity.structuring.orderIds,
+      linkedFlaggedCount: links?.flagged.flatMap(node => node.flaggedOrderIds)
     }
+
+    return { facts, evidence, details: this.chatFindingDetails(chatFindings) }
   }
 
   /**
-   * Calculate overall risk score from individual factors
+   * Relative deviation from the counterparty's average amount, in the base
+   * currency when the order converts, else against same-currency history
    */
-  private calculateOverallScore(factors: RiskFactor[]): number {
-    if (factors.length === 0) return 0
+  private amountDeviation(facts: RiskFacts): number | null {
+    const [amount, average] = facts.normalizedAmount !== null
+      ? [facts.normalizedAmount, facts.averageNormalizedAmount]
+      : [facts.amount, facts.averageAmount]
 
-    // Weight factors by severity
-    const weights = { LOW: 0.1, MEDIUM: 0.3, HIGH: 0.6, CRITICAL: 1.0 }
-    
-    let totalWeightedScore = 0
-    let totalWeight = 0
+    return amount !== null && average ? Math.abs(amount - average) / average : null
+  }
 
-    factors.forEach(factor => {
-      const weight = weights[factor.severity]
-      totalWeightedScore += factor.score * weight
-      totalWeight += weight
-    })
+  private average(values: number[]): number | null {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+  }
+
+  /**
+   * Matched phrases per chat fact, reported in the factor details
+   */
+  private chatFindingDetails(findings: ChatFinding[]): RiskFactDetails {
+    const details: RiskFactDetails = {}
+
+    for (const finding of findings) {
+      const fact = CHAT_CATEGORY_FACTS[finding.category]
+      const entry = details[fact] ?? { matchedPhrases: [] }
+      entry.matchedPhrases.push({
+        messageId: finding.messageId,
+        patternId: finding.patternId,
+        phrase: finding.phrase,
+        matchedText: finding.matchedText
+      })
+      details[fact] = entry
+    }
 
-    return totalWeight > 0 ? totalWeightedScore / totalWeight : 0
+    return details
   }
 
   /**
    * Determine risk level based on score
    */
-  private determineRiskLevel(score: number): 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL' {
-    if (score >= this.RISK_THRESHOLDS.CRITICAL) return 'CRITICAL'
-    if (score >= this.RISK_THRESHOLDS.HIGH) return 'HIGH'
-    if (score >= this.RISK_THRESHOLDS.MEDIUM) return 'MEDIUM'
+  private determineRiskLevel(score: number, policy: RiskPolicy): RiskLevel {
+    const levels = policy.thresholds.riskLevels
+    if (score >= levels.CRITICAL) return 'CRITICAL'
+    if (score >= levels.HIGH) return 'HIGH'
+    if (score >= levels.MEDIUM) return 'MEDIUM'
     return 'LOW'
   }
 
   /**
-   * Determine recommendation based on score and factors
+   * Work out which rule decides the recommendation and how far the score
+   * sits from the thresholds
    */
-  private determineRecommendation(
-    score: number, 
-    factors: RiskFactor[]
-  ): 'AUTO_APPROVE' | 'MANUAL_REVIEW' | 'REJECT' {
+  private explainDecision(
+    score: number,
+    riskLevel: RiskLevel,
+    factors: RiskFactor[],
+    policy: RiskPolicy
+  ): RiskDecision {
+    const { autoApprove, manualReview, riskLevels } = policy.thresholds
+
     // Check for critical factors that require immediate rejection
     const criticalFactors = factors.filter(f => f.severity === 'CRITICAL')
-    if (criticalFactors.length > 0) {
-      return 'REJECT'
-    }
-
     // Check for factors that require manual review
     const highRiskFactors = factors.filter(f => f.severity === 'HIGH')
-    if (highRiskFactors.length > 0 || score >= this.MANUAL_REVIEW_THRESHOLD) {
-      return 'MANUAL_REVIEW'
+
+    let reason: RiskDecision['reason']
+    if (criticalFactors.length > 0) {
+      reason = 'CRITICAL_FACTOR'
+    } else if (highRiskFactors.length > 0) {
+      reason = 'HIGH_SEVERITY_FACTOR'
+    } else if (score >= manualReview) {
+      reason = 'ABOVE_MANUAL_REVIEW_THRESHOLD'
+    } else if (score <= autoApprove) {
+      reason = 'WITHIN_AUTO_APPROVE_THRESHOLD'
+    } else {
+      reason = 'BETWEEN_THRESHOLDS'
     }
 
-    // Auto-approve low-risk orders
-    if (score <= this.AUTO_APPROVE_THRESHOLD) {
-      return 'AUTO_APPROVE'
+    const levelOrder: RiskLevel[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']
+    const next = levelOrder[levelOrder.indexOf(riskLevel) + 1] as Exclude<RiskLevel, 'LOW'> | undefined
+
+    return {
+      scoringMethod: policy.scoringMethod,
+      reason,
+      blockingFactors: (criticalFactors.length > 0 ? criticalFactors : highRiskFactors).map(f => f.type),
+      thresholds: { autoApprove, manualReview },
+      distanceToAutoApprove: Math.max(0, score - autoApprove),
+      distanceToManualReview: Math.max(0, manualReview - score),
+      nextRiskLevel: next ? { level: next, distance: riskLevels[next] - score } : null
     }
+  }
 
-    // Default to manual review for medium risk
-    return 'MANUAL_REVIEW'
+  /**
+   * Determine recommendation based on the deciding rule
+   */
+  private determineRecommendation(decision: RiskDecision): Recommendation {
+    switch (decision.reason) {
+      case 'CRITICAL_FACTOR':
+        return 'REJECT'
+      case 'WITHIN_AUTO_APPROVE_THRESHOLD':
+        return 'AUTO_APPROVE'
+      default:
+        // High-severity factors, high scores and the medium band all need a human
+        return 'MANUAL_REVIEW'
+    }
   }
 
   /**
@@ -456,52 +651,75 @@ export class RiskService {
   }
 
   /**
-   * Store risk assessment in database
+   * Store risk assessment in database: the current assessment is replaced,
+   * and an immutable snapshot of this run is appended to the history
    */
-  private async storeAssessment(result: RiskAssessmentResult): Promise<void> {
-    await prisma.riskAssessment.upsert({
-      where: { orderId: result.orderId },
-      update: {
-        overallScore: result.overallScore,
-        riskFactors: result.factors,
-        recommendation: result.riskLevel,
-        autoApproved: result.autoApproved,
-        reviewRequired: result.reviewRequired,
-        notes: result.notes,
-        updatedAt: new Date()
-      },
-      create: {
-        orderId: result.orderId,
-        overallScore: result.overallScore,
-        riskFactors: result.factors,
-        recommendation: result.riskLevel,
-        autoApproved: result.autoApproved,
-        reviewRequired: result.reviewRequired,
-        notes: result.notes
-      }
+  private async storeAssessment(result: RiskAssessmentResult, trigger: AssessmentTriggerInfo): Promise<string> {
+    const riskFactors = result.factors as unknown as Prisma.InputJsonValue
+
+    return await prisma.$transaction(async (tx) => {
+      await tx.riskAssessment.upsert({
+        where: { orderId: result.orderId },
+        update: {
+          overallScore: result.overallScore,
+          riskFactors,
+          recommendation: result.riskLevel,
+          autoApproved: result.autoApproved,
+          reviewRequired: result.reviewRequired,
+          notes: result.notes,
+          policyVersion: result.policyVersion,
+          scoringMethod: result.decision.scoringMethod,
+          policyHash: result.policyHash,
+          updatedAt: new Date()
+        },
+        create: {
+          orderId: result.orderId,
+          overallScore: result.overallScore,
+          riskFactors,
+          recommendation: result.riskLevel,
+          autoApproved: result.autoApproved,
+          reviewRequired: result.reviewRequired,
+          notes: result.notes,
+          policyVersion: result.policyVersion,
+          scoringMethod: result.decision.scoringMethod,
+          policyHash: result.policyHash
+        }
+      })
+
+      const snapshot = await tx.riskAssessmentSnapshot.create({
+        data: {
+          orderId: result.orderId,
+          overallScore: result.overallScore,
+          riskLevel: result.riskLevel,
+          recommendation: result.recommendation,
+          riskFactors,
+          decision: result.decision as unknown as Prisma.InputJsonValue,
+          notes: result.notes,
+          policyVersion: result.policyVersion,
+          scoringMethod: result.decision.scoringMethod,
+          policyHash: result.policyHash,
+          triggerType: trigger.type,
+          triggerRef: trigger.ref,
+          triggeredBy: trigger.operatorId
+        }
+      })
+
+      return snapshot.id
     })
   }
 
   // Helper methods for data retrieval
-  private async getRecentOrdersByCounterparty(counterpartyId: string, hours: number = 720): Promise<any[]> {
-    const since = new Date(Date.now() - hours * 60 * 60 * 1000)
+  private async getRecentOrdersByCounterparty(counterpartyId: string, hours: number = 720, until: Date = new Date()): Promise<any[]> {
+    const since = new Date(until.getTime() - hours * 60 * 60 * 1000)
     
     return await prisma.p2POrder.findMany({
       where: {
         counterpartyId,
-        createdAt: { gte: since }
+        createdAt: { gte: since, lte: until }
       },
       orderBy: { createdAt: 'desc' }
     })
   }
-
-  private async getCounterpartyOrderHistory(counterpartyId: string): Promise<any[]> {
-    return await prisma.p2POrder.findMany({
-      where: { counterpartyId },
-      orderBy: { createdAt: 'desc' },
-      take: 50 // Limit to recent 50 orders
-    })
-  }
 }
 
 export const riskService = new RiskService()
\ No newline at end of file
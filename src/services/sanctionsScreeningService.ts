@@ -0,0 +1,514 @@
+/**
+ * Sanctions Screening Service
+ *
+ * Imports the official OFAC, UN and EU sanctions list files from local disk
+ * (data/sanctions) into a searchable index, and screens names, dates of
+ * birth and nationalities against it with fuzzy matching. Hits at or above
+ * the review threshold are queued for an operator decision rather than
+ * rejecting KYC outright; entries an operator has cleared for a
+ * counterparty are not raised for it again.
+ */
+
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { Prisma, SanctionsSource, ScreeningReviewStatus } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { sameCountry } from '@/lib/countries'
+import { nameKeys, nameSimilarity, normalizeName } from '@/lib/nameMatching'
+import {
+  ParsedSanctionsEntry,
+  parseEuXml,
+  parseOfacCsv,
+  parseOfacXml,
+  parseUnXml
+} from '@/lib/sanctionsLists'
+import { alertService } from './alertService'
+import { auditService } from './auditService'
+import { KYC_CONFIRMATION_ALERT } from './kycReviewService'
+import { riskReassessmentService } from './riskReassessmentService'
+import { systemConfigService } from './systemConfigService'
+
+export const SANCTIONS_DIR = path.join(process.cwd(), 'data', 'sanctions')
+
+export interface ScreeningConfig {
+  // Hits scoring at or above this are queued for review
+  reviewThreshold: number
+  // Weaker hits down to this score are still reported
+  reportThreshold: number
+  maxHits: number
+  // Entries sharing a name key that are scored per screening, those
+  // sharing the most keys first
+  candidateLimit: number
+}
+
+const CONFIG_KEY = 'sanctions_screening'
+
+export const DEFAULT_SCREENING_CONFIG: ScreeningConfig = {
+  reviewThreshold: 0.88,
+  reportThreshold: 0.75,
+  maxHits: 10,
+  candidateLimit: 2000
+}
+
+export const SANCTIONS_REVIEW_ALERT = 'SANCTIONS_REVIEW_REQUIRED'
+
+export const sanctionsImportSchema = z.object({
+  source: z.nativeEnum(SanctionsSource),
+  // File name within data/sanctions
+  fileName: z.string().min(1),
+  importedBy: z.string().min(1)
+})
+
+export const screeningRequestSchema = z.object({
+  fullName: z.string().trim().min(1),
+  dateOfBirth: z.coerce.date().optional(),
+  nationality: z.string().trim().min(1).optional()
+})
+
+export type ScreeningRequest = z.infer<typeof screeningRequestSchema>
+
+export const reviewDecisionSchema = z.object({
+  decision: z.enum([ScreeningReviewStatus.CONFIRMED_MATCH, ScreeningReviewStatus.FALSE_POSITIVE]),
+  decidedBy: z.string().min(1),
+  notes: z.string().optional()
+})
+
+const reviewQuerySchema = z.object({
+  status: z.nativeEnum(ScreeningReviewStatus).optional(),
+  orderId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+})
+
+export class SanctionsScreeningError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message)
+    this.name = 'SanctionsScreeningError'
+  }
+}
+
+export type AttributeMatch = 'MATCH' | 'PARTIAL' | 'MISMATCH'
+
+export interface ScreeningHit {
+  source: SanctionsSource
+  entryId: string
+  entryType: string
+  primaryName: string
+  // The primary name or alias that scored best
+  matchedName: string
+  score: number
+  nameScore: number
+  dateOfBirthMatch: AttributeMatch | null
+  nationalityMatch: AttributeMatch | null
+  programs: string[]
+}
+
+export interface ScreeningResult {
+  screenedName: string
+  hits: ScreeningHit[]
+  reviewThreshold: number
+  // Latest import per list
+  lists: Array<{ source: SanctionsSource; entryCount: number; importedAt: Date }>
+  // False until a list is imported: no hits then means not screened, not clear
+  screened: boolean
+  // Entries sharing a name key, and whether more than the candidate limit did
+  // so that the ones sharing fewest keys were not scored
+  candidateCount: number
+  candidatesTruncated: boolean
+}
+
+// Score adjustments from date of birth and nationality
+const DOB_EXACT_BONUS = 0.05
+const DOB_YEAR_BONUS = 0.02
+const DOB_MISMATCH_PENALTY = 0.15
+const NATIONALITY_BONUS = 0.03
+const NATIONALITY_MISMATCH_PENALTY = 0.05
+
+const IMPORT_BATCH_SIZE = 1000
+
+export class SanctionsScreeningService {
+  parseReviewQuery(searchParams: URLSearchParams) {
+    return reviewQuerySchema.safeParse(Object.fromEntries(searchParams.entries()))
+  }
+
+  async getConfig(): Promise<ScreeningConfig> {
+    return await systemConfigService.get(CONFIG_KEY, DEFAULT_SCREENING_CONFIG)
+  }
+
+  /**
+   * Replace a list's entries with the contents of a file in data/sanctions.
+   * OFAC lists may be sdn.xml or sdn.csv (with alt.csv beside it for aliases);
+   * UN and EU lists are XML.
+   */
+  async importList(
+    input: z.infer<typeof sanctionsImportSchema>,
+    options: { ipAddress?: string | null; userAgent?: string | null } = {}
+  ) {
+    const filePath = path.resolve(SANCTIONS_DIR, input.fileName)
+    if (path.dirname(filePath) !== SANCTIONS_DIR) {
+      throw new SanctionsScreeningError('fileName must name a file directly inside data/sanctions')
+    }
+
+    const format = path.extname(filePath).toLowerCase() === '.csv' ? 'CSV' : 'XML'
+    if (format === 'CSV' && input.source !== SanctionsSource.OFAC) {
+      throw new SanctionsScreeningError(`${input.source} lists are imported from their XML edition`)
+    }
+
+    let contents: Buffer
+    try {
+      contents = await fs.readFile(filePath)
+    } catch {
+      throw new SanctionsScreeningError(`File ${input.fileName} was not found in data/sanctions`, 404)
+    }
+
+    const parsed = await this.parseFile(input.source, format, contents.toString('utf8'), filePath)
+    if (parsed.length === 0) {
+      throw new SanctionsScreeningError(`No ${input.source} entries found in ${input.fileName}; check the source and file`)
+    }
+
+    // Lists occasionally repeat an entry; keep the last occurrence
+    const entries = Array.from(new Map(parsed.map(entry => [entry.entryId, entry])).values())
+    const fileHash = createHash('sha256').update(contents).digest('hex')
+
+    const listImport = await prisma.$transaction(async (tx) => {
+      const created = await tx.sanctionsImport.create({
+        data: {
+          source: input.source,
+          fileName: input.fileName,
+          format,
+          fileHash,
+          entryCount: entries.length,
+          importedBy: input.importedBy
+        }
+      })
+
+      await tx.sanctionsEntry.deleteMany({ where: { source: input.source } })
+
+      for (let i = 0; i < entries.length; i += IMPORT_BATCH_SIZE) {
+        await tx.sanctionsEntry.createMany({
+          data: entries.slice(i, i + IMPORT_BATCH_SIZE).map(entry => ({
+            ...entry,
+            source: input.source,
+            nameKeys: this.entryKeys(entry),
+            importId: created.id
+          }))
+        })
+      }
+
+      await auditService.log({
+        action: 'SANCTIONS_LIST_IMPORTED',
+        operatorId: input.importedBy,
+        details: { importId: created.id, source: input.source, fileName: input.fileName, fileHash, entryCount: entries.length },
+        ipAddress: options.ipAddress,
+        userAgent: options.userAgent
+      }, tx)
+
+      return created
+    }, { timeout: 120000 })
+
+    return listImport
+  }
+
+  async listImports(limit: number = 50) {
+    return await prisma.sanctionsImport.findMany({
+      orderBy: { importedAt: 'desc' },
+      take: limit
+    })
+  }
+
+  /**
+   * Score list entries against a name, date of birth and nationality
+   */
+  async screen(input: ScreeningRequest): Promise<ScreeningResult> {
+    const config = await this.getConfig()
+    const keys = nameKeys(input.fullName)
+
+    const [ranked, lists] = await Promise.all([this.rankCandidates(keys), this.latestImports()])
+    const candidates = ranked.length > 0
+      ? await prisma.sanctionsEntry.findMany({ where: { id: { in: ranked.slice(0, config.candidateLimit) } } })
+      : []
+
+    const hits = candidates
+      .map(entry => this.scoreEntry(entry, input))
+      .filter(hit => hit.score >= config.reportThreshold)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, config.maxHits)
+
+    return {
+      screenedName: normalizeName(input.fullName),
+      hits,
+      reviewThreshold: config.reviewThreshold,
+      lists,
+      screened: lists.length > 0,
+      candidateCount: ranked.length,
+      candidatesTruncated: ranked.length > config.candidateLimit
+    }
+  }
+
+  /**
+   * IDs of entries sharing any of the name keys, most shared keys first, so
+   * a common key ("MHMD") cannot crowd out the entry matching the whole name
+   */
+  private async rankCandidates(keys: string[]): Promise<string[]> {
+    const perKey = await Promise.all(keys.map(key =>
+      prisma.sanctionsEntry.findMany({ where: { nameKeys: { has: key } }, select: { id: true } })
+    ))
+
+    const shared = new Map<string, number>()
+    for (const entries of perKey) {
+      for (const { id } of entries) shared.set(id, (shared.get(id) ?? 0) + 1)
+    }
+
+    return Array.from(shared.entries())
+      .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0))
+      .map(([id]) => id)
+  }
+
+  /**
+   * Screen for an order's KYC. Hits at or above the review threshold, less
+   * entries already cleared for the counterparty, open a review and an alert.
+   * A re-run updates the order's pending review instead of opening another.
+   */
+  async screenForReview(input: ScreeningRequest & { orderId?: string }) {
+    const result = await this.screen(input)
+
+    const order = input.orderId
+      ? await prisma.p2POrder.findUnique({ where: { id: input.orderId }, select: { id: true, counterpartyId: true } })
+      : null
+    const cleared = order ? await this.clearedEntries(order.counterpartyId) : new Set<string>()
+
+    const reviewHits = result.hits.filter(hit =>
+      hit.score >= result.reviewThreshold && !cleared.has(this.hitKey(hit))
+    )
+    if (reviewHits.length === 0) return { result, review: null }
+
+    const data = {
+      screenedName: result.screenedName,
+      dateOfBirth: input.dateOfBirth ? input.dateOfBirth.toISOString().slice(0, 10) : null,
+      nationality: input.nationality ?? null,
+      hits: reviewHits as unknown as Prisma.InputJsonValue,
+      topScore: reviewHits[0].score
+    }
+
+    const pending = order
+      ? await prisma.sanctionsScreeningReview.findFirst({
+          where: { orderId: order.id, status: ScreeningReviewStatus.PENDING },
+          orderBy: { createdAt: 'desc' }
+        })
+      : null
+    if (pending) {
+      // Already queued and alerted; the operator sees the latest hits
+      const review = await prisma.sanctionsScreeningReview.update({ where: { id: pending.id }, data })
+      return { result, review }
+    }
+
+    const review = await prisma.sanctionsScreeningReview.create({
+      data: { orderId: order?.id, counterpartyId: order?.counterpartyId, ...data }
+    })
+
+    await alertService.raise({
+      orderId: order?.id,
+      type: SANCTIONS_REVIEW_ALERT,
+      severity: 'HIGH',
+      message: `Possible sanctions match for ${result.screenedName} (${reviewHits[0].source} ${reviewHits[0].entryId}, score ${reviewHits[0].score})`,
+      details: { reviewId: review.id, hitCount: reviewHits.length, topScore: review.topScore }
+    })
+
+    return { result, review }
+  }
+
+  async listReviews(filters: z.infer<typeof reviewQuerySchema>) {
+    const where: Prisma.SanctionsScreeningReviewWhereInput = {
+      ...(filters.status && { status: filters.status }),
+      ...(filters.orderId && { orderId: filters.orderId })
+    }
+
+    const [reviews, totalCount] = await Promise.all([
+      prisma.sanctionsScreeningReview.findMany({
+        where,
+        include: { order: { select: { id: true, binanceOrderId: true, counterpartyName: true, status: true } } },
+        orderBy: { createdAt: 'desc' },
+        take: filters.limit
+      }),
+      prisma.sanctionsScreeningReview.count({ where })
+    ])
+
+    return { reviews, totalCount }
+  }
+
+  /**
+   * Record an operator's decision. A confirmed match proposes rejecting the
+   * order's KYC for supervisor confirmation; a false positive clears the
+   * entries for the counterparty.
+   */
+  async decide(
+    reviewId: string,
+    input: z.infer<typeof reviewDecisionSchema>,
+    options: { ipAddress?: string | null; userAgent?: string | null } = {}
+  ) {
+    const review = await prisma.$transaction(async (tx) => {
+      const existing = await tx.sanctionsScreeningReview.findUnique({ where: { id: reviewId } })
+      if (!existing) throw new SanctionsScreeningError('Screening review not found', 404)
+      if (existing.status !== ScreeningReviewStatus.PENDING) {
+        throw new SanctionsScreeningError(`Screening review is already ${existing.status}`, 409)
+      }
+
+      const decided = await tx.sanctionsScreeningReview.update({
+        where: { id: reviewId },
+        data: { status: input.decision, decidedBy: input.decidedBy, decidedAt: new Date(), notes: input.notes }
+      })
+
+      // A confirmed match proposes rejecting the order's KYC; like any manual
+      // decision it is final only once a different supervisor confirms it
+      if (input.decision === ScreeningReviewStatus.CONFIRMED_MATCH && existing.orderId) {
+        const proposed = await tx.kycVerification.updateMany({
+          where: { orderId: existing.orderId, verifiedBy: null },
+          data: {
+            status: 'REQUIRES_REVIEW',
+            proposedStatus: 'REJECTED',
+            proposedBy: input.decidedBy,
+            proposedAt: new Date(),
+            notes: `Confirmed sanctions match (screening review ${reviewId})`
+          }
+        })
+
+        if (proposed.count > 0) {
+          await alertService.raise({
+            orderId: existing.orderId,
+            type: KYC_CONFIRMATION_ALERT,
+            severity: 'HIGH',
+            message: 'KYC rejection for a confirmed sanctions match awaits supervisor confirmation',
+            details: { reviewId, decision: 'REJECTED', proposedBy: input.decidedBy }
+          }, tx)
+        }
+      }
+
+      await auditService.log({
+        orderId: existing.orderId ?? undefined,
+        action: 'SANCTIONS_REVIEW_DECIDED',
+        operatorId: input.decidedBy,
+        details: { reviewId, decision: input.decision, topScore: existing.topScore, notes: input.notes ?? null },
+        ipAddress: options.ipAddress,
+        userAgent: options.userAgent
+      }, tx)
+
+      return decided
+    })
+
+    if (review.orderId && review.status === ScreeningReviewStatus.CONFIRMED_MATCH) {
+      await riskReassessmentService.schedule(review.orderId, { type: 'KYC_COMPLETED', ref: review.id })
+    }
+
+    return review
+  }
+
+  private async parseFile(source: SanctionsSource, format: string, contents: string, filePath: string) {
+    switch (source) {
+      case SanctionsSource.OFAC:
+        if (format === 'XML') return parseOfacXml(contents)
+        return parseOfacCsv(contents, await this.readSibling(filePath, 'alt.csv'))
+      case SanctionsSource.UN:
+        return parseUnXml(contents)
+      case SanctionsSource.EU:
+        return parseEuXml(contents)
+    }
+  }
+
+  private async readSibling(filePath: string, name: string): Promise<string | undefined> {
+    try {
+      return await fs.readFile(path.join(path.dirname(filePath), name), 'utf8')
+    } catch {
+      return undefined
+    }
+  }
+
+  private entryKeys(entry: ParsedSanctionsEntry): string[] {
+    return Array.from(new Set([entry.primaryName, ...entry.aliases].flatMap(name => nameKeys(name))))
+  }
+
+  private scoreEntry(
+    entry: Prisma.SanctionsEntryGetPayload<object>,
+    input: ScreeningRequest
+  ): ScreeningHit {
+    let nameScore = 0
+    let matchedName = entry.primaryName
+    for (const name of [entry.primaryName, ...entry.aliases]) {
+      const similarity = nameSimilarity(input.fullName, name)
+      if (similarity > nameScore) {
+        nameScore = similarity
+        matchedName = name
+      }
+    }
+
+    const dateOfBirthMatch = this.matchDateOfBirth(input.dateOfBirth, entry.datesOfBirth)
+    const nationalityMatch = this.matchNationality(input.nationality, entry.nationalities)
+
+    let score = nameScore
+    if (dateOfBirthMatch === 'MATCH') score += DOB_EXACT_BONUS
+    if (dateOfBirthMatch === 'PARTIAL') score += DOB_YEAR_BONUS
+    if (dateOfBirthMatch === 'MISMATCH') score -= DOB_MISMATCH_PENALTY
+    if (nationalityMatch === 'MATCH') score += NATIONALITY_BONUS
+    if (nationalityMatch === 'MISMATCH') score -= NATIONALITY_MISMATCH_PENALTY
+
+    return {
+      source: entry.source,
+      entryId: entry.entryId,
+      entryType: entry.entryType,
+      primaryName: entry.primaryName,
+      matchedName,
+      score: Math.round(Math.min(1, Math.max(0, score)) * 1000) / 1000,
+      nameScore: Math.round(nameScore * 1000) / 1000,
+      dateOfBirthMatch,
+      nationalityMatch,
+      programs: entry.programs
+    }
+  }
+
+  /**
+   * Exact date, same year (lists often give only the year), or neither
+   */
+  private matchDateOfBirth(dateOfBirth: Date | undefined, listed: string[]): AttributeMatch | null {
+    if (!dateOfBirth || isNaN(dateOfBirth.getTime()) || listed.length === 0) return null
+
+    const iso = dateOfBirth.toISOString().slice(0, 10)
+    if (listed.includes(iso)) return 'MATCH'
+    if (listed.some(date => date.slice(0, 4) === iso.slice(0, 4))) return 'PARTIAL'
+    return 'MISMATCH'
+  }
+
+  private matchNationality(nationality: string | undefined, listed: string[]): AttributeMatch | null {
+    if (!nationality || listed.length === 0) return null
+
+    // MRZ codes, list country names and demonyms are compared as ISO codes;
+    // a value neither side can resolve says nothing either way
+    const matches = listed.map(country => sameCountry(nationality, country))
+    if (matches.includes(true)) return 'MATCH'
+    return matches.every(match => match === false) ? 'MISMATCH' : null
+  }
+
+  private async latestImports() {
+    return await prisma.sanctionsImport.findMany({
+      distinct: ['source'],
+      orderBy: { importedAt: 'desc' },
+      select: { source: true, entryCount: true, importedAt: true }
+    })
+  }
+
+  private async clearedEntries(counterpartyId: string): Promise<Set<string>> {
+    const reviews = await prisma.sanctionsScreeningReview.findMany({
+      where: { counterpartyId, status: ScreeningReviewStatus.FALSE_POSITIVE },
+      select: { hits: true }
+    })
+
+    return new Set(reviews.flatMap(review =>
+      (review.hits as unknown as ScreeningHit[]).map(hit => this.hitKey(hit))
+    ))
+  }
+
+  private hitKey(hit: Pick<ScreeningHit, 'source' | 'entryId'>): string {
+    return `${hit.source}:${hit.entryId}`
+  }
+}
+
+export const sanctionsScreeningService = new SanctionsScreeningService()
@@ -0,0 +1,166 @@
+/**
+ * SLA Service
+ *
+ * Tracks how long orders sit in time-boxed statuses (payment and release
+ * windows) and escalates orders approaching or past their deadline.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { OrderStatus, SlaStatus } from '@/types'
+import { alertService } from './alertService'
+import { auditService } from './auditService'
+import { systemConfigService } from './systemConfigService'
+
+export interface SlaConfig {
+  // Minutes an order may stay in each status; statuses without an entry have no SLA
+  windows: Partial<Record<OrderStatus, number>>
+  // Fraction of the window after which an order is flagged AT_RISK
+  warningRatio: number
+}
+
+export interface OrderSla {
+  status: OrderStatus
+  windowMinutes: number
+  startedAt: Date
+  deadline: Date
+  remainingSeconds: number
+  state: SlaStatus
+}
+
+export const SLA_ALERT_TYPES = ['SLA_AT_RISK', 'SLA_BREACHED']
+
+const CONFIG_KEY = 'order_sla'
+
+export const DEFAULT_SLA_CONFIG: SlaConfig = {
+  windows: {
+    PENDING: 15,
+    IN_PROGRESS: 30,
+    PAYMENT_PENDING: 15,
+    PAYMENT_CONFIRMED: 10
+  },
+  warningRatio: 0.8
+}
+
+const SLA_SEVERITY: Record<SlaStatus, number> = {
+  ON_TRACK: 0,
+  AT_RISK: 1,
+  BREACHED: 2
+}
+
+export class SlaService {
+  async getConfig(): Promise<SlaConfig> {
+    return await systemConfigService.get(CONFIG_KEY, DEFAULT_SLA_CONFIG)
+  }
+
+  /**
+   * Compute the SLA deadline and remaining time for an order, or null when its status has no SLA
+   */
+  computeSla(
+    order: { status: string; statusChangedAt: Date },
+    config: SlaConfig,
+    now: Date = new Date()
+  ): OrderSla | null {
+    const status = order.status as OrderStatus
+    const windowMinutes = config.windows[status]
+    if (!windowMinutes) return null
+
+    const startedAt = new Date(order.statusChangedAt)
+    const windowMs = windowMinutes * 60 * 1000
+    const elapsedMs = now.getTime() - startedAt.getTime()
+
+    let state: SlaStatus = 'ON_TRACK'
+    if (elapsedMs >= windowMs) {
+      state = 'BREACHED'
+    } else if (elapsedMs >= windowMs * config.warningRatio) {
+      state = 'AT_RISK'
+    }
+
+    return {
+      status,
+      windowMinutes,
+      startedAt,
+      deadline: new Date(startedAt.getTime() + windowMs),
+      remainingSeconds: Math.round((windowMs - elapsedMs) / 1000),
+      state
+    }
+  }
+
+  /**
+   * Find orders approaching or past their deadline and escalate them
+   */
+  async checkOrders(now: Date = new Date()): Promise<number> {
+    const config = await this.getConfig()
+    let escalated = 0
+
+    for (const [status, windowMinutes] of Object.entries(config.windows) as [OrderStatus, number][]) {
+      if (!windowMinutes) continue
+
+      const warnAfterMs = windowMinutes * 60 * 1000 * config.warningRatio
+      const orders = await prisma.p2POrder.findMany({
+        where: {
+          status,
+          slaStatus: { not: 'BREACHED' },
+          statusChangedAt: { lte: new Date(now.getTime() - warnAfterMs) }
+        },
+        select: { id: true, binanceOrderId: true, status: true, statusChangedAt: true, slaStatus: true, operatorId: true }
+      })
+
+      for (const order of orders) {
+        const sla = this.computeSla(order, config, now)
+        if (!sla || SLA_SEVERITY[sla.state] <= SLA_SEVERITY[order.slaStatus]) continue
+
+        if (await this.escalate(order, sla)) escalated++
+      }
+    }
+
+    return escalated
+  }
+
+  /**
+   * Flag the order, audit the escalation and raise a dashboard alert
+   */
+  private async escalate(
+    order: { id: string; binanceOrderId: string; status: string; slaStatus: SlaStatus; operatorId: string | null },
+    sla: OrderSla
+  ): Promise<boolean> {
+    return await prisma.$transaction(async (tx) => {
+      // Guard against the order moving on since it was read
+      const updated = await tx.p2POrder.updateMany({
+        where: { id: order.id, status: order.status as OrderStatus, slaStatus: order.slaStatus },
+        data: { slaStatus: sla.state, slaEscalatedAt: new Date() }
+      })
+      if (updated.count === 0) return false
+
+      const details = {
+        status: sla.status,
+        windowMinutes: sla.windowMinutes,
+        startedAt: sla.startedAt.toISOString(),
+        deadline: sla.deadline.toISOString(),
+        remainingSeconds: sla.remainingSeconds,
+        previousSlaStatus: order.slaStatus
+      }
+      const breached = sla.state === 'BREACHED'
+
+      await auditService.log({
+        action: breached ? 'SLA_BREACHED' : 'SLA_AT_RISK',
+        orderId: order.id,
+        operatorId: order.operatorId,
+        details
+      }, tx)
+
+      await alertService.raise({
+        orderId: order.id,
+        type: breached ? 'SLA_BREACHED' : 'SLA_AT_RISK',
+        severity: breached ? 'HIGH' : 'MEDIUM',
+        message: breached
+          ? `Order ${order.binanceOrderId} exceeded its ${sla.windowMinutes} minute ${sla.status} window`
+          : `Order ${order.binanceOrderId} is approaching its ${sla.status} deadline`,
+        details
+      }, tx)
+
+      return true
+    })
+  }
+}
+
+export const slaService = new SlaService()
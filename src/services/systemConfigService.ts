@@ -0,0 +1,51 @@
+/**
+ * System Configuration Service
+ *
+ * Typed access to SystemConfig rows. Values are merged over code defaults
+ * so a partially configured key still yields a complete settings object.
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+export const SYSTEM_USER = 'system'
+
+export class SystemConfigService {
+  /**
+   * Read a raw config value, or undefined when the key is not set
+   */
+  async getRaw<T = unknown>(key: string): Promise<T | undefined> {
+    const config = await prisma.systemConfig.findUnique({ where: { key } })
+    return config ? (config.value as T) : undefined
+  }
+
+  /**
+   * Read an object-valued config key merged over defaults
+   */
+  async get<T extends Record<string, any>>(key: string, defaults: T): Promise<T> {
+    const value = await this.getRaw<Partial<T>>(key)
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return defaults
+    }
+    return { ...defaults, ...value }
+  }
+
+  /**
+   * Create or replace a config value
+   */
+  async set(
+    key: string,
+    value: unknown,
+    updatedBy: string = SYSTEM_USER,
+    description?: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    await client.systemConfig.upsert({
+      where: { key },
+      update: { value: value as Prisma.InputJsonValue, updatedBy, description },
+      create: { key, value: value as Prisma.InputJsonValue, updatedBy, description }
+    })
+  }
+}
+
+export const systemConfigService = new SystemConfigService()
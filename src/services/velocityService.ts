@@ -0,0 +1,180 @@
+/**
+ * Velocity Service
+ *
+ * Measures how quickly orders arrive from a counterparty and through a
+ * payment account over sliding 1h/24h/7d windows, and looks for structuring:
+ * repeated amounts kept just under the value thresholds the risk policy
+ * reviews. Windows end at the order's creation time, so re-assessing or
+ * backtesting an order sees the same activity it was placed into. Amounts are
+ * compared in the base currency when the order's currency has an FX rate.
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { FxConverter } from './fxRateService'
+import { VelocityParameters } from './riskRulesEngine'
+
+export const VELOCITY_WINDOWS = { '1h': 1, '24h': 24, '7d': 168 } as const
+
+export type VelocityWindow = keyof typeof VELOCITY_WINDOWS
+
+export interface WindowStats {
+  count: number
+  // Sum of amounts in VelocityAnalysis.volumeCurrency
+  volume: number
+  orderIds: string[]
+}
+
+export interface VelocityAnalysis {
+  // Base currency when the order converts, else the order's own currency,
+  // in which case orders in other currencies are left out of volumes
+  volumeCurrency: string
+  counterparty: Record<VelocityWindow, WindowStats>
+  paymentAccount: Record<VelocityWindow, WindowStats> | null
+  // Other counterparties paying through the same account within 7 days
+  sharedAccount: { counterpartyIds: string[]; orderIds: string[] } | null
+  structuring: { threshold: number | null; count: number; volume: number; orderIds: string[] }
+}
+
+interface VelocityOrder {
+  id: string
+  counterpartyId: string
+  paymentAccount: string | null
+  amount: Prisma.Decimal
+  currency: string
+  createdAt: Date
+}
+
+// Amount in the analysis' volume currency, or null when not comparable
+type AmountValuer = (order: VelocityOrder) => number | null
+
+const HOUR_MS = 60 * 60 * 1000
+
+export class VelocityService {
+  /**
+   * Analyse the activity around an order's counterparty and payment account
+   */
+  async analyze(order: VelocityOrder, parameters: VelocityParameters, fx: FxConverter): Promise<VelocityAnalysis> {
+    const end = order.createdAt.getTime()
+    const lookbackHours = Math.max(VELOCITY_WINDOWS['7d'], parameters.structuringWindowHours)
+
+    const related = await prisma.p2POrder.findMany({
+      where: {
+        createdAt: { gte: new Date(end - lookbackHours * HOUR_MS), lte: order.createdAt },
+        OR: [
+          { counterpartyId: order.counterpartyId },
+          ...(order.paymentAccount ? [{ paymentAccount: order.paymentAccount }] : [])
+        ]
+      },
+      select: { id: true, counterpartyId: true, paymentAccount: true, amount: true, currency: true, createdAt: true },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    const byCounterparty = related.filter(o => o.counterpartyId === order.counterpartyId)
+    const byAccount = order.paymentAccount
+      ? related.filter(o => o.paymentAccount === order.paymentAccount)
+      : null
+    const value = this.valuer(order, fx)
+
+    return {
+      volumeCurrency: value.currency,
+      counterparty: this.windowStats(byCounterparty, order, value.of),
+      paymentAccount: byAccount ? this.windowStats(byAccount, order, value.of) : null,
+      sharedAccount: byAccount ? this.sharedAccount(byAccount, order) : null,
+      structuring: this.detectStructuring(related, order, parameters, value.of)
+    }
+  }
+
+  /**
+   * Pick the unit amounts are compared in: the base currency when the order
+   * converts, otherwise the order's own currency
+   */
+  private valuer(order: VelocityOrder, fx: FxConverter) {
+    const normalized = fx.convert(order.amount.toNumber(), order.currency, order.createdAt) !== null
+
+    return normalized
+      ? {
+          currency: fx.baseCurrency,
+          of: (o: VelocityOrder) => fx.convert(o.amount.toNumber(), o.currency, o.createdAt)?.amount ?? null
+        }
+      : {
+          currency: order.currency,
+          of: (o: VelocityOrder) => o.currency === order.currency ? o.amount.toNumber() : null
+        }
+  }
+
+  private windowStats(
+    orders: VelocityOrder[],
+    order: VelocityOrder,
+    valueOf: AmountValuer
+  ): Record<VelocityWindow, WindowStats> {
+    const stats = {} as Record<VelocityWindow, WindowStats>
+
+    for (const [window, hours] of Object.entries(VELOCITY_WINDOWS) as [VelocityWindow, number][]) {
+      const inWindow = this.within(orders, order, hours)
+      stats[window] = {
+        count: inWindow.length,
+        volume: this.volume(inWindow, valueOf),
+        orderIds: inWindow.map(o => o.id)
+      }
+    }
+
+    return stats
+  }
+
+  private sharedAccount(orders: VelocityOrder[], order: VelocityOrder) {
+    const others = this.within(orders, order, VELOCITY_WINDOWS['7d'])
+      .filter(o => o.counterpartyId !== order.counterpartyId)
+
+    return {
+      counterpartyIds: Array.from(new Set(others.map(o => o.counterpartyId))),
+      orderIds: others.map(o => o.id)
+    }
+  }
+
+  /**
+   * Find orders by the same counterparty or through the same account whose
+   * amounts sit within the margin below a threshold, keeping the threshold
+   * with the most hits (the higher one on a tie)
+   */
+  private detectStructuring(
+    orders: VelocityOrder[],
+    order: VelocityOrder,
+    parameters: VelocityParameters,
+    valueOf: AmountValuer
+  ) {
+    const candidates = this.within(orders, order, parameters.structuringWindowHours)
+
+    let best: VelocityAnalysis['structuring'] = { threshold: null, count: 0, volume: 0, orderIds: [] }
+
+    for (const threshold of [...parameters.structuringThresholds].sort((a, b) => b - a)) {
+      const floor = threshold * (1 - parameters.structuringMargin)
+      const hits = candidates.filter(o => {
+        const amount = valueOf(o)
+        return amount !== null && amount >= floor && amount <= threshold
+      })
+
+      if (hits.length > best.count) {
+        best = {
+          threshold,
+          count: hits.length,
+          volume: this.volume(hits, valueOf),
+          orderIds: hits.map(o => o.id)
+        }
+      }
+    }
+
+    return best
+  }
+
+  private within(orders: VelocityOrder[], order: VelocityOrder, hours: number): VelocityOrder[] {
+    const since = order.createdAt.getTime() - hours * HOUR_MS
+    return orders.filter(o => o.createdAt.getTime() >= since)
+  }
+
+  private volume(orders: VelocityOrder[], valueOf: AmountValuer): number {
+    return orders.reduce((sum, o) => sum + (valueOf(o) ?? 0), 0)
+  }
+}
+
+export const velocityService = new VelocityService()
@@ -6,6 +6,8 @@ export interface Operator {
   name: string
   role: 'ADMIN' | 'SUPERVISOR' | 'OPERATOR'
   isActive: boolean
+  skills: string[]
+  maxActiveOrders?: number
   createdAt: Date
   updatedAt: Date
 }
@@ -18,14 +20,53 @@ export interface P2POrder {
   price: number
   currency: string
   paymentMethod: string
+  paymentAccount?: string
   counterpartyId: string
   counterpartyName: string
   status: OrderStatus
   operatorId?: string
+  statusChangedAt: Date
+  slaStatus: SlaStatus
+  slaEscalatedAt?: Date
   createdAt: Date
   updatedAt: Date
 }
 
+export interface Counterparty {
+  id: string
+  externalId: string
+  displayName: string
+  knownNames: string[]
+  knownNamesText: string
+  paymentMethods: string[]
+  paymentAccounts: string[]
+  totalOrders: number
+  completedOrders: number
+  cancelledOrders: number
+  disputeCount: number
+  disputesLost: number
+  disputesWon: number
+  completionRate: number
+  volumeByCurrency: Record<string, number>
+  lastKycStatus?: KycStatus
+  lastKycAt?: Date
+  firstOrderAt?: Date
+  lastOrderAt?: Date
+  lastDisputeAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface CounterpartyIdentifier {
+  id: string
+  counterpartyId: string
+  type: IdentifierType
+  value: string
+  source: 'ORDER' | 'KYC' | 'DOCUMENT' | 'CHAT'
+  sourceRef?: string
+  createdAt: Date
+}
+
 export interface ChatMessage {
   id: string
   orderId: string
@@ -71,9 +112,39 @@ export interface RiskAssessment {
   autoApproved: boolean
   reviewRequired: boolean
   notes?: string
+  policyVersion: number
+  scoringMethod?: 'NOISY_OR' | 'WEIGHTED_AVERAGE'
+  policyHash?: string
+  assessedAt: Date
+}
+
+export interface RiskAssessmentSnapshot {
+  id: string
+  orderId: string
+  overallScore: number
+  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL'
+  recommendation: 'AUTO_APPROVE' | 'MANUAL_REVIEW' | 'REJECT'
+  riskFactors: Record<string, any>[]
+  decision?: Record<string, any>
+  notes?: string
+  policyVersion: number
+  scoringMethod?: 'NOISY_OR' | 'WEIGHTED_AVERAGE'
+  policyHash?: string
+  triggerType: AssessmentTrigger
+  triggerRef?: string
+  triggeredBy?: string
   assessedAt: Date
 }
 
+export interface RiskPolicyVersion {
+  id: string
+  version: number
+  policy: Record<string, any>
+  comment?: string
+  createdBy: string
+  createdAt: Date
+}
+
 export interface ChatReply {
   id: string
   orderId: string
@@ -88,6 +159,84 @@ export interface ChatReply {
   createdAt: Date
 }
 
+export interface DisputeCase {
+  id: string
+  orderId: string
+  reasonCategory: DisputeReason
+  description: string
+  status: 'OPEN' | 'UNDER_REVIEW' | 'RESOLVED'
+  outcome?: DisputeOutcome
+  resolutionSummary?: string
+  openedById: string
+  assignedSupervisorId?: string
+  resolvedById?: string
+  resolvedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface DisputeNote {
+  id: string
+  caseId: string
+  authorId: string
+  content: string
+  createdAt: Date
+}
+
+export interface DisputeEvidence {
+  id: string
+  caseId: string
+  type: 'CHAT_MESSAGE' | 'DOCUMENT'
+  chatMessageId?: string
+  documentId?: string
+  description?: string
+  addedById: string
+  createdAt: Date
+}
+
+export interface RiskAlert {
+  id: string
+  orderId?: string
+  type: string
+  severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL'
+  message: string
+  details: Record<string, any>
+  status: AlertStatus
+  acknowledgedBy?: string
+  acknowledgedAt?: Date
+  resolvedAt?: Date
+  createdAt: Date
+}
+
+export interface LedgerEntry {
+  id: string
+  orderId: string
+  entryType: LedgerEntryType
+  side: 'BUY' | 'SELL'
+  asset: string
+  currency: string
+  paymentMethod: string
+  operatorId?: string
+  price: number
+  cryptoDelta: number
+  fiatDelta: number
+  referenceRate?: number
+  spread: number
+  costBasis: number
+  realizedPnl: number
+  unmatchedQuantity: number
+  lotAllocations?: LotAllocation[]
+  reversesEntryId?: string
+  tradeDate: Date
+  createdAt: Date
+}
+
+export interface LotAllocation {
+  lotId: string
+  quantity: number
+  unitCost: number
+}
+
 export interface AuditLog {
   id: string
   orderId?: string
@@ -109,6 +258,47 @@ export type OrderStatus =
   | 'CANCELLED'
   | 'DISPUTED'
 
+export type DisputeReason =
+  | 'PAYMENT_NOT_RECEIVED'
+  | 'CRYPTO_NOT_RELEASED'
+  | 'WRONG_AMOUNT'
+  | 'THIRD_PARTY_PAYMENT'
+  | 'FRAUD_SUSPECTED'
+  | 'CHARGEBACK'
+  | 'OTHER'
+
+export type DisputeOutcome =
+  | 'MERCHANT_FAVOR'
+  | 'COUNTERPARTY_FAVOR'
+  | 'MUTUAL_CANCELLATION'
+  | 'WITHDRAWN'
+
+export type SlaStatus = 'ON_TRACK' | 'AT_RISK' | 'BREACHED'
+
+export type AlertStatus = 'OPEN' | 'ACKNOWLEDGED' | 'RESOLVED'
+
+export type LedgerEntryType = 'TRADE' | 'REVERSAL'
+
+export type IdentifierType =
+  | 'BANK_ACCOUNT'
+  | 'UPI_ID'
+  | 'PHONE'
+  | 'EMAIL'
+  | 'PERSON_NAME'
+  | 'ID_DOCUMENT'
+
+export type AssessmentTrigger =
+  | 'MANUAL'
+  | 'ORDER_CREATED'
+  | 'ORDER_UPDATED'
+  | 'STATUS_CHANGED'
+  | 'DOCUMENT_UPLOADED'
+  | 'DOCUMENT_PROCESSED'
+  | 'MESSAGE_RECEIVED'
+  | 'KYC_COMPLETED'
+  | 'POLICY_CHANGED'
+  | 'SCHEDULED'
+
 export type DocumentStatus = 
   | 'PENDING'
   | 'PROCESSING'